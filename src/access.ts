@@ -0,0 +1,324 @@
+import * as crypto from 'node:crypto'
+import * as path from 'node:path'
+import { Section, SectionVisibility, Settings } from './settings.js'
+import {
+    PASSWORD_ATTEMPT_WINDOW,
+    PASSWORD_MAX_FAILED_ATTEMPTS_PER_CLIENT,
+    PASSWORD_MAX_FAILED_ATTEMPTS_PER_SECTION,
+    SESSION_DURATION,
+} from './constants.js'
+import { collectSectionNamesByImage, collectSections, getSettings } from './service.js'
+import { galleryWatcher } from './resource_monitor.js'
+
+/**
+ * Access to a protected section, granted by its password or by a share link. Grants are carried by
+ * signed tokens: the session cookie of a visitor, and the share links.
+ */
+export interface AccessGrant {
+    // The name of the section
+    section: string
+
+    // The time the access ends, in milliseconds since epoch
+    expires: number
+
+    // The fingerprint of the password of the section when the access was granted, so changing the
+    // password revokes the access
+    key: string
+}
+
+/**
+ * Secret key used when no secret is set in the settings. It changes at every startup.
+ */
+const generatedSecret: string = crypto.randomBytes(32).toString('base64url')
+
+/**
+ * Times of the wrong passwords entered within PASSWORD_ATTEMPT_WINDOW, in milliseconds since
+ * epoch, keyed by section name and by client address.
+ */
+const failedPasswordAttempts: Map<string, Map<string, number[]>> = new Map()
+
+/**
+ * Images that only protected sections include, with the names of these sections, and the version
+ * of the gallery index and the settings they were collected from.
+ */
+let protectedImages: {
+    version: number,
+    settings: Settings,
+    sectionNames: Map<string, string[]>,
+} | undefined
+
+/**
+ * Gets the visibility of a section.
+ *
+ * @param {Section} section - The section.
+ * @returns {SectionVisibility} The visibility, "public" by default.
+ */
+export function getSectionVisibility(section: Section): SectionVisibility {
+    return section.visibility ?? 'public'
+}
+
+/**
+ * Collects the sections listed on the webpage, in the sitemap and in the REST API, i.e., the
+ * public sections.
+ *
+ * @returns {Map<string, Section>} The sections, keyed by section name.
+ * @see collectSections
+ */
+export function collectListedSections(): Map<string, Section> {
+    return new Map([...collectSections()]
+        .filter(([, section]) => getSectionVisibility(section) === 'public'))
+}
+
+/**
+ * Collects the sections a visitor can open: the public and unlisted sections, and the protected
+ * sections unlocked by the visitor.
+ *
+ * @param {Set<string>} [unlockedSectionNames] - The names of the protected sections unlocked by
+ * the visitor (default: none).
+ * @returns {Map<string, Section>} The sections, keyed by section name.
+ * @see collectSections
+ */
+export function collectVisibleSections(
+    unlockedSectionNames: Set<string> = new Set(),
+): Map<string, Section> {
+    return new Map([...collectSections()].filter(([sectionName, section]) =>
+        getSectionVisibility(section) !== 'protected' || unlockedSectionNames.has(sectionName)))
+}
+
+/**
+ * Checks whether a visitor can see an image. Only the images that no section but protected ones
+ * include are hidden, until one of these sections is unlocked.
+ *
+ * @param {string} imagePath - The relative path to the image within the gallery directory.
+ * @param {Set<string>} [unlockedSectionNames] - The names of the protected sections unlocked by
+ * the visitor (default: none).
+ * @returns {boolean} True if the visitor can see the image.
+ */
+export function isImageVisible(
+    imagePath: string,
+    unlockedSectionNames: Set<string> = new Set(),
+): boolean {
+    const sectionNames: string[] | undefined = getProtectedImageSectionNames(imagePath)
+    return sectionNames === undefined
+        || sectionNames.some(sectionName => unlockedSectionNames.has(sectionName))
+}
+
+/**
+ * Checks whether an image is hidden from the visitors who did not unlock a protected section.
+ *
+ * @param {string} imagePath - The relative path to the image within the gallery directory.
+ * @returns {boolean} True if only protected sections include the image.
+ */
+export function isImageProtected(imagePath: string): boolean {
+    return getProtectedImageSectionNames(imagePath) !== undefined
+}
+
+/**
+ * Unlocks a protected section with its password.
+ *
+ * @param {string} sectionName - The name of the section.
+ * @param {string} password - The password entered by the visitor.
+ * @returns {AccessGrant | undefined} The access to the section, or undefined if the section is not
+ * protected or the password is wrong.
+ */
+export function unlockSection(sectionName: string, password: string): AccessGrant | undefined {
+    const section: Section | undefined = getProtectedSection(sectionName)
+    if (section === undefined || !safeEqual(password, section.password as string)) {
+        return undefined
+    }
+
+    return {
+        section: sectionName,
+        expires: Date.now() + SESSION_DURATION,
+        key: computePasswordKey(sectionName, section.password as string),
+    }
+}
+
+/**
+ * Gets the time a client has to wait before trying a password of a protected section again, once
+ * the client or all the clients together entered too many wrong passwords within
+ * PASSWORD_ATTEMPT_WINDOW.
+ *
+ * @param {string} sectionName - The name of the section.
+ * @param {string} clientAddress - The address of the client.
+ * @returns {number} The delay in milliseconds, 0 if the client can try a password right away.
+ * @see recordFailedPasswordAttempt
+ */
+export function getPasswordRetryDelay(sectionName: string, clientAddress: string): number {
+    const now: number = Date.now()
+    const clientAttempts: Map<string, number[]> = collectFailedPasswordAttempts(sectionName, now)
+    const attempts: number[] = clientAttempts.get(clientAddress) ?? []
+    const sectionAttempts: number[] = [...clientAttempts.values()].flat().sort((a, b) => a - b)
+    const retryTime: number = Math.max(
+        getRetryTime(attempts, PASSWORD_MAX_FAILED_ATTEMPTS_PER_CLIENT),
+        getRetryTime(sectionAttempts, PASSWORD_MAX_FAILED_ATTEMPTS_PER_SECTION))
+    return Math.max(0, retryTime - now)
+}
+
+/**
+ * Records a wrong password entered by a client for a protected section.
+ *
+ * @param {string} sectionName - The name of the section. Attempts on the sections that are not
+ * protected are not recorded.
+ * @param {string} clientAddress - The address of the client.
+ * @see getPasswordRetryDelay
+ */
+export function recordFailedPasswordAttempt(sectionName: string, clientAddress: string): void {
+    if (getProtectedSection(sectionName) === undefined) {
+        return
+    }
+
+    const clientAttempts: Map<string, number[]>
+        = collectFailedPasswordAttempts(sectionName, Date.now())
+    clientAttempts.set(clientAddress, [...clientAttempts.get(clientAddress) ?? [], Date.now()])
+    failedPasswordAttempts.set(sectionName, clientAttempts)
+}
+
+/**
+ * Grants access to a protected section for a given duration, e.g., for a share link.
+ *
+ * @param {string} sectionName - The name of the section.
+ * @param {number} durationMs - The duration of the access, in milliseconds.
+ * @returns {AccessGrant | undefined} The access to the section, or undefined if the section is not
+ * protected.
+ */
+export function grantSectionAccess(
+    sectionName: string,
+    durationMs: number,
+): AccessGrant | undefined {
+    const section: Section | undefined = getProtectedSection(sectionName)
+    if (section === undefined) {
+        return undefined
+    }
+
+    return {
+        section: sectionName,
+        expires: Date.now() + durationMs,
+        key: computePasswordKey(sectionName, section.password as string),
+    }
+}
+
+/**
+ * Signs access grants into a token, for the session cookie or a share link.
+ *
+ * @param {AccessGrant[]} grants - The grants.
+ * @returns {string} The token, made of URL-safe characters.
+ */
+export function createAccessToken(grants: AccessGrant[]): string {
+    const payload: string = Buffer.from(JSON.stringify(
+        grants.map(grant => [grant.section, grant.expires, grant.key]))).toString('base64url')
+    return `${payload}.${sign(payload)}`
+}
+
+/**
+ * Reads the access grants of a token, keeping only the valid ones: neither expired, nor revoked by
+ * a change of the password or of the visibility of their section.
+ *
+ * @param {string | undefined} token - The token, e.g., the value of the session cookie.
+ * @returns {AccessGrant[]} The valid grants, empty if the token is missing or forged.
+ */
+export function readAccessToken(token: string | undefined): AccessGrant[] {
+    const [payload, signature] = (token ?? '').split('.', 2)
+    if (signature === undefined || !safeEqual(signature, sign(payload))) {
+        return []
+    }
+
+    // The signature proves that the payload was created by createAccessToken
+    const entries: [string, number, string][]
+        = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'))
+    const now: number = Date.now()
+    return entries
+        .map(([section, expires, key]) => ({ section, expires, key }))
+        .filter(grant => {
+            const section: Section | undefined = getProtectedSection(grant.section)
+            return section !== undefined && grant.expires > now
+                && grant.key === computePasswordKey(grant.section, section.password as string)
+        })
+}
+
+/**
+ * Compares two strings in a time that does not depend on their content.
+ *
+ * @param {string} value - The value given by a client.
+ * @param {string} expectedValue - The expected value.
+ * @returns {boolean} True if the values are equal.
+ */
+export function safeEqual(value: string, expectedValue: string): boolean {
+    // Hashing gives both values the same length, as required by timingSafeEqual
+    const hash = (text: string): Buffer => crypto.createHash('sha256').update(text).digest()
+    return crypto.timingSafeEqual(hash(value), hash(expectedValue))
+}
+
+/**
+ * Collects the wrong passwords entered for a section within PASSWORD_ATTEMPT_WINDOW, forgetting the
+ * older ones.
+ */
+function collectFailedPasswordAttempts(sectionName: string, now: number): Map<string, number[]> {
+    const clientAttempts: Map<string, number[]> = new Map()
+    failedPasswordAttempts.get(sectionName)?.forEach((attempts, clientAddress) => {
+        const recentAttempts: number[]
+            = attempts.filter(attempt => attempt > now - PASSWORD_ATTEMPT_WINDOW)
+        if (recentAttempts.length > 0) {
+            clientAttempts.set(clientAddress, recentAttempts)
+        }
+    })
+
+    if (clientAttempts.size === 0) {
+        failedPasswordAttempts.delete(sectionName)
+    } else {
+        failedPasswordAttempts.set(sectionName, clientAttempts)
+    }
+    return clientAttempts
+}
+
+/**
+ * Gets the time a limit of wrong passwords allows trying again: once enough of the attempts, in
+ * chronological order, are out of the window. The time is 0 if the limit is not reached.
+ */
+function getRetryTime(attempts: number[], maxAttempts: number): number {
+    return attempts.length < maxAttempts
+        ? 0
+        : attempts[attempts.length - maxAttempts] + PASSWORD_ATTEMPT_WINDOW
+}
+
+function getProtectedSection(sectionName: string): Section | undefined {
+    const section: Section | undefined = collectSections().get(sectionName)
+    return section !== undefined && getSectionVisibility(section) === 'protected'
+        ? section
+        : undefined
+}
+
+/**
+ * Gets the names of the protected sections including an image, if no other section includes it.
+ */
+function getProtectedImageSectionNames(imagePath: string): string[] | undefined {
+    const version: number = galleryWatcher.version
+    const settings: Settings = getSettings()
+    if (protectedImages?.version !== version || protectedImages.settings !== settings) {
+        const sections: Map<string, Section> = collectSections()
+        const sectionNames: Map<string, string[]> = new Map()
+        collectSectionNamesByImage(sections).forEach((names, otherImagePath) => {
+            if (names.every(name =>
+                getSectionVisibility(sections.get(name) as Section) === 'protected')) {
+                sectionNames.set(otherImagePath, names)
+            }
+        })
+        protectedImages = { version, settings, sectionNames }
+    }
+
+    return protectedImages.sectionNames.get(path.normalize(imagePath))
+}
+
+/**
+ * Computes the fingerprint of the password of a section. It cannot be reversed without the secret
+ * key, as tokens are readable by their holders.
+ */
+function computePasswordKey(sectionName: string, password: string): string {
+    return sign(`${sectionName}\0${password}`).substring(0, 16)
+}
+
+function sign(data: string): string {
+    return crypto.createHmac('sha256', getSettings().secret ?? generatedSecret)
+        .update(data)
+        .digest('base64url')
+}
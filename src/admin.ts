@@ -0,0 +1,404 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as crypto from 'node:crypto'
+import { AdminCredentials, Section, SectionVisibility, Settings } from './settings.js'
+import { FEATURED_SECTION_NAME, GLOBAL_SECTION_NAME } from './constants.js'
+import { galleryWatcher } from './resource_monitor.js'
+import { getGalleryPaths } from './service.js'
+import { SettingsIssue, validateSettings } from './settings_validator.js'
+import { safeEqual } from './access.js'
+import { logger } from './logger.js'
+
+/**
+ * Error thrown when an update of the settings is rejected. The settings file is left untouched.
+ */
+export class SettingsUpdateError extends Error {
+    /**
+     * @param {string} message - The reason of the rejection.
+     * @param {number} [status=400] - The HTTP status of the response.
+     * @param {SettingsIssue[]} [issues] - The issues the update would cause in the settings.
+     */
+    public constructor(
+        message: string,
+        public readonly status: number = 400,
+        public readonly issues: SettingsIssue[] = [],
+    ) {
+        super(message)
+        this.name = 'SettingsUpdateError'
+    }
+}
+
+/**
+ * Sections and featured images as written in the settings file, i.e., without the built-in
+ * sections and the automatic albums.
+ */
+export interface AdminGallery {
+    featured: string[]
+    sections: { [sectionName: string]: Section }
+}
+
+/**
+ * Checks the credentials of a request to the admin API.
+ *
+ * @param {string | undefined} authorization - The Authorization header of the request.
+ * @param {AdminCredentials} credentials - The credentials of the settings.
+ * @returns {boolean} True if the request is authenticated.
+ */
+export function isAuthorized(
+    authorization: string | undefined,
+    credentials: AdminCredentials,
+): boolean {
+    const [scheme, parameter] = (authorization ?? '').split(' ', 2)
+    if (scheme.toLowerCase() === 'bearer' && credentials.token !== undefined) {
+        return safeEqual(parameter ?? '', credentials.token)
+    }
+    if (scheme.toLowerCase() === 'basic' && credentials.username !== undefined) {
+        const decoded: string = Buffer.from(parameter ?? '', 'base64').toString('utf-8')
+        const separatorIndex: number = decoded.indexOf(':')
+        // Both parts are always compared, so the response time does not tell which one is wrong
+        const usernameMatches: boolean
+            = safeEqual(decoded.substring(0, separatorIndex), credentials.username)
+        const passwordMatches: boolean
+            = safeEqual(decoded.substring(separatorIndex + 1), credentials.password ?? '')
+        return separatorIndex >= 0 && usernameMatches && passwordMatches
+    }
+
+    return false
+}
+
+/**
+ * Reads the sections and the featured images from the settings file.
+ *
+ * @returns {AdminGallery} The sections and the featured images.
+ */
+export function getAdminGallery(): AdminGallery {
+    const settings: Settings = readSettingsFile()
+    return { featured: settings.featured, sections: settings.sections }
+}
+
+/**
+ * Creates a section, listed after the other sections.
+ *
+ * @param {string} sectionName - The name of the new section.
+ * @param {unknown} input - The title, the description, the images, the visibility and the password
+ * of the section.
+ * @returns {Section} The created section.
+ * @throws {SettingsUpdateError} If the name is taken or the input is invalid.
+ */
+export function createSection(sectionName: string, input: unknown): Section {
+    checkSectionName(sectionName)
+    const fields = checkSectionInput(input)
+    return updateSettingsFile(`created section "${sectionName}"`, settings => {
+        if (hasSection(settings, sectionName)) {
+            throw new SettingsUpdateError(`Section "${sectionName}" already exists`, 409)
+        }
+
+        const section: Section = {
+            title: fields.title ?? sectionName,
+            description: fields.description ?? '',
+            includes: fields.includes ?? [],
+            visibility: fields.visibility,
+            password: fields.password,
+        }
+        settings.sections[sectionName] = section
+        return section
+    })
+}
+
+/**
+ * Edits a section: its title, its description, its images (e.g., to reorder them), its visibility,
+ * its password, and its name. A renamed section keeps its position among the sections.
+ *
+ * @param {string} sectionName - The name of the section.
+ * @param {unknown} input - The fields to change: `name`, `title`, `description`, `includes`,
+ * `visibility` and `password`.
+ * @returns {[string, Section]} The name of the section and the edited section.
+ * @throws {SettingsUpdateError} If the section does not exist, the new name is taken, or the input
+ * is invalid.
+ */
+export function updateSection(sectionName: string, input: unknown): [string, Section] {
+    const fields = checkSectionInput(input)
+    const newSectionName: string = fields.name ?? sectionName
+    if (newSectionName !== sectionName) {
+        checkSectionName(newSectionName)
+    }
+
+    return updateSettingsFile(`updated section "${sectionName}"`, settings => {
+        const section: Section = getSection(settings, sectionName)
+        if (newSectionName !== sectionName && hasSection(settings, newSectionName)) {
+            throw new SettingsUpdateError(`Section "${newSectionName}" already exists`, 409)
+        }
+
+        section.title = fields.title ?? section.title
+        section.description = fields.description ?? section.description
+        section.includes = fields.includes ?? section.includes
+        section.visibility = fields.visibility ?? section.visibility
+        section.password = fields.password ?? section.password
+        settings.sections = Object.fromEntries(Object.entries(settings.sections).map(
+            ([name, value]) => name === sectionName ? [newSectionName, value] : [name, value]))
+        return [newSectionName, section]
+    })
+}
+
+/**
+ * Deletes a section. Its images stay in the gallery.
+ *
+ * @param {string} sectionName - The name of the section.
+ * @throws {SettingsUpdateError} If the section does not exist.
+ */
+export function deleteSection(sectionName: string): void {
+    updateSettingsFile(`deleted section "${sectionName}"`, settings => {
+        getSection(settings, sectionName)
+        delete settings.sections[sectionName]
+    })
+}
+
+/**
+ * Adds images to a section. Images already in the section are moved.
+ *
+ * @param {string} sectionName - The name of the section.
+ * @param {unknown} imagePaths - The relative paths to the images within the gallery directory.
+ * @param {unknown} [position] - The index the images are inserted at (default: at the end).
+ * @returns {string[]} The images of the section.
+ * @throws {SettingsUpdateError} If the section does not exist, or the input is invalid.
+ */
+export function addSectionImages(
+    sectionName: string,
+    imagePaths: unknown,
+    position?: unknown,
+): string[] {
+    const images: string[] = checkImagePaths(imagePaths, 'images')
+    return updateSettingsFile(`added ${images.length} image(s) to section "${sectionName}"`,
+        settings => {
+            const section: Section = getSection(settings, sectionName)
+            section.includes = insertImages(section.includes, images, position)
+            return section.includes
+        })
+}
+
+/**
+ * Removes an image from a section. The image stays in the gallery.
+ *
+ * @param {string} sectionName - The name of the section.
+ * @param {string} imagePath - The relative path to the image within the gallery directory.
+ * @returns {string[]} The images of the section.
+ * @throws {SettingsUpdateError} If the section does not exist or does not include the image.
+ */
+export function removeSectionImage(sectionName: string, imagePath: string): string[] {
+    return updateSettingsFile(`removed ${imagePath} from section "${sectionName}"`, settings => {
+        const section: Section = getSection(settings, sectionName)
+        section.includes = removeImage(section.includes, imagePath, `section "${sectionName}"`)
+        return section.includes
+    })
+}
+
+/**
+ * Replaces the featured images, e.g., to reorder them.
+ *
+ * @param {unknown} imagePaths - The relative paths to the images within the gallery directory.
+ * @returns {string[]} The featured images.
+ * @throws {SettingsUpdateError} If the input is invalid.
+ */
+export function setFeaturedImages(imagePaths: unknown): string[] {
+    const images: string[] = checkImagePaths(imagePaths, 'images')
+    return updateSettingsFile('replaced the featured images', settings => {
+        settings.featured = images
+        return settings.featured
+    })
+}
+
+/**
+ * Features an image, unless it is already featured.
+ *
+ * @param {string} imagePath - The relative path to the image within the gallery directory.
+ * @returns {string[]} The featured images.
+ * @throws {SettingsUpdateError} If the image is not in the gallery.
+ */
+export function addFeaturedImage(imagePath: string): string[] {
+    checkImagePaths([imagePath], 'image')
+    return updateSettingsFile(`featured ${imagePath}`, settings => {
+        if (!settings.featured.includes(imagePath)) {
+            settings.featured.push(imagePath)
+        }
+
+        return settings.featured
+    })
+}
+
+/**
+ * Stops featuring an image.
+ *
+ * @param {string} imagePath - The relative path to the image within the gallery directory.
+ * @returns {string[]} The featured images.
+ * @throws {SettingsUpdateError} If the image is not featured.
+ */
+export function removeFeaturedImage(imagePath: string): string[] {
+    return updateSettingsFile(`unfeatured ${imagePath}`, settings => {
+        settings.featured = removeImage(settings.featured, imagePath, 'the featured images')
+        return settings.featured
+    })
+}
+
+/**
+ * Adds uploaded images to a section, or features them, at the end.
+ *
+ * @param {string} sectionName - The name of the section, or "featured".
+ * @param {string[]} imagePaths - The relative paths to the images within the gallery directory.
+ * @returns {string[]} The images of the section.
+ * @throws {SettingsUpdateError} If the section does not exist, or an image is not in the gallery.
+ */
+export function addUploadedImages(sectionName: string, imagePaths: string[]): string[] {
+    const images: string[] = checkImagePaths(imagePaths, 'images')
+    if (sectionName === FEATURED_SECTION_NAME) {
+        return updateSettingsFile(`featured ${images.length} uploaded image(s)`, settings => {
+            settings.featured = insertImages(settings.featured, images)
+            return settings.featured
+        })
+    }
+
+    const description: string
+        = `added ${images.length} uploaded image(s) to section "${sectionName}"`
+    return updateSettingsFile(description, settings => {
+        const section: Section = getSection(settings, sectionName)
+        section.includes = insertImages(section.includes, images)
+        return section.includes
+    })
+}
+
+/**
+ * Applies an update to the settings file. The updated settings are validated, then written to a
+ * temporary file renamed over the settings file, so the settings monitor never reads a partially
+ * written file and reloads the settings once.
+ */
+function updateSettingsFile<T>(description: string, update: (settings: Settings) => T): T {
+    const settings: Settings = readSettingsFile()
+    const result: T = update(settings)
+
+    const errors: SettingsIssue[] = validateSettings(settings)
+        .filter(issue => issue.severity === 'error')
+    if (errors.length > 0) {
+        throw new SettingsUpdateError('The update would make the settings invalid', 400, errors)
+    }
+
+    const settingsFile: string = getGalleryPaths().settingsFile
+    const temporaryFile: string = path.join(path.dirname(settingsFile),
+        `.${path.basename(settingsFile)}.${crypto.randomUUID()}.tmp`)
+    fs.writeFileSync(temporaryFile, JSON.stringify(settings, null, '\t') + '\n')
+    fs.renameSync(temporaryFile, settingsFile)
+    logger.info('Settings updated', { change: description })
+
+    return result
+}
+
+/**
+ * Reads the settings file as is, rather than the last valid settings kept by the settings monitor,
+ * so an update never reverts the changes made to the file meanwhile.
+ */
+function readSettingsFile(): Settings {
+    let settings: unknown
+    try {
+        settings = JSON.parse(fs.readFileSync(getGalleryPaths().settingsFile).toString('utf-8'))
+    } catch (error) {
+        throw new SettingsUpdateError(`Cannot read the settings file: ${error}`, 409)
+    }
+
+    const errors: SettingsIssue[] = validateSettings(settings)
+        .filter(issue => issue.severity === 'error')
+    if (errors.length > 0) {
+        throw new SettingsUpdateError('The settings file is invalid, fix it first', 409, errors)
+    }
+
+    return settings as Settings
+}
+
+function getSection(settings: Settings, sectionName: string): Section {
+    if (!hasSection(settings, sectionName)) {
+        throw new SettingsUpdateError(`Section "${sectionName}" not found`, 404)
+    }
+
+    return settings.sections[sectionName]
+}
+
+/**
+ * Checks whether a section is defined, without mistaking the properties inherited by the sections
+ * object (e.g., "constructor") for sections.
+ */
+function hasSection(settings: Settings, sectionName: string): boolean {
+    return Object.prototype.hasOwnProperty.call(settings.sections, sectionName)
+}
+
+function checkSectionName(sectionName: string): void {
+    if (sectionName.trim() === '') {
+        throw new SettingsUpdateError('The section name must not be empty')
+    }
+    if (sectionName === FEATURED_SECTION_NAME || sectionName === GLOBAL_SECTION_NAME) {
+        throw new SettingsUpdateError(`"${sectionName}" is the name of a built-in section`)
+    }
+}
+
+function checkSectionInput(input: unknown): Partial<Section> & { name?: string } {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        throw new SettingsUpdateError('The body must be a JSON object')
+    }
+
+    const fields: { [key: string]: unknown } = input as { [key: string]: unknown }
+    for (const key of ['name', 'title', 'description', 'visibility', 'password']) {
+        if (fields[key] !== undefined && typeof fields[key] !== 'string') {
+            throw new SettingsUpdateError(`"${key}" must be a string`)
+        }
+    }
+
+    return {
+        name: fields.name as string | undefined,
+        title: fields.title as string | undefined,
+        description: fields.description as string | undefined,
+        visibility: fields.visibility as SectionVisibility | undefined,
+        password: fields.password as string | undefined,
+        includes: fields.includes === undefined
+            ? undefined
+            : checkImagePaths(fields.includes, 'includes'),
+    }
+}
+
+/**
+ * Checks that the images are in the gallery.
+ */
+function checkImagePaths(imagePaths: unknown, key: string): string[] {
+    if (!Array.isArray(imagePaths) || imagePaths.some(imagePath => typeof imagePath !== 'string')) {
+        throw new SettingsUpdateError(`"${key}" must be an array of image paths`)
+    }
+
+    const missingImagePaths: string[] = imagePaths.filter(imagePath =>
+        galleryWatcher.getModificationTime(imagePath) === undefined)
+    if (missingImagePaths.length > 0) {
+        throw new SettingsUpdateError(
+            `Image(s) not found in the gallery: ${missingImagePaths.join(', ')}`)
+    }
+
+    return [...new Set(imagePaths as string[])]
+}
+
+function insertImages(imagePaths: string[], images: string[], position?: unknown): string[] {
+    const remainingImagePaths: string[]
+        = imagePaths.filter(imagePath => !images.includes(imagePath))
+    if (position === undefined) {
+        return [...remainingImagePaths, ...images]
+    }
+    if (typeof position !== 'number' || !Number.isInteger(position) || position < 0) {
+        throw new SettingsUpdateError('"position" must be a non-negative integer')
+    }
+
+    return [
+        ...remainingImagePaths.slice(0, position),
+        ...images,
+        ...remainingImagePaths.slice(position),
+    ]
+}
+
+function removeImage(imagePaths: string[], imagePath: string, listName: string): string[] {
+    if (!imagePaths.includes(imagePath)) {
+        throw new SettingsUpdateError(`${imagePath} is not in ${listName}`, 404)
+    }
+
+    return imagePaths.filter(otherImagePath => otherImagePath !== imagePath)
+}
@@ -0,0 +1,141 @@
+import { AutoAlbums, Section } from './settings.js'
+
+// Month names used in the titles of the date albums
+const MONTH_NAMES = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December',
+] as const
+
+/**
+ * An album being collected: the segments of its key (e.g., ["2021", "04"]) and its images.
+ */
+interface AlbumNode {
+    segments: string[]
+    includes: string[]
+}
+
+/**
+ * Groups images into albums, either by directory or by capture date. Albums are nested up to the
+ * configured depth: the album of a parent directory (or of a year) includes all the images of its
+ * nested albums, and the nested albums have their parent album set.
+ *
+ * Albums are named after their key: the directory path for folder albums (e.g., "2021/04/07"), and
+ * the date for date albums (e.g., "2021", "2021-04", "2021-04-07"). Parent albums come before their
+ * nested albums.
+ *
+ * @param {string[]} imagePaths - The relative paths to the images to group.
+ * @param {AutoAlbums} autoAlbums - The album settings.
+ * @param {(imagePath: string) => string | undefined} getDateTaken - Gets the capture date of an
+ * image in ISO format (e.g., "2021-04-07T12:30:00"), only called when grouping by date.
+ * @returns {Map<string, Section>} The albums, keyed by album name. Images that cannot be grouped
+ * (images at the root of the gallery, or without capture date) are not in any album.
+ */
+export function collectAutoAlbums(
+    imagePaths: string[],
+    autoAlbums: AutoAlbums,
+    getDateTaken: (imagePath: string) => string | undefined,
+): Map<string, Section> {
+    const depth: number = Math.max(1, Math.floor(autoAlbums.depth ?? 1))
+    const nodes: Map<string, AlbumNode> = new Map()
+
+    const imageDates: Map<string, string> = new Map()
+    for (const imagePath of imagePaths) {
+        const segments: string[] | undefined = autoAlbums.by === 'date'
+            ? getDateSegments(imagePath, getDateTaken, imageDates)
+            : imagePath.split('/').slice(0, -1)
+        if (segments === undefined || segments.length === 0) {
+            continue
+        }
+
+        // The image belongs to its album and to all the parent albums
+        for (let length = 1; length <= Math.min(depth, segments.length); length++) {
+            const albumSegments: string[] = segments.slice(0, length)
+            const albumName: string = getAlbumName(autoAlbums, albumSegments)
+            if (!nodes.has(albumName)) {
+                nodes.set(albumName, { segments: albumSegments, includes: [] })
+            }
+            nodes.get(albumName)?.includes.push(imagePath)
+        }
+    }
+
+    const albums: Map<string, Section> = new Map()
+    const sortedNodes: AlbumNode[] = [...nodes.values()]
+        .sort((nodeA, nodeB) => compareSegments(nodeA.segments, nodeB.segments, autoAlbums))
+    for (const node of sortedNodes) {
+        const includes: string[] = autoAlbums.by === 'date'
+            ? node.includes.sort((imageA, imageB) =>
+                (imageDates.get(imageA) as string).localeCompare(imageDates.get(imageB) as string))
+            : node.includes
+
+        albums.set(getAlbumName(autoAlbums, node.segments), {
+            title: `${getAlbumTitle(autoAlbums, node.segments)}:`,
+            description: '',
+            includes,
+            parent: node.segments.length > 1
+                ? getAlbumName(autoAlbums, node.segments.slice(0, -1))
+                : undefined,
+        })
+    }
+
+    return albums
+}
+
+/**
+ * Splits the capture date of an image into year, month and day, and records the date for sorting.
+ */
+function getDateSegments(
+    imagePath: string,
+    getDateTaken: (imagePath: string) => string | undefined,
+    imageDates: Map<string, string>,
+): string[] | undefined {
+    const dateTaken: string | undefined = getDateTaken(imagePath)
+    const match = dateTaken === undefined ? null : /^(\d{4})-(\d{2})-(\d{2})/.exec(dateTaken)
+    if (match === null) {
+        return undefined
+    }
+
+    imageDates.set(imagePath, dateTaken as string)
+    return match.slice(1, 4)
+}
+
+function getAlbumName(autoAlbums: AutoAlbums, segments: string[]): string {
+    return segments.join(autoAlbums.by === 'date' ? '-' : '/')
+}
+
+/**
+ * Titles folder albums after their path (e.g., "2021 / 04"), and date albums after their date in
+ * English (e.g., "2021", "April 2021", "April 7, 2021").
+ */
+function getAlbumTitle(autoAlbums: AutoAlbums, segments: string[]): string {
+    if (autoAlbums.by !== 'date') {
+        return segments.join(' / ')
+    }
+
+    const [year, month, day] = segments
+    const monthName: string = MONTH_NAMES[Number(month) - 1] ?? month
+    switch (segments.length) {
+        case 1:
+            return year
+        case 2:
+            return `${monthName} ${year}`
+        default:
+            return `${monthName} ${Number(day)}, ${year}`
+    }
+}
+
+/**
+ * Orders albums depth-first: a parent album comes right before its nested albums, and sibling
+ * albums are sorted by name (numbers are compared numerically) in the configured order.
+ */
+function compareSegments(segmentsA: string[], segmentsB: string[], autoAlbums: AutoAlbums): number {
+    const direction: number = (autoAlbums.order ?? 'desc') === 'desc' ? -1 : 1
+    for (let i = 0; i < Math.min(segmentsA.length, segmentsB.length); i++) {
+        const comparison: number
+            = segmentsA[i].localeCompare(segmentsB[i], undefined, { numeric: true })
+        if (comparison !== 0) {
+            return comparison * direction
+        }
+    }
+
+    return segmentsA.length - segmentsB.length
+}
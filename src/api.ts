@@ -0,0 +1,268 @@
+import { CacheSize, Section, Settings } from './settings.js'
+import { FEATURED_SECTION_NAME, QUERY_STRING_KEYS, REST_API_PATH } from './constants.js'
+import {
+    collectImagePaths,
+    collectSectionNamesByImage,
+    getImageMetadata,
+    getImageUrl,
+    getMediaType,
+    getPhotoPageUrl,
+    getScaledWidth,
+    getSectionPageUrl,
+    getSettings,
+    getSiteUrl,
+    parseCacheSize,
+    resolveImagePath,
+} from './service.js'
+import { ImageMetadata } from './image_metadata.js'
+import { MediaType } from './media.js'
+import { collectListedSections, collectVisibleSections, isImageVisible } from './access.js'
+import { search, SearchQuery, SearchResults } from './search.js'
+
+/**
+ * Image of the REST API.
+ */
+export interface ApiImage {
+    // The relative path to the image within the gallery directory
+    path: string
+
+    // The type of the file: the variants of RAW files and videos are JPEG images of their preview
+    type: MediaType
+
+    // The absolute URLs of the original image and of the page of the image
+    url: string
+    pageUrl: string
+
+    // The names of the public sections including the image, in the order of the gallery
+    sections: string[]
+
+    // The metadata of the image, if its format is supported
+    metadata?: ImageMetadata
+
+    // The downscaled or compressed variants of the image, one per cache size
+    variants: ApiImageVariant[]
+}
+
+/**
+ * Variant of an image of the REST API.
+ */
+export interface ApiImageVariant {
+    // The cache size of the variant (e.g., "500k" or "w800")
+    size: string
+
+    // The absolute URL of the variant
+    url: string
+
+    // The dimensions of the variant, if it is downscaled to a dimension-based cache size and the
+    // dimensions of the original image are known
+    width?: number
+    height?: number
+}
+
+/**
+ * Section of the REST API.
+ */
+export interface ApiSection {
+    name: string
+    title: string
+    description: string
+
+    // The name of the album this album is nested in, if any
+    parent?: string
+
+    // The number of images of the section
+    imageCount: number
+
+    // The absolute URLs of the page of the section and of the images of the section in the API
+    pageUrl: string
+    imagesUrl: string
+}
+
+/**
+ * Section of the REST API, with the relative paths to its images.
+ */
+export interface ApiSectionDetails extends ApiSection {
+    images: string[]
+}
+
+/**
+ * Cache size of the REST API.
+ */
+export interface ApiCacheSize extends CacheSize {
+    // The cache size as written in the settings (e.g., "500k" or "w800")
+    size: string
+}
+
+/**
+ * Results of a search of the REST API.
+ */
+export interface ApiSearchResults {
+    // The matching images, in the order of the gallery
+    images: ApiImage[]
+
+    // The sections whose name, title or description match the words of the search
+    sections: ApiSection[]
+}
+
+/**
+ * Filter of the images of the REST API. Filters are combined.
+ */
+export interface ApiImageFilter {
+    // Only the images of this section, in the order of the section
+    section?: string
+
+    // Only the images in this directory of the gallery, or in its subdirectories
+    folder?: string
+}
+
+/**
+ * Lists the images of the gallery. Only the images of the public sections are listed, unless the
+ * images of an unlisted section are requested.
+ *
+ * @param {ApiImageFilter} [filter] - The filter of the images (default: all the listed images).
+ * @returns {ApiImage[] | undefined} The images, or undefined if the section of the filter does not
+ * exist or is protected.
+ */
+export function getApiImages(filter: ApiImageFilter = {}): ApiImage[] | undefined {
+    const sections: Map<string, Section> = collectListedSections()
+    let imagePaths: string[]
+    if (filter.section !== undefined) {
+        const section: Section | undefined = collectVisibleSections().get(filter.section)
+        if (section === undefined) {
+            return undefined
+        }
+
+        imagePaths = section.includes
+    } else {
+        const listedImagePaths: Set<string> = new Set(
+            [...sections.values()].flatMap(section => section.includes))
+        imagePaths = collectImagePaths().filter(imagePath => listedImagePaths.has(imagePath))
+    }
+
+    if (filter.folder !== undefined) {
+        const folder: string = filter.folder.replace(/^\/+|\/+$/g, '')
+        imagePaths = imagePaths.filter(imagePath =>
+            folder === '' || imagePath.startsWith(`${folder}/`))
+    }
+
+    const imageSections: Map<string, string[]> = collectSectionNamesByImage(sections)
+    return imagePaths.map(imagePath => toApiImage(imagePath, imageSections.get(imagePath) ?? []))
+}
+
+/**
+ * Gets an image of the gallery.
+ *
+ * @param {string} imagePath - The relative path to the image within the gallery directory.
+ * @returns {ApiImage | undefined} The image, or undefined if it is not part of the gallery or only
+ * protected sections include it.
+ */
+export function getApiImage(imagePath: string): ApiImage | undefined {
+    if (resolveImagePath(imagePath) === undefined || !isImageVisible(imagePath)) {
+        return undefined
+    }
+
+    const sectionNames: string[] | undefined
+        = collectSectionNamesByImage(collectListedSections()).get(imagePath)
+    return toApiImage(imagePath, sectionNames ?? [])
+}
+
+/**
+ * Lists the featured images.
+ *
+ * @returns {ApiImage[]} The featured images, in the order of the settings.
+ */
+export function getApiFeaturedImages(): ApiImage[] {
+    return getApiImages({ section: FEATURED_SECTION_NAME }) ?? []
+}
+
+/**
+ * Lists the public sections of the gallery, including the built-in and the nested ones.
+ *
+ * @returns {ApiSection[]} The sections, in the order of the webpage.
+ */
+export function getApiSections(): ApiSection[] {
+    return [...collectListedSections()]
+        .map(([sectionName, section]) => toApiSection(sectionName, section))
+}
+
+/**
+ * Gets a section of the gallery.
+ *
+ * @param {string} sectionName - The name of the section.
+ * @returns {ApiSectionDetails | undefined} The section, or undefined if it does not exist or is
+ * protected.
+ */
+export function getApiSection(sectionName: string): ApiSectionDetails | undefined {
+    const section: Section | undefined = collectVisibleSections().get(sectionName)
+    if (section === undefined) {
+        return undefined
+    }
+
+    return { ...toApiSection(sectionName, section), images: section.includes }
+}
+
+/**
+ * Searches the images and the sections of the gallery.
+ *
+ * @param {SearchQuery} query - The search query.
+ * @returns {ApiSearchResults} The matching images and sections, empty if the query has no
+ * criteria.
+ * @see search
+ */
+export function getApiSearchResults(query: SearchQuery): ApiSearchResults {
+    const sections: Map<string, Section> = collectListedSections()
+    const imageSections: Map<string, string[]> = collectSectionNamesByImage(sections)
+    const results: SearchResults = search(query)
+    return {
+        images: results.images
+            .map(imagePath => toApiImage(imagePath, imageSections.get(imagePath) ?? [])),
+        sections: results.sections
+            .map(sectionName => toApiSection(sectionName, sections.get(sectionName) as Section)),
+    }
+}
+
+/**
+ * Lists the cache sizes, i.e., the variants available for every image.
+ *
+ * @returns {ApiCacheSize[]} The cache sizes, in the order of the settings.
+ */
+export function getApiCacheSizes(): ApiCacheSize[] {
+    return getSettings()['cache-sz'].map(size => ({ size, ...parseCacheSize(size) }))
+}
+
+function toApiImage(imagePath: string, sectionNames: string[]): ApiImage {
+    const settings: Settings = getSettings()
+    const metadata: ImageMetadata | undefined = getImageMetadata(imagePath)
+    return {
+        path: imagePath,
+        type: getMediaType(imagePath),
+        url: getSiteUrl(getImageUrl(imagePath)),
+        pageUrl: getSiteUrl(getPhotoPageUrl(imagePath)),
+        sections: sectionNames,
+        metadata,
+        variants: settings['cache-sz'].map(size => {
+            const variant: ApiImageVariant = { size, url: getSiteUrl(getImageUrl(imagePath, size)) }
+            const cacheSize: CacheSize | undefined = parseCacheSize(size)
+            if (metadata !== undefined && cacheSize !== undefined
+                && cacheSize.targetSize === undefined) {
+                variant.width = getScaledWidth(cacheSize, metadata.width, metadata.height)
+                variant.height = Math.round(metadata.height * variant.width / metadata.width)
+            }
+
+            return variant
+        }),
+    }
+}
+
+function toApiSection(sectionName: string, section: Section): ApiSection {
+    return {
+        name: sectionName,
+        title: section.title,
+        description: section.description,
+        parent: section.parent,
+        imageCount: section.includes.length,
+        pageUrl: getSiteUrl(getSectionPageUrl(sectionName)),
+        imagesUrl: getSiteUrl(`${REST_API_PATH}/images`
+            + `?${QUERY_STRING_KEYS.SECTION}=${encodeURIComponent(sectionName)}`),
+    }
+}
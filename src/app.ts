@@ -0,0 +1,109 @@
+import Koa from 'koa'
+import send from 'koa-send'
+import {
+    DEFAULT_GALLERY_PATHS,
+    GalleryPaths,
+    getBasePath,
+    getSettings,
+    openGallery,
+} from './service.js'
+import { router } from './routes.js'
+import { settingsWatcher } from './resource_monitor.js'
+import { getThemeFileRoot } from './theme.js'
+import { logger } from './logger.js'
+import { httpRequestDuration, httpRequestsTotal } from './metrics.js'
+
+/**
+ * Creates the web application of a gallery, without listening: the server listens with it, and the
+ * tests serve it on a random port. The gallery is opened in place of the open one, as a process
+ * serves one gallery at a time.
+ *
+ * The application follows the changes of the settings file until it emits `close`, which its
+ * server emits once closed.
+ *
+ * @param {GalleryPaths} [paths] - The locations of the gallery, its cache and its settings file
+ * (default: the ones of the project directory).
+ * @returns {Koa} The application.
+ * @see openGallery
+ */
+export function createApp(paths: GalleryPaths = DEFAULT_GALLERY_PATHS): Koa {
+    openGallery(paths)
+    const app = new Koa()
+
+    // Trust the reverse proxy if the settings do, checked again whenever the settings file changes
+    const trustProxy = (): void => {
+        app.proxy = getSettings()['trust-proxy'] ?? false
+    }
+    trustProxy()
+    app.once('close', settingsWatcher.onChange(trustProxy))
+
+    // Record the status and the latency of the requests, by route (the path pattern matched by the
+    // router, so that the metrics do not grow with every image)
+    app.use(async (ctx, next) => {
+        const startTime: number = performance.now()
+        let status: number = 500
+        try {
+            await next()
+            status = ctx.status
+        } catch (error) {
+            status = (error as { status?: number }).status ?? 500
+            throw error
+        } finally {
+            const route: string
+                = ctx._matchedRoute === undefined ? 'unmatched' : `${ctx._matchedRoute}`
+            const duration: number = (performance.now() - startTime) / 1000
+            httpRequestsTotal.inc({ method: ctx.method, route, status: `${status}` })
+            httpRequestDuration.observe({ method: ctx.method, route }, duration)
+            logger.debug('Request served', {
+                method: ctx.method,
+                url: ctx.originalUrl,
+                ip: ctx.ip,
+                status,
+                ms: Math.round(duration * 1000),
+            })
+        }
+    })
+
+    // Serve the website under its base path
+    app.use(async (ctx, next) => {
+        const basePath: string = getBasePath()
+        if (basePath !== '/') {
+            if (ctx.path === basePath.slice(0, -1)) {
+                // Relative URLs are only resolved from the base path with its trailing slash
+                ctx.status = 301
+                ctx.redirect(basePath + ctx.search)
+                return
+            }
+            if (!ctx.path.startsWith(basePath)) {
+                ctx.status = 404
+                return
+            }
+
+            ctx.path = ctx.path.substring(basePath.length - 1)
+        }
+
+        await next()
+    })
+
+    // Use router middleware
+    app.use(router.routes()).use(router.allowedMethods())
+
+    // Default 404 handler
+    app.use(async (ctx) => {
+        ctx.status = 404
+        await send(ctx, '404.html', { root: getThemeFileRoot('404.html') })
+    })
+
+    // Log the server errors, as Koa does by default; client errors (e.g., ctx.throw(400)) are
+    // expected
+    app.on('error', (error, ctx) => {
+        if (error.status === 404 || error.expose) {
+            return
+        }
+
+        logger.error('Error while serving a request',
+            { method: ctx?.method, url: ctx?.url, error: error.stack ?? error })
+    })
+
+    return app
+}
@@ -0,0 +1,165 @@
+import * as fs from 'node:fs'
+import { OutputFormat } from './image_processor.js'
+import { logger } from './logger.js'
+
+/**
+ * Record of a cached image.
+ */
+export interface CacheManifestEntry {
+    // The relative path to the original image within the gallery directory
+    source: string
+
+    // The modification time and the size in bytes of the original image when the cached image was
+    // generated
+    sourceMtimeMs: number
+    sourceBytes: number
+
+    // The cache size (e.g., "500k") and the output format of the cached image
+    size: string
+    format?: OutputFormat
+
+    // The size of the cached image in bytes
+    bytes: number
+
+    // The last time the cached image was served or generated, in milliseconds since epoch
+    lastAccessMs: number
+}
+
+/**
+ * Manifest of the cached images, persisted as a JSON file. Entries are keyed by the file name of
+ * the cached image within the cache directory.
+ */
+export class CacheManifest {
+    // Delay before the modified manifest is written to the disk
+    private static readonly SAVE_DELAY = 5000
+
+    /**
+     * The entries, loaded from the manifest file on first access.
+     * @private
+     */
+    private entries ?: Map<string, CacheManifestEntry>
+
+    /**
+     * Timer of the pending write, if any.
+     * @private
+     */
+    private saveTimer ?: NodeJS.Timeout
+
+    /**
+     * @param {string} manifestFile - The path to the manifest file.
+     */
+    public constructor(private readonly manifestFile: string) {
+    }
+
+    /**
+     * Gets the entry of a cached image.
+     * @param {string} cacheFile - The file name of the cached image.
+     * @returns {CacheManifestEntry | undefined} The entry, or undefined if the image is not
+     * recorded.
+     */
+    public get(cacheFile: string): CacheManifestEntry | undefined {
+        return this.getEntries().get(cacheFile)
+    }
+
+    /**
+     * Records a cached image, replacing its previous entry.
+     * @param {string} cacheFile - The file name of the cached image.
+     * @param {CacheManifestEntry} entry - The entry.
+     */
+    public set(cacheFile: string, entry: CacheManifestEntry): void {
+        this.getEntries().set(cacheFile, entry)
+        this.scheduleSave()
+    }
+
+    /**
+     * Removes the entry of a cached image.
+     * @param {string} cacheFile - The file name of the cached image.
+     */
+    public delete(cacheFile: string): void {
+        if (this.getEntries().delete(cacheFile)) {
+            this.scheduleSave()
+        }
+    }
+
+    /**
+     * Updates the last access time of a cached image.
+     * @param {string} cacheFile - The file name of the cached image.
+     */
+    public touch(cacheFile: string): void {
+        const entry: CacheManifestEntry | undefined = this.getEntries().get(cacheFile)
+        if (entry !== undefined) {
+            entry.lastAccessMs = Date.now()
+            this.scheduleSave()
+        }
+    }
+
+    /**
+     * Lists all the entries.
+     * @returns {[string, CacheManifestEntry][]} The file names of the cached images and their
+     * entries.
+     */
+    public list(): [string, CacheManifestEntry][] {
+        return [...this.getEntries().entries()]
+    }
+
+    /**
+     * Computes the total size of the recorded cached images.
+     * @returns {number} The total size in bytes.
+     */
+    public getTotalBytes(): number {
+        let totalBytes: number = 0
+        this.getEntries().forEach(entry => totalBytes += entry.bytes)
+        return totalBytes
+    }
+
+    /**
+     * Writes the manifest to the disk immediately. The file is replaced atomically.
+     */
+    public save(): void {
+        clearTimeout(this.saveTimer)
+        this.saveTimer = undefined
+
+        const temporaryFile: string = `${this.manifestFile}.tmp`
+        fs.writeFileSync(temporaryFile, JSON.stringify(Object.fromEntries(this.getEntries())))
+        fs.renameSync(temporaryFile, this.manifestFile)
+    }
+
+    /**
+     * Writes the pending changes to the disk immediately, e.g., before the process exits.
+     */
+    public flush(): void {
+        if (this.saveTimer !== undefined) {
+            this.save()
+        }
+    }
+
+    private getEntries(): Map<string, CacheManifestEntry> {
+        if (this.entries === undefined) {
+            this.entries = new Map()
+            try {
+                const content: string = fs.readFileSync(this.manifestFile).toString('utf-8')
+                this.entries = new Map(Object.entries(JSON.parse(content)))
+            } catch (error) {
+                // The manifest does not exist yet or is corrupted; the cached images will be
+                // recorded again
+            }
+        }
+
+        return this.entries
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer === undefined) {
+            this.saveTimer = setTimeout(() => {
+                try {
+                    this.save()
+                } catch (error) {
+                    logger.error('Error while saving the cache manifest', { error })
+                }
+            }, CacheManifest.SAVE_DELAY)
+
+            // A pending write should not keep the process alive
+            this.saveTimer.unref()
+        }
+    }
+}
@@ -0,0 +1,77 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { GALLERY_DIR, SETTINGS_FILE } from './constants.js'
+import { formatSettingsIssue, parseSettings, SettingsIssue } from './settings_validator.js'
+import { ExportSummary, SiteExporter } from './exporter.js'
+
+/**
+ * Command line tools of the gallery. Usage: `node dist/cli.js <command> [arguments]`.
+ */
+const commands: { [name: string]: (args: string[]) => Promise<number> } = {
+    check,
+    export: exportSite,
+}
+
+/**
+ * Checks the settings file, printing the errors and warnings found.
+ * Usage: `check [settings-file]` (default: `gallery-settings.json`).
+ *
+ * @returns {Promise<number>} The exit code: 1 if the settings cannot be used, 0 otherwise.
+ */
+async function check(args: string[]): Promise<number> {
+    const settingsFile: string = path.resolve(args[0] ?? SETTINGS_FILE)
+
+    let content: string
+    try {
+        content = fs.readFileSync(settingsFile).toString('utf-8')
+    } catch (error) {
+        console.error(`Cannot read ${settingsFile}: ${error}`)
+        return 1
+    }
+
+    const { settings, issues } = parseSettings(
+        content, imagePath => fs.existsSync(path.join(GALLERY_DIR, imagePath)))
+    issues.forEach((issue: SettingsIssue) => console.log(formatSettingsIssue(issue)))
+
+    const warningCount: number = issues.filter(issue => issue.severity === 'warning').length
+    console.log(settings === undefined
+        ? `${settingsFile}: ${issues.length - warningCount} error(s), ${warningCount} warning(s)`
+        : `${settingsFile}: valid, ${warningCount} warning(s)`)
+
+    return settings === undefined ? 1 : 0
+}
+
+/**
+ * Exports the gallery as a static website. Usage: `export <output-dir>`.
+ *
+ * @returns {Promise<number>} The exit code: 1 if the export failed, 0 otherwise.
+ */
+async function exportSite(args: string[]): Promise<number> {
+    if (args[0] === undefined) {
+        console.error('Usage: node dist/cli.js export <output-dir>')
+        return 2
+    }
+
+    const outputDir: string = path.resolve(args[0])
+    const startTime: number = Date.now()
+    try {
+        const summary: ExportSummary = await new SiteExporter(outputDir).export()
+        console.log(`Exported the gallery to ${outputDir} in ${(Date.now() - startTime) / 1000}s: `
+            + `${summary.written} file(s) written, ${summary.unchanged} unchanged, `
+            + `${summary.removed} removed`)
+        return 0
+    } catch (error) {
+        console.error(`Error while exporting the gallery: ${error}`)
+        return 1
+    }
+}
+
+const [commandName, ...args] = process.argv.slice(2)
+const command = commands[commandName]
+if (command === undefined) {
+    console.error(`Usage: node dist/cli.js <${Object.keys(commands).join('|')}> [arguments]`)
+    process.exit(2)
+}
+
+// Exit explicitly, as the modules loaded by the command may keep timers running
+process.exit(await command(args))
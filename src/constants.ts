@@ -7,24 +7,100 @@ import { dirname } from 'path'
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
 
-// Significant directories and files
+// Significant directories and files. The gallery, the cache and the settings file are the defaults
+// of the app (see createApp)
 export const ROOT_DIR = path.resolve(__dirname, '..')
 export const GALLERY_DIR = path.join(ROOT_DIR, 'gallery')
 export const CACHE_DIR = path.join(ROOT_DIR, 'cache')
 export const TEMPLATE_DIR = path.join(ROOT_DIR, 'src/template')
+export const THEMES_DIR = path.join(ROOT_DIR, 'themes')
 export const SETTINGS_FILE = path.join(ROOT_DIR, 'gallery-settings.json')
-export const TEMPLATE_HTML_FILE = path.join(TEMPLATE_DIR, 'index.html')
+
+// Name of the manifest of the cached images, in the cache directory
+export const CACHE_MANIFEST_FILE_NAME = '.manifest.json'
 
 // Query string keys
 export const QUERY_STRING_KEYS = {
     SIZE: 'sz',
+    SECTION: 'section',
+    PAGE: 'page',
+    VERSION: 'v',
+    FOLDER: 'folder',
+    ACCESS: 'access',
+    TEXT: 'q',
+    FROM: 'from',
+    TO: 'to',
+    CAMERA: 'camera',
+    LENS: 'lens',
+    FOCAL_LENGTH: 'focal',
+} as const
+
+// Path of the current version of the REST API, relative to the root of the website
+export const REST_API_PATH = 'api/v1'
+
+// Path of the admin API, relative to the root of the website
+export const ADMIN_API_PATH = 'api/admin'
+
+// Names of the built-in sections
+export const FEATURED_SECTION_NAME = 'featured'
+export const GLOBAL_SECTION_NAME = 'global'
+
+// Dimensions assumed for images whose headers cannot be read
+export const FALLBACK_IMAGE_DIMENSIONS = {
+    width: 6000,
+    height: 3376,
 } as const
 
-// Sitemap
-export const SITEMAP = [
-    '',
-    'sitemap.xml',
-    'robots.txt',
-    'favicon.ico',
-    'index.css',
-] as const
+// Cache size of the JPEG previews of the RAW files and the poster frames of the videos, from which
+// their cached images are generated
+export const PREVIEW_CACHE_SIZE = 'preview'
+
+// Interval (in milliseconds) between two garbage collections of the cache directory
+export const CACHE_GC_INTERVAL = 60 * 60 * 1000
+
+// Time (in milliseconds) given to the requests being served when the server is stopped
+export const SHUTDOWN_TIMEOUT = 10 * 1000
+
+// Default `sizes` attribute of the images on the webpage, matching the grid layout of main.css
+export const DEFAULT_IMAGE_SIZES = '(max-width: 32rem) 100vw, (max-width: 64rem) 50vw, 25vw'
+
+// Number of images per page of a section, unless configured in the settings
+export const DEFAULT_PAGE_SIZE = 60
+
+// Cache-Control header of the responses to versioned URLs, which never change
+export const IMMUTABLE_CACHE_CONTROL = 'public, max-age=31536000, immutable'
+
+// Cache-Control header of the other responses, which clients must revalidate before reusing
+export const REVALIDATE_CACHE_CONTROL = 'no-cache'
+
+// Cache-Control headers of the responses only meant for the visitors who unlocked a protected
+// section, which shared caches must not store
+export const PRIVATE_IMMUTABLE_CACHE_CONTROL = 'private, max-age=31536000, immutable'
+export const PRIVATE_REVALIDATE_CACHE_CONTROL = 'private, no-cache'
+
+// Name of the cookie holding the protected sections unlocked by a visitor
+export const ACCESS_COOKIE_NAME = 'gallery-access'
+
+// Durations (in milliseconds) of the access to a protected section, after entering its password
+// and by default through a share link
+export const SESSION_DURATION = 30 * 24 * 60 * 60 * 1000
+export const DEFAULT_SHARE_LINK_DURATION = 7 * 24 * 60 * 60 * 1000
+
+// Wrong passwords of a protected section allowed within PASSWORD_ATTEMPT_WINDOW (in milliseconds),
+// from a client address and from all the clients, before the password form answers 429
+export const PASSWORD_ATTEMPT_WINDOW = 15 * 60 * 1000
+export const PASSWORD_MAX_FAILED_ATTEMPTS_PER_CLIENT = 5
+export const PASSWORD_MAX_FAILED_ATTEMPTS_PER_SECTION = 50
+
+// Maximum number of URLs of a sitemap, set by the sitemap protocol. Larger sitemaps are split
+export const SITEMAP_MAX_URLS = 50000
+
+// Default settings of the uploaded images
+export const DEFAULT_UPLOAD_FOLDER = '{yyyy}/{mm}/{dd}'
+export const DEFAULT_UPLOAD_MAX_SIZE = '50m'
+
+// Maximum number of images uploaded with a single request
+export const UPLOAD_MAX_FILES = 20
+
+// Temporary files written to the gallery while an image is uploaded, which are never indexed
+export const UPLOAD_TEMPORARY_FILE_PATTERN = /^\.[0-9a-f-]+\.tmp$/
@@ -0,0 +1,379 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { JSDOM } from 'jsdom'
+import { Section, Settings } from './settings.js'
+import { QUERY_STRING_KEYS } from './constants.js'
+import {
+    collectImagePaths,
+    compressAndGetImageCachePath,
+    getGalleryPaths,
+    getMediaType,
+    getPageCount,
+    getSettings,
+    getSiteUrl,
+} from './service.js'
+import { sitemapResourceMonitor, webpageResourceMonitor } from './resource_monitor.js'
+import { renderPhotoPage, renderSectionImagesPage, renderSectionPage } from './pages.js'
+import { ImageProcessingError } from './image_processor.js'
+import { escapeXml, getSitemapFileName, renderRobotsTxt, unescapeXml } from './sitemap.js'
+import { collectVisibleSections, isImageVisible } from './access.js'
+import { getThemeFileRoot, listThemeFiles } from './theme.js'
+import { logger } from './logger.js'
+
+/**
+ * Counts of the files handled by an export.
+ */
+export interface ExportSummary {
+    // Files written or copied because they are new or have changed
+    written: number
+
+    // Files left untouched because they are up to date
+    unchanged: number
+
+    // Files removed because they are no longer part of the gallery
+    removed: number
+}
+
+// Attributes holding a single URL, rewritten in the exported pages
+const URL_ATTRIBUTES = ['href', 'src', 'data-src', 'data-pswp-src', 'data-page-url'] as const
+
+// Attributes holding a list of URLs with descriptors, e.g., "image/a.jpg?sz=w800 800w"
+const SRCSET_ATTRIBUTES = ['srcset', 'data-srcset'] as const
+
+// Top-level directories of the output directory managed by the export; the stale files found in
+// them are removed
+const MANAGED_DIRS = ['api', 'cache', 'css', 'image', 'js', 'photo', 'section'] as const
+
+// Top-level files of the output directory managed by the export, besides the ones always written:
+// the parts of a split sitemap
+const MANAGED_FILE_PATTERN = /^sitemap-\d+\.xml$/
+
+/**
+ * Exports the gallery as a static website that can be hosted on any static storage: the webpage,
+ * the photo and section pages, the pages of images loaded while scrolling, the sitemap, robots.txt,
+ * the icon, the CSS and JS files, the original images and all their cached sizes.
+ *
+ * URLs are rewritten to relative URLs of static files, since a static host ignores query strings:
+ * e.g., `image/a.jpg?sz=w800` becomes `cache/w800/a.jpg`, and `photo/a.jpg?section=cats` becomes
+ * `photo/a.jpg.html`. Cached images are converted to modern formats by the server only, so the
+ * exported cached images keep the format of the originals.
+ *
+ * The export is incremental: only the images whose cached images are missing or stale are encoded,
+ * and the files that are up to date in the output directory are not written again.
+ */
+export class SiteExporter {
+    /**
+     * Relative paths of the files of the current export.
+     * @private
+     */
+    private readonly exportedFiles: Set<string> = new Set()
+
+    private readonly summary: ExportSummary = { written: 0, unchanged: 0, removed: 0 }
+
+    /**
+     * @param {string} outputDir - The directory the website is exported to. It is created if it
+     * does not exist.
+     */
+    public constructor(private readonly outputDir: string) {
+    }
+
+    /**
+     * Exports the gallery.
+     * @returns {Promise<ExportSummary>} A promise resolving to the counts of the files handled.
+     */
+    public async export(): Promise<ExportSummary> {
+        // A static website cannot check passwords, so the protected sections are left out
+        const settings: Settings = getSettings()
+        const sections: Map<string, Section> = collectVisibleSections()
+        const imagePaths: string[]
+            = collectImagePaths().filter(imagePath => isImageVisible(imagePath))
+
+        this.writePage('index.html', webpageResourceMonitor.getContent())
+        sitemapResourceMonitor.getContent().forEach((sitemap, index) =>
+            this.writeFile(getSitemapFileName(index), rewriteSitemap(sitemap)))
+        this.writeFile('robots.txt', renderRobotsTxt())
+        for (const file of ['404.html', 'favicon.svg']) {
+            this.copyFile(path.join(getThemeFileRoot(file), file), file)
+        }
+        for (const dir of ['css', 'js']) {
+            for (const fileName of listThemeFiles(dir)) {
+                const file: string = path.join(dir, fileName)
+                this.copyFile(path.join(getThemeFileRoot(file), file), file)
+            }
+        }
+
+        for (const [sectionName, section] of sections) {
+            const sectionPage: string | undefined = renderSectionPage(sectionName)
+            if (sectionPage !== undefined) {
+                const sectionUrl: string = `section/${encodeURIComponent(sectionName)}`
+                this.writePage(toFilePath(toStaticUrl(sectionUrl)), sectionPage)
+            }
+
+            // The first page of images is part of the webpage
+            for (let page = 2; page <= getPageCount(section); page++) {
+                const imagesPage = renderSectionImagesPage(sectionName, page)
+                if (imagesPage !== undefined) {
+                    imagesPage.html = rewriteHtmlFragment(imagesPage.html)
+                    this.writeFile(
+                        toFilePath(toStaticUrl(
+                            `api/sections/${encodeURIComponent(sectionName)}`
+                            + `?${QUERY_STRING_KEYS.PAGE}=${page}`)),
+                        JSON.stringify(imagesPage))
+                }
+            }
+        }
+
+        for (const imagePath of imagePaths) {
+            const photoPage: string | undefined = renderPhotoPage(imagePath)
+            if (photoPage !== undefined) {
+                this.writePage(path.join('photo', `${imagePath}.html`), photoPage)
+            }
+        }
+
+        // Cached images are generated by the job queue, which bounds the number of encodings
+        await Promise.all(imagePaths.map(imagePath => this.exportImage(imagePath, settings)))
+
+        this.removeStaleFiles()
+        return this.summary
+    }
+
+    /**
+     * Copies an original image and all its cached sizes. If a cached image cannot be generated,
+     * the original image is exported in its place, as the server does, unless it is a RAW file or
+     * a video.
+     */
+    private async exportImage(imagePath: string, settings: Settings): Promise<void> {
+        const originalPath: string = path.join(getGalleryPaths().galleryDir, imagePath)
+        this.copyFile(originalPath, path.join('image', imagePath))
+
+        await Promise.all(settings['cache-sz'].map(async size => {
+            const exportPath: string
+                = path.join('cache', size, imagePath) + getCacheExtension(imagePath)
+            try {
+                const imageCachePath: string = await compressAndGetImageCachePath(imagePath, size)
+                this.copyFile(path.join(getGalleryPaths().cacheDir, imageCachePath), exportPath)
+            } catch (error) {
+                if (!(error instanceof ImageProcessingError)) {
+                    throw error
+                }
+
+                logger.warn('Cannot generate a cached image', { image: imagePath, size, error })
+                if (getMediaType(imagePath) === 'image') {
+                    this.copyFile(originalPath, exportPath)
+                }
+            }
+        }))
+    }
+
+    /**
+     * Writes an HTML page after rewriting its URLs relative to its own location.
+     */
+    private writePage(relativeFile: string, html: string): void {
+        const dom: JSDOM = new JSDOM(html)
+        const document: Document = dom.window.document
+        rewriteUrls(document.documentElement)
+
+        // A static website cannot search
+        document.getElementById('search-box')?.remove()
+
+        // The pages resolve their relative URLs from the root of the website
+        const depth: number = relativeFile.split(path.sep).length - 1
+        const $base: HTMLBaseElement | null = document.querySelector('base')
+        if ($base !== null || depth > 0) {
+            const baseHref: string = '../'.repeat(depth) || './'
+            if ($base !== null) {
+                $base.setAttribute('href', baseHref)
+            } else {
+                const $newBase: HTMLBaseElement = document.createElement('base')
+                $newBase.setAttribute('href', baseHref)
+                document.head.prepend($newBase)
+            }
+        }
+
+        this.writeFile(relativeFile, dom.serialize())
+    }
+
+    /**
+     * Writes a file, unless it already has the same content.
+     */
+    private writeFile(relativeFile: string, content: string): void {
+        this.exportedFiles.add(relativeFile)
+        const outputFile: string = path.join(this.outputDir, relativeFile)
+        if (fs.existsSync(outputFile)
+            && fs.readFileSync(outputFile).toString('utf-8') === content) {
+            this.summary.unchanged++
+            return
+        }
+
+        fs.mkdirSync(path.dirname(outputFile), { recursive: true })
+        fs.writeFileSync(outputFile, content)
+        this.summary.written++
+    }
+
+    /**
+     * Copies a file, unless the copy has the same size and modification time. The modification
+     * time of the source file is kept, so that unchanged files are skipped by the next export.
+     */
+    private copyFile(sourceFile: string, relativeFile: string): void {
+        this.exportedFiles.add(relativeFile)
+        const outputFile: string = path.join(this.outputDir, relativeFile)
+        const sourceStats: fs.Stats = fs.statSync(sourceFile)
+        const outputStats: fs.Stats | undefined
+            = fs.statSync(outputFile, { throwIfNoEntry: false })
+        // Modification times are only kept to the millisecond
+        if (outputStats?.size === sourceStats.size
+            && Math.abs(outputStats.mtimeMs - sourceStats.mtimeMs) < 1) {
+            this.summary.unchanged++
+            return
+        }
+
+        fs.mkdirSync(path.dirname(outputFile), { recursive: true })
+        fs.copyFileSync(sourceFile, outputFile)
+        fs.utimesSync(outputFile, sourceStats.atime, sourceStats.mtime)
+        this.summary.written++
+    }
+
+    /**
+     * Removes the files of the managed directories that are not part of the current export, e.g.,
+     * the pages and images of removed images, and the directories left empty.
+     */
+    private removeStaleFiles(relativeDir: string = '.'): void {
+        const dir: string = path.join(this.outputDir, relativeDir)
+        const fileNames: string[] = relativeDir === '.'
+            ? [
+                ...MANAGED_DIRS.filter(fileName => fs.existsSync(path.join(dir, fileName))),
+                ...fs.readdirSync(dir).filter(fileName => MANAGED_FILE_PATTERN.test(fileName)),
+            ]
+            : fs.readdirSync(dir)
+
+        for (const fileName of fileNames) {
+            const relativeFile: string = path.join(relativeDir, fileName)
+            const file: string = path.join(this.outputDir, relativeFile)
+            if (fs.statSync(file).isDirectory()) {
+                this.removeStaleFiles(relativeFile)
+                if (fs.readdirSync(file).length === 0) {
+                    fs.rmdirSync(file)
+                }
+            } else if (!this.exportedFiles.has(relativeFile)) {
+                fs.rmSync(file)
+                this.summary.removed++
+            }
+        }
+    }
+}
+
+/**
+ * Gets the extension appended to the exported cached images of an image. The cached images of RAW
+ * files and videos are JPEG images, and static hosts guess content types from extensions.
+ */
+function getCacheExtension(imagePath: string): string {
+    return getMediaType(imagePath) === 'image' ? '' : '.jpeg'
+}
+
+/**
+ * Rewrites a URL of the server to the URL of the matching static file, relative to the root of the
+ * website. URLs of other websites are kept.
+ */
+function toStaticUrl(url: string): string {
+    const siteUrl: string = getSiteUrl('')
+    if (url.startsWith(siteUrl)) {
+        // Absolute URLs of the website are used by the social cards
+        const staticUrl: string = toStaticUrl(url.substring(siteUrl.length))
+        return siteUrl + (staticUrl === './' ? '' : staticUrl)
+    }
+    if (/^[a-z][a-z\d+.-]*:/i.test(url) || url.startsWith('//') || url.startsWith('#')) {
+        return url
+    }
+
+    const parsedUrl: URL = new URL(url, 'http://localhost/')
+    const [root, ...segments] = parsedUrl.pathname.substring(1).split('/')
+    switch (root) {
+        case '':
+            return './'
+        case 'image': {
+            // Static hosts ignore the version, but it still busts the caches of the clients
+            const size: string | null = parsedUrl.searchParams.get(QUERY_STRING_KEYS.SIZE)
+            const version: string | null = parsedUrl.searchParams.get(QUERY_STRING_KEYS.VERSION)
+            const query: string = version === null ? '' : `?${QUERY_STRING_KEYS.VERSION}=${version}`
+            return size === null
+                ? `image/${segments.join('/')}${query}`
+                : `cache/${encodeURIComponent(size)}/${segments.join('/')}`
+                    + `${getCacheExtension(decodeURIComponent(segments.join('/')))}${query}`
+        }
+        case 'photo':
+            return `photo/${segments.join('/')}.html`
+        case 'section':
+            return `section/${toSegments(segments.join('/'))}.html`
+        case 'api': {
+            // Pages of images: api/sections/<name>?page=<page>
+            const page: string = parsedUrl.searchParams.get(QUERY_STRING_KEYS.PAGE) ?? '1'
+            return `api/sections/${toSegments(segments[1])}/${page}.json`
+        }
+        default:
+            return parsedUrl.pathname.substring(1) + parsedUrl.search
+    }
+}
+
+/**
+ * Rewrites the URLs of the pages and images listed by a sitemap.
+ */
+function rewriteSitemap(sitemap: string): string {
+    return sitemap.replace(/<((?:image:)?loc)>([^<]*)<\/\1>/g, (_, tagName, escapedUrl) => {
+        const url: string = toStaticUrl(unescapeXml(escapedUrl))
+        return `<${tagName}>${escapeXml(url)}</${tagName}>`
+    })
+}
+
+/**
+ * Section names may contain slashes (e.g., folder albums), which are turned into directories.
+ */
+function toSegments(encodedSectionName: string): string {
+    return decodeURIComponent(encodedSectionName).split('/').map(encodeURIComponent).join('/')
+}
+
+/**
+ * Converts a static URL into the relative path of its file.
+ */
+function toFilePath(staticUrl: string): string {
+    return staticUrl.split('/').map(decodeURIComponent).join(path.sep)
+}
+
+/**
+ * Rewrites the URLs in the attributes of an element and its descendants.
+ */
+function rewriteUrls($root: Element): void {
+    for (const $element of [$root, ...$root.querySelectorAll('*')]) {
+        for (const attribute of URL_ATTRIBUTES) {
+            const url: string | null = $element.getAttribute(attribute)
+            if (url !== null) {
+                $element.setAttribute(attribute, toStaticUrl(url))
+            }
+        }
+
+        for (const attribute of SRCSET_ATTRIBUTES) {
+            const srcset: string | null = $element.getAttribute(attribute)
+            if (srcset !== null) {
+                $element.setAttribute(attribute, srcset.split(',').map(candidate => {
+                    const [url, ...descriptors] = candidate.trim().split(/\s+/)
+                    return [toStaticUrl(url), ...descriptors].join(' ')
+                }).join(', '))
+            }
+        }
+
+        // Social cards
+        if ($element.tagName === 'META' && /^(og|twitter):(url|image)$/.test(
+            $element.getAttribute('property') ?? $element.getAttribute('name') ?? '')) {
+            $element.setAttribute('content', toStaticUrl($element.getAttribute('content') ?? ''))
+        }
+    }
+}
+
+/**
+ * Rewrites the URLs of an HTML fragment, e.g., the image elements of a page of images.
+ */
+function rewriteHtmlFragment(html: string): string {
+    const $container: HTMLElement = new JSDOM().window.document.createElement('div')
+    $container.innerHTML = html
+    rewriteUrls($container)
+    return $container.innerHTML
+}
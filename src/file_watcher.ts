@@ -0,0 +1,335 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { logger } from './logger.js'
+
+/**
+ * Options of a file watcher.
+ */
+export interface FileWatcherOptions {
+    // Whether the subdirectories are watched too (default: true)
+    recursive?: boolean
+
+    // Only the files whose relative paths pass this filter are indexed (default: all the files)
+    filter?: (relativePath: string) => boolean
+}
+
+/**
+ * Keeps an in-memory index of the files of a directory, updated by watching the directory.
+ *
+ * Changes are reported by `fs.watch`, debounced, and applied to the index by only rescanning the
+ * changed paths. If the directory cannot be watched (e.g., the platform does not support recursive
+ * watching, or the watch limit is reached), the directory is rescanned periodically instead.
+ *
+ * The index is built synchronously on first access, and the watcher starts at the same time.
+ * Watching does not keep the process alive.
+ */
+export class FileWatcher {
+    // Delay (in milliseconds) after the last reported change before the index is updated
+    private static readonly DEBOUNCE_DELAY = 100
+
+    // Interval (in milliseconds) between two rescans when the directory cannot be watched
+    private static readonly POLL_INTERVAL = 5000
+
+    /**
+     * The modification times of the indexed files, keyed by relative path. Undefined until the
+     * watcher starts.
+     * @private
+     */
+    private files ?: Map<string, number>
+
+    /**
+     * The indexed file paths in directory order, computed on demand.
+     * @private
+     */
+    private sortedFilePaths ?: string[]
+
+    /**
+     * Incremented whenever the indexed files change.
+     * @private
+     */
+    private changeCount: number = 0
+
+    /**
+     * The relative paths reported as changed since the last update. Undefined if the whole
+     * directory needs to be rescanned.
+     * @private
+     */
+    private changedPaths ?: Set<string> = new Set()
+
+    private watcher ?: fs.FSWatcher
+
+    private pollTimer ?: NodeJS.Timeout
+
+    private debounceTimer ?: NodeJS.Timeout
+
+    /**
+     * The pending update of the index, if any. Updates never run concurrently.
+     * @private
+     */
+    private update ?: Promise<void>
+
+    private readonly listeners: (() => void)[] = []
+
+    /**
+     * @param {string} rootDir - The directory to watch.
+     * @param {FileWatcherOptions} [options] - The options.
+     */
+    public constructor(
+        private readonly rootDir: string,
+        private readonly options: FileWatcherOptions = {},
+    ) {
+    }
+
+    /**
+     * A number incremented whenever the indexed files change (added, removed or modified).
+     */
+    public get version(): number {
+        this.start()
+        return this.changeCount
+    }
+
+    /**
+     * Lists the indexed files, in the order of a depth-first walk of the directory with the
+     * entries of each directory sorted by name.
+     * @returns {string[]} The relative file paths.
+     */
+    public getFilePaths(): string[] {
+        this.start()
+        this.sortedFilePaths ??= [...(this.files as Map<string, number>).keys()].sort(comparePaths)
+        return this.sortedFilePaths
+    }
+
+    /**
+     * Gets the modification time of an indexed file.
+     * @param {string} relativePath - The path to the file, relative to the watched directory.
+     * @returns {number | undefined} The modification time in milliseconds since epoch, or
+     * undefined if the file is not indexed.
+     */
+    public getModificationTime(relativePath: string): number | undefined {
+        this.start()
+        return (this.files as Map<string, number>).get(path.normalize(relativePath))
+    }
+
+    /**
+     * Updates the index for the given paths right away, without waiting for the watcher to report
+     * them, e.g., for files that were just written.
+     * @param {string[]} relativePaths - The paths to the changed files or directories.
+     * @returns {Promise<void>} A promise that resolves when the index is updated.
+     */
+    public async rescan(relativePaths: string[]): Promise<void> {
+        this.start()
+        relativePaths.forEach(relativePath => this.changedPaths?.add(path.normalize(relativePath)))
+        await this.updateIndex()
+    }
+
+    /**
+     * Registers a listener called after the index is updated. The listener is not called for the
+     * initial scan.
+     * @param {() => void} listener - The listener.
+     * @returns {() => void} A function that unregisters the listener.
+     */
+    public onChange(listener: () => void): () => void {
+        this.listeners.push(listener)
+        return () => {
+            const index: number = this.listeners.indexOf(listener)
+            if (index !== -1) {
+                this.listeners.splice(index, 1)
+            }
+        }
+    }
+
+    /**
+     * Builds the index and starts watching the directory, unless already started.
+     */
+    public start(): void {
+        if (this.files !== undefined) {
+            return
+        }
+
+        this.files = this.scanSync('.')
+        try {
+            this.watcher = fs.watch(
+                this.rootDir,
+                { recursive: this.options.recursive ?? true, persistent: false },
+                (_, fileName) => this.reportChange(fileName))
+            this.watcher.on('error', error => this.startPolling(error))
+        } catch (error) {
+            this.startPolling(error)
+        }
+    }
+
+    /**
+     * Stops watching the directory. The index is kept but is no longer updated.
+     */
+    public stop(): void {
+        this.watcher?.close()
+        this.watcher = undefined
+        clearInterval(this.pollTimer)
+        clearTimeout(this.debounceTimer)
+    }
+
+    private startPolling(error: unknown): void {
+        logger.warn('Cannot watch the directory, rescanning it every '
+            + `${FileWatcher.POLL_INTERVAL / 1000}s instead`, { dir: this.rootDir, error })
+
+        this.watcher?.close()
+        this.watcher = undefined
+        this.pollTimer = setInterval(() => {
+            this.changedPaths = undefined
+            void this.updateIndex()
+        }, FileWatcher.POLL_INTERVAL)
+        this.pollTimer.unref()
+    }
+
+    /**
+     * Records a change reported by the watcher, and schedules the update of the index.
+     */
+    private reportChange(fileName: string | Buffer | null): void {
+        if (fileName === null) {
+            // The platform did not tell which file changed
+            this.changedPaths = undefined
+        } else {
+            this.changedPaths?.add(path.normalize(fileName.toString()))
+        }
+
+        clearTimeout(this.debounceTimer)
+        this.debounceTimer = setTimeout(() => void this.updateIndex(), FileWatcher.DEBOUNCE_DELAY)
+        this.debounceTimer.unref()
+    }
+
+    private async updateIndex(): Promise<void> {
+        // Wait for the running update, so the changes reported meanwhile are applied afterward
+        while (this.update !== undefined) {
+            await this.update
+        }
+
+        const changedPaths: Set<string> | undefined = this.changedPaths
+        this.changedPaths = new Set()
+        this.update = (changedPaths === undefined
+            ? this.scan('.').then(files => this.replaceFiles(files))
+            : this.rescanPaths(changedPaths)
+        ).catch(error => logger.error('Error while updating the index',
+            { dir: this.rootDir, error },
+        )).finally(() => this.update = undefined)
+        await this.update
+    }
+
+    /**
+     * Replaces the index after a full rescan, notifying the listeners if anything changed.
+     */
+    private replaceFiles(files: Map<string, number>): void {
+        const previousFiles = this.files as Map<string, number>
+        const changed: boolean = files.size !== previousFiles.size
+            || [...files].some(([filePath, mtimeMs]) => previousFiles.get(filePath) !== mtimeMs)
+        this.files = files
+        if (changed) {
+            this.notifyChange()
+        }
+    }
+
+    /**
+     * Updates the index for the changed paths only: a changed path may be a file or a directory
+     * that was added, removed or modified.
+     */
+    private async rescanPaths(changedPaths: Set<string>): Promise<void> {
+        const files = this.files as Map<string, number>
+        let changed: boolean = false
+        for (const changedPath of changedPaths) {
+            // Forget the path and everything it contained, then scan it again
+            for (const filePath of [...files.keys()]) {
+                if (filePath === changedPath || filePath.startsWith(changedPath + path.sep)) {
+                    files.delete(filePath)
+                    changed = true
+                }
+            }
+
+            const stats: fs.Stats | undefined = await fs.promises
+                .stat(path.join(this.rootDir, changedPath)).catch(() => undefined)
+            if (stats?.isDirectory() && (this.options.recursive ?? true)) {
+                for (const [filePath, mtimeMs] of await this.scan(changedPath)) {
+                    files.set(filePath, mtimeMs)
+                    changed = true
+                }
+            } else if (stats?.isFile() && this.isIncluded(changedPath)) {
+                files.set(changedPath, stats.mtimeMs)
+                changed = true
+            }
+        }
+
+        if (changed) {
+            this.notifyChange()
+        }
+    }
+
+    private notifyChange(): void {
+        this.sortedFilePaths = undefined
+        this.changeCount++
+        this.listeners.forEach(listener => listener())
+    }
+
+    private isIncluded(relativePath: string): boolean {
+        return this.options.filter?.(relativePath) ?? true
+    }
+
+    /**
+     * Scans a directory without blocking the event loop.
+     */
+    private async scan(relativeDir: string): Promise<Map<string, number>> {
+        const files: Map<string, number> = new Map()
+        const fileNames: string[] = await fs.promises.readdir(path.join(this.rootDir, relativeDir))
+        for (const fileName of fileNames) {
+            const relativePath: string = path.join(relativeDir, fileName)
+            const stats: fs.Stats | undefined = await fs.promises
+                .stat(path.join(this.rootDir, relativePath)).catch(() => undefined)
+            if (stats?.isDirectory() && (this.options.recursive ?? true)) {
+                (await this.scan(relativePath)).forEach((mtimeMs, filePath) =>
+                    files.set(filePath, mtimeMs))
+            } else if (stats?.isFile() && this.isIncluded(relativePath)) {
+                files.set(relativePath, stats.mtimeMs)
+            }
+        }
+
+        return files
+    }
+
+    /**
+     * Scans a directory synchronously, for the initial index.
+     */
+    private scanSync(relativeDir: string): Map<string, number> {
+        const files: Map<string, number> = new Map()
+        try {
+            for (const fileName of fs.readdirSync(path.join(this.rootDir, relativeDir))) {
+                const relativePath: string = path.join(relativeDir, fileName)
+                const stats: fs.Stats | undefined = fs.statSync(
+                    path.join(this.rootDir, relativePath), { throwIfNoEntry: false })
+                if (stats?.isDirectory() && (this.options.recursive ?? true)) {
+                    this.scanSync(relativePath).forEach((mtimeMs, filePath) =>
+                        files.set(filePath, mtimeMs))
+                } else if (stats?.isFile() && this.isIncluded(relativePath)) {
+                    files.set(relativePath, stats.mtimeMs)
+                }
+            }
+        } catch (error) {
+            logger.error('Error while collecting file paths',
+                { dir: path.join(this.rootDir, relativeDir), error })
+        }
+
+        return files
+    }
+}
+
+/**
+ * Orders relative paths like a depth-first walk of the directory with the entries of each directory
+ * sorted by name.
+ */
+function comparePaths(pathA: string, pathB: string): number {
+    const segmentsA: string[] = pathA.split(path.sep)
+    const segmentsB: string[] = pathB.split(path.sep)
+    for (let i = 0; i < Math.min(segmentsA.length, segmentsB.length); i++) {
+        if (segmentsA[i] !== segmentsB[i]) {
+            return segmentsA[i] < segmentsB[i] ? -1 : 1
+        }
+    }
+
+    return segmentsA.length - segmentsB.length
+}
@@ -0,0 +1,1059 @@
+import * as fs from 'node:fs'
+
+/**
+ * Container formats that the metadata parser understands.
+ */
+export type ImageFormat = 'jpeg' | 'png' | 'webp'
+
+/**
+ * Metadata extracted from the header and the EXIF block of an image file, or from the header of a
+ * RAW file or a video.
+ */
+export interface ImageMetadata {
+    // The container format of the image, or "raw" and "video" for the RAW files and the videos
+    format: ImageFormat | 'raw' | 'video'
+
+    // Display width and height, i.e., already corrected according to the EXIF orientation
+    width: number
+    height: number
+
+    // EXIF orientation (1-8); 1 means the image is stored upright
+    orientation: number
+
+    // Capture date in ISO 8601 format (without timezone, as EXIF does not store it)
+    dateTaken?: string
+
+    // Camera make and model, e.g., "SONY ILCE-7M3"
+    camera?: string
+
+    // Lens model
+    lens?: string
+
+    // Exposure time in seconds
+    exposureTime?: number
+
+    // Aperture (f-number)
+    fNumber?: number
+
+    // ISO speed
+    iso?: number
+
+    // Focal length in millimeters
+    focalLength?: number
+
+    // Duration of a video in seconds
+    duration?: number
+}
+
+/**
+ * EXIF fields that are read from the TIFF structure.
+ */
+type ExifData = Omit<ImageMetadata, 'format' | 'width' | 'height' | 'orientation'> & {
+    orientation?: number
+}
+
+// EXIF tags
+const TAG_MAKE = 0x010F
+const TAG_MODEL = 0x0110
+const TAG_ORIENTATION = 0x0112
+const TAG_DATE_TIME = 0x0132
+const TAG_EXIF_IFD_POINTER = 0x8769
+const TAG_GPS_IFD_POINTER = 0x8825
+const TAG_EXPOSURE_TIME = 0x829A
+const TAG_F_NUMBER = 0x829D
+const TAG_ISO = 0x8827
+const TAG_DATE_TIME_ORIGINAL = 0x9003
+const TAG_FOCAL_LENGTH = 0x920A
+const TAG_LENS_MODEL = 0xA434
+
+// TIFF tags locating the JPEG previews embedded in RAW files
+const TAG_NEW_SUBFILE_TYPE = 0x00FE
+const TAG_COMPRESSION = 0x0103
+const TAG_STRIP_OFFSETS = 0x0111
+const TAG_STRIP_BYTE_COUNTS = 0x0117
+const TAG_SUB_IFDS = 0x014A
+const TAG_JPEG_OFFSET = 0x0201
+const TAG_JPEG_LENGTH = 0x0202
+
+// Number of bytes read from the start of a RAW file to find its IFDs, and maximum number of IFDs
+// visited
+const RAW_HEADER_LENGTH = 1024 * 1024
+const RAW_MAX_IFDS = 32
+
+// Largest JPEG preview extracted from a RAW file, in bytes
+const RAW_PREVIEW_MAX_LENGTH = 64 * 1024 * 1024
+
+// Types of the boxes starting an ISO base media file (MP4, MOV)
+const ISO_BMFF_FIRST_BOXES = ['ftyp', 'moov', 'mdat', 'wide', 'free', 'skip']
+
+// Seconds between the epoch of the ISO base media files (1904) and the Unix epoch
+const ISO_BMFF_EPOCH_OFFSET = 2082844800
+
+// Namespace starting the XMP segments of a JPEG file, including the extended XMP segments
+const XMP_NAMESPACE = 'http://ns.adobe.com/x'
+
+// Keyword of the iTXt chunk holding the XMP packet of a PNG file
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp\0'
+
+// TIFF field types and their sizes in bytes
+const TYPE_SIZES: { [type: number]: number } = {
+    1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8,
+}
+
+/**
+ * Reads up to `length` bytes of an image at a given position.
+ */
+type ByteReader = (position: number, length: number) => Buffer
+
+/**
+ * JPEG preview embedded in a RAW file, with its stored dimensions and its own orientation.
+ */
+interface RawPreview {
+    offset: number
+    length: number
+    width: number
+    height: number
+    orientation: number
+}
+
+/**
+ * Box of an ISO base media file, with the offsets of its payload.
+ */
+interface IsoBmffBox {
+    type: string
+    start: number
+    end: number
+}
+
+/**
+ * Reads the metadata of an image file. Only the headers are read, so this is cheap even for large
+ * files.
+ *
+ * @param {string} filePath - The absolute path of the image file.
+ * @returns {ImageMetadata | undefined} The metadata, or undefined if the format is not supported or
+ * the file is malformed.
+ */
+export function readImageMetadata(filePath: string): ImageMetadata | undefined {
+    return readFile(filePath, readMetadata)
+}
+
+/**
+ * Parses the metadata of an image held in memory, e.g., an uploaded file.
+ *
+ * @param {Buffer} data - The content of the image file.
+ * @returns {ImageMetadata | undefined} The metadata, or undefined if the format is not supported or
+ * the image is malformed.
+ */
+export function parseImageMetadata(data: Buffer): ImageMetadata | undefined {
+    return readMetadata((position, length) => data.subarray(position, position + length))
+}
+
+/**
+ * Detects the container format of an image file from its signature.
+ *
+ * @param {string} filePath - The absolute path of the image file.
+ * @returns {ImageFormat | undefined} The format, or undefined if the format is not supported or
+ * the file cannot be read.
+ */
+export function detectImageFormat(filePath: string): ImageFormat | undefined {
+    return readFile(filePath, read => detectFormat(read(0, 12)))
+}
+
+/**
+ * Detects the container format of an image held in memory from its signature.
+ *
+ * @param {Buffer} data - The content of the image file.
+ * @returns {ImageFormat | undefined} The format, or undefined if the format is not supported.
+ */
+export function detectImageDataFormat(data: Buffer): ImageFormat | undefined {
+    return detectFormat(data.subarray(0, 12))
+}
+
+/**
+ * Reads the metadata of a RAW file: its EXIF fields, and the dimensions of its largest embedded
+ * JPEG preview, which stands for the RAW file in the gallery. Only the RAW files based on TIFF
+ * (e.g., ARW, CR2, DNG or NEF) are supported.
+ *
+ * @param {string} filePath - The absolute path of the RAW file.
+ * @returns {ImageMetadata | undefined} The metadata, or undefined if the file has no preview or is
+ * malformed.
+ */
+export function readRawMetadata(filePath: string): ImageMetadata | undefined {
+    return readFile(filePath, read => {
+        const preview: RawPreview | undefined = findRawPreview(read)
+        if (preview === undefined) {
+            return undefined
+        }
+
+        const exif: ExifData = parseExif(read(0, RAW_HEADER_LENGTH))
+        return buildMetadata('raw', preview.width, preview.height,
+            { ...exif, orientation: exif.orientation ?? preview.orientation })
+    })
+}
+
+/**
+ * Extracts the largest JPEG preview embedded in a RAW file. Previews are usually stored unrotated,
+ * so the orientation of the RAW file is added to a preview that has none.
+ *
+ * @param {string} filePath - The absolute path of the RAW file.
+ * @returns {Buffer | undefined} The JPEG preview, or undefined if the file has no preview or is
+ * malformed.
+ * @see readRawMetadata
+ */
+export function extractRawPreview(filePath: string): Buffer | undefined {
+    return readFile(filePath, read => {
+        const preview: RawPreview | undefined = findRawPreview(read)
+        if (preview === undefined) {
+            return undefined
+        }
+
+        const data: Buffer = read(preview.offset, preview.length)
+        const orientation: number = parseExif(read(0, RAW_HEADER_LENGTH)).orientation ?? 1
+        return orientation === 1 || preview.orientation !== 1
+            ? data
+            : addJpegOrientation(data, orientation)
+    })
+}
+
+/**
+ * Reads the metadata of a video in an ISO base media file (e.g., MP4 or MOV): the display
+ * dimensions of its video track, its duration and its creation date. Only the headers are read.
+ * Other containers (e.g., MPEG-TS) are not supported.
+ *
+ * @param {string} filePath - The absolute path of the video.
+ * @returns {ImageMetadata | undefined} The metadata, or undefined if the container is not
+ * supported or the video has no video track.
+ */
+export function readVideoMetadata(filePath: string): ImageMetadata | undefined {
+    return readFile(filePath, read => {
+        const boxes: IsoBmffBox[] = readBoxes(read, 0, Infinity)
+        const moov: IsoBmffBox | undefined = boxes.find(box => box.type === 'moov')
+        if (!ISO_BMFF_FIRST_BOXES.includes(boxes[0]?.type) || moov === undefined) {
+            return undefined
+        }
+
+        const moovBoxes: IsoBmffBox[] = readBoxes(read, moov.start, moov.end)
+        const dimensions: [number, number] | undefined = moovBoxes
+            .filter(box => box.type === 'trak')
+            .map(trak => readBoxes(read, trak.start, trak.end).find(box => box.type === 'tkhd'))
+            .map(tkhd => tkhd && readTrackDimensions(read(tkhd.start, tkhd.end - tkhd.start)))
+            .find(trackDimensions => trackDimensions !== undefined)
+        if (dimensions === undefined) {
+            return undefined
+        }
+
+        const mvhd: IsoBmffBox | undefined = moovBoxes.find(box => box.type === 'mvhd')
+        return buildMetadata('video', dimensions[0], dimensions[1],
+            mvhd === undefined ? {} : readMovieHeader(read(mvhd.start, mvhd.end - mvhd.start)))
+    })
+}
+
+/**
+ * Opens a file for the duration of a read. Errors, e.g., of malformed files, are not thrown.
+ */
+function readFile<T>(filePath: string, readContent: (read: ByteReader) => T): T | undefined {
+    let fd: number
+    try {
+        fd = fs.openSync(filePath, 'r')
+    } catch (error) {
+        return undefined
+    }
+
+    try {
+        return readContent((position, length) => readBytes(fd, position, length))
+    } catch (error) {
+        return undefined
+    } finally {
+        fs.closeSync(fd)
+    }
+}
+
+function readMetadata(read: ByteReader): ImageMetadata | undefined {
+    try {
+        switch (detectFormat(read(0, 12))) {
+            case 'jpeg':
+                return readJpegMetadata(read)
+            case 'png':
+                return readPngMetadata(read)
+            case 'webp':
+                return readWebpMetadata(read)
+            default:
+                return undefined
+        }
+    } catch (error) {
+        return undefined
+    }
+}
+
+/**
+ * Detects the container format from the first 12 bytes of a file.
+ */
+function detectFormat(signature: Buffer): ImageFormat | undefined {
+    if (signature.length >= 3 && signature[0] === 0xFF && signature[1] === 0xD8) {
+        return 'jpeg'
+    }
+    if (signature.length >= 8 && signature.readUInt32BE(0) === 0x89504E47) {
+        return 'png'
+    }
+    if (signature.length >= 12 && signature.toString('ascii', 0, 4) === 'RIFF'
+        && signature.toString('ascii', 8, 12) === 'WEBP') {
+        return 'webp'
+    }
+
+    return undefined
+}
+
+/**
+ * Reads up to `length` bytes from a file descriptor at a given position.
+ */
+function readBytes(fd: number, position: number, length: number): Buffer {
+    const buffer: Buffer = Buffer.alloc(length)
+    const bytesRead: number = fs.readSync(fd, buffer, 0, length, position)
+    return buffer.subarray(0, bytesRead)
+}
+
+/**
+ * Walks the JPEG marker segments until the start of frame, collecting the EXIF block on the way.
+ * Only the baseline and progressive frames are accepted if `decodableOnly` is set, as RAW files
+ * also embed lossless JPEG streams, which the image processors cannot decode.
+ */
+function readJpegMetadata(
+    read: ByteReader,
+    decodableOnly: boolean = false,
+): ImageMetadata | undefined {
+    let exif: ExifData = {}
+    let offset: number = 2
+
+    for (;;) {
+        const header: Buffer = read(offset, 4)
+        if (header.length < 4 || header[0] !== 0xFF) {
+            return undefined
+        }
+
+        const marker: number = header[1]
+        if (marker === 0xFF) {
+            // Fill byte
+            offset += 1
+            continue
+        }
+
+        const segmentLength: number = header.readUInt16BE(2)
+        if (marker === 0xE1) {
+            const segment: Buffer = read(offset + 4, segmentLength - 2)
+            if (segment.toString('ascii', 0, 6) === 'Exif\0\0') {
+                exif = parseExif(segment.subarray(6))
+            }
+        } else if (isStartOfFrame(marker)) {
+            if (decodableOnly && marker > 0xC2) {
+                return undefined
+            }
+
+            const frame: Buffer = read(offset + 4, 5)
+            return buildMetadata('jpeg', frame.readUInt16BE(3), frame.readUInt16BE(1), exif)
+        } else if (marker === 0xDA || marker === 0xD9) {
+            // Start of scan or end of image without a frame header
+            return undefined
+        }
+
+        offset += 2 + segmentLength
+    }
+}
+
+/**
+ * SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC), which share the same marker range.
+ */
+function isStartOfFrame(marker: number): boolean {
+    return marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC
+}
+
+/**
+ * Reads the IHDR chunk of a PNG file and the optional eXIf chunk preceding the image data.
+ */
+function readPngMetadata(read: ByteReader): ImageMetadata | undefined {
+    const ihdr: Buffer = read(8, 25)
+    if (ihdr.toString('ascii', 4, 8) !== 'IHDR') {
+        return undefined
+    }
+
+    let exif: ExifData = {}
+    let offset: number = 8
+    for (;;) {
+        const chunkHeader: Buffer = read(offset, 8)
+        if (chunkHeader.length < 8) {
+            break
+        }
+
+        const chunkLength: number = chunkHeader.readUInt32BE(0)
+        const chunkType: string = chunkHeader.toString('ascii', 4, 8)
+        if (chunkType === 'eXIf') {
+            exif = parseExif(read(offset + 8, chunkLength))
+            break
+        } else if (chunkType === 'IDAT' || chunkType === 'IEND') {
+            break
+        }
+
+        // Chunk length, type, data and CRC
+        offset += 12 + chunkLength
+    }
+
+    return buildMetadata('png', ihdr.readUInt32BE(8), ihdr.readUInt32BE(12), exif)
+}
+
+/**
+ * Reads the dimensions from the VP8, VP8L or VP8X chunk of a WebP file, and the EXIF chunk of an
+ * extended (VP8X) file.
+ */
+function readWebpMetadata(read: ByteReader): ImageMetadata | undefined {
+    const chunk: Buffer = read(12, 18)
+    const chunkType: string = chunk.toString('ascii', 0, 4)
+
+    if (chunkType === 'VP8 ') {
+        // Frame tag (3 bytes) and start code (3 bytes) precede the dimensions
+        const width: number = chunk.readUInt16LE(14) & 0x3FFF
+        const height: number = chunk.readUInt16LE(16) & 0x3FFF
+        return buildMetadata('webp', width, height, {})
+    }
+
+    if (chunkType === 'VP8L') {
+        // Signature (1 byte), then 14 bits of width - 1 and 14 bits of height - 1
+        const bits: number = chunk.readUInt32LE(9)
+        return buildMetadata('webp', (bits & 0x3FFF) + 1, ((bits >> 14) & 0x3FFF) + 1, {})
+    }
+
+    if (chunkType === 'VP8X') {
+        const width: number = chunk.readUIntLE(12, 3) + 1
+        const height: number = chunk.readUIntLE(15, 3) + 1
+
+        let exif: ExifData = {}
+        let offset: number = 12
+        for (;;) {
+            const chunkHeader: Buffer = read(offset, 8)
+            if (chunkHeader.length < 8) {
+                break
+            }
+
+            const chunkLength: number = chunkHeader.readUInt32LE(4)
+            if (chunkHeader.toString('ascii', 0, 4) === 'EXIF') {
+                const exifChunk: Buffer = read(offset + 8, chunkLength)
+                // Some encoders keep the JPEG style "Exif\0\0" prefix
+                exif = parseExif(exifChunk.toString('ascii', 0, 6) === 'Exif\0\0'
+                    ? exifChunk.subarray(6) : exifChunk)
+                break
+            }
+
+            // Chunks are padded to an even size
+            offset += 8 + chunkLength + (chunkLength % 2)
+        }
+
+        // The VP8X canvas size is already the display size
+        return buildMetadata('webp', width, height, { ...exif, orientation: 1 })
+    }
+
+    return undefined
+}
+
+/**
+ * Combines the stored dimensions and the EXIF data into an ImageMetadata. Orientations 5-8 rotate
+ * the image by 90 degrees, so the width and the height are swapped.
+ */
+function buildMetadata(
+    format: ImageMetadata['format'],
+    storedWidth: number,
+    storedHeight: number,
+    exif: ExifData,
+): ImageMetadata {
+    const orientation: number = exif.orientation ?? 1
+    const rotated: boolean = orientation >= 5 && orientation <= 8
+
+    return {
+        ...exif,
+        format,
+        width: rotated ? storedHeight : storedWidth,
+        height: rotated ? storedWidth : storedHeight,
+        orientation,
+    }
+}
+
+/**
+ * Finds the largest decodable JPEG preview of a RAW file, among the JPEG streams referenced by its
+ * IFDs, the IFDs following them, and their sub-IFDs.
+ */
+function findRawPreview(read: ByteReader): RawPreview | undefined {
+    const header: Buffer = read(0, RAW_HEADER_LENGTH)
+    const byteOrder: string = header.toString('ascii', 0, 2)
+    if (header.length < 8 || (byteOrder !== 'II' && byteOrder !== 'MM')) {
+        return undefined
+    }
+
+    const reader = new TiffReader(header, byteOrder === 'II')
+    const candidates: [number, number][] = []
+    const ifdOffsets: number[] = [reader.uint32(4)]
+    const visitedOffsets: Set<number> = new Set()
+    while (ifdOffsets.length > 0 && visitedOffsets.size < RAW_MAX_IFDS) {
+        const offset: number = ifdOffsets.shift() as number
+        if (offset === 0 || offset + 2 > header.length || visitedOffsets.has(offset)) {
+            continue
+        }
+        visitedOffsets.add(offset)
+
+        const ifd: Map<number, TiffValue> = reader.readIfd(offset)
+        const jpegOffset: TiffValue | undefined = ifd.get(TAG_JPEG_OFFSET)
+        const jpegLength: TiffValue | undefined = ifd.get(TAG_JPEG_LENGTH)
+        if (typeof jpegOffset === 'number' && typeof jpegLength === 'number') {
+            candidates.push([jpegOffset, jpegLength])
+        }
+
+        // Previews stored as a single JPEG strip, e.g., the reduced-resolution images of DNG files
+        const stripOffset: TiffValue | undefined = ifd.get(TAG_STRIP_OFFSETS)
+        const stripLength: TiffValue | undefined = ifd.get(TAG_STRIP_BYTE_COUNTS)
+        const compression: TiffValue | undefined = ifd.get(TAG_COMPRESSION)
+        if ((compression === 6 || compression === 7 || ifd.get(TAG_NEW_SUBFILE_TYPE) === 1)
+            && typeof stripOffset === 'number' && typeof stripLength === 'number') {
+            candidates.push([stripOffset, stripLength])
+        }
+
+        ifdOffsets.push(...reader.readOffsets(offset, TAG_SUB_IFDS), reader.nextIfdOffset(offset))
+    }
+
+    candidates.sort(([, lengthA], [, lengthB]) => lengthB - lengthA)
+    for (const [offset, length] of candidates) {
+        if (length > RAW_PREVIEW_MAX_LENGTH || detectFormat(read(offset, 12)) !== 'jpeg') {
+            continue
+        }
+
+        const metadata: ImageMetadata | undefined = readJpegMetadata((position, size) =>
+            read(offset + position, Math.max(0, Math.min(size, length - position))), true)
+        if (metadata !== undefined) {
+            const rotated: boolean = metadata.orientation >= 5 && metadata.orientation <= 8
+            return {
+                offset,
+                length,
+                width: rotated ? metadata.height : metadata.width,
+                height: rotated ? metadata.width : metadata.height,
+                orientation: metadata.orientation,
+            }
+        }
+    }
+
+    return undefined
+}
+
+/**
+ * Inserts an EXIF block holding only an orientation at the start of a JPEG image.
+ */
+function addJpegOrientation(data: Buffer, orientation: number): Buffer {
+    // Big-endian TIFF structure with a single IFD of a single entry
+    const tiff: Buffer = Buffer.alloc(26)
+    tiff.write('MM\0*', 0, 'latin1')
+    tiff.writeUInt32BE(8, 4)
+    tiff.writeUInt16BE(1, 8)
+    tiff.writeUInt16BE(TAG_ORIENTATION, 10)
+    tiff.writeUInt16BE(3, 12)
+    tiff.writeUInt32BE(1, 14)
+    tiff.writeUInt16BE(orientation, 18)
+
+    const segmentHeader: Buffer = Buffer.alloc(10)
+    segmentHeader.writeUInt16BE(0xFFE1, 0)
+    segmentHeader.writeUInt16BE(2 + 6 + tiff.length, 2)
+    segmentHeader.write('Exif\0\0', 4, 'latin1')
+
+    return Buffer.concat([data.subarray(0, 2), segmentHeader, tiff, data.subarray(2)])
+}
+
+/**
+ * Lists the boxes of an ISO base media file between two offsets, e.g., the top-level boxes, or
+ * the boxes nested in another box.
+ */
+function readBoxes(read: ByteReader, start: number, end: number): IsoBmffBox[] {
+    const boxes: IsoBmffBox[] = []
+    let offset: number = start
+    while (offset + 8 <= end) {
+        const header: Buffer = read(offset, 16)
+        if (header.length < 8) {
+            break
+        }
+
+        // A size of 1 is followed by a 64-bit size, and a size of 0 extends the box to the end
+        let size: number = header.readUInt32BE(0)
+        let headerSize: number = 8
+        if (size === 1 && header.length === 16) {
+            size = header.readUInt32BE(8) * 2 ** 32 + header.readUInt32BE(12)
+            headerSize = 16
+        } else if (size === 0) {
+            size = end - offset
+        }
+        if (size < headerSize) {
+            break
+        }
+
+        boxes.push({
+            type: header.toString('latin1', 4, 8),
+            start: offset + headerSize,
+            end: offset + size,
+        })
+        offset += size
+    }
+
+    return boxes
+}
+
+/**
+ * Reads the display dimensions of a track from its header box (tkhd), or undefined if the track
+ * is not a video track. Tracks rotated by 90 degrees have their width and height swapped.
+ */
+function readTrackDimensions(tkhd: Buffer): [number, number] | undefined {
+    // The matrix and the 16.16 fixed-point dimensions follow 64-bit times in version 1
+    const matrixOffset: number = tkhd[0] === 1 ? 52 : 40
+    if (tkhd.length < matrixOffset + 44) {
+        return undefined
+    }
+
+    const width: number = Math.round(tkhd.readUInt32BE(matrixOffset + 36) / 0x10000)
+    const height: number = Math.round(tkhd.readUInt32BE(matrixOffset + 40) / 0x10000)
+    if (width === 0 || height === 0) {
+        return undefined
+    }
+
+    const rotated: boolean = tkhd.readInt32BE(matrixOffset) === 0
+        && tkhd.readInt32BE(matrixOffset + 16) === 0
+    return rotated ? [height, width] : [width, height]
+}
+
+/**
+ * Reads the creation date and the duration of a video from its movie header box (mvhd). The date
+ * is in UTC, unlike the EXIF dates.
+ */
+function readMovieHeader(mvhd: Buffer): ExifData {
+    const version: number = mvhd[0]
+    const readTime = (offset: number): number => version === 1
+        ? mvhd.readUInt32BE(offset) * 2 ** 32 + mvhd.readUInt32BE(offset + 4)
+        : mvhd.readUInt32BE(offset)
+    const creationTime: number = readTime(4)
+    const timescale: number = mvhd.readUInt32BE(version === 1 ? 20 : 12)
+    const duration: number = readTime(version === 1 ? 24 : 16)
+
+    const header: ExifData = {}
+    if (creationTime > ISO_BMFF_EPOCH_OFFSET) {
+        header.dateTaken = new Date((creationTime - ISO_BMFF_EPOCH_OFFSET) * 1000)
+            .toISOString()
+            .substring(0, 19)
+    }
+    if (timescale > 0) {
+        header.duration = duration / timescale
+    }
+
+    return header
+}
+
+/**
+ * Parses a TIFF structure (the payload of an EXIF block) and extracts the fields of interest.
+ *
+ * @param {Buffer} tiff - The TIFF structure, starting with the byte order mark.
+ * @returns {ExifData} The extracted fields. Malformed structures yield an empty object.
+ */
+export function parseExif(tiff: Buffer): ExifData {
+    try {
+        const byteOrder: string = tiff.toString('ascii', 0, 2)
+        if (byteOrder !== 'II' && byteOrder !== 'MM') {
+            return {}
+        }
+
+        const reader = new TiffReader(tiff, byteOrder === 'II')
+        const ifd0: Map<number, TiffValue> = reader.readIfd(reader.uint32(4))
+        const exifIfdOffset: TiffValue | undefined = ifd0.get(TAG_EXIF_IFD_POINTER)
+        const exifIfd: Map<number, TiffValue> = typeof exifIfdOffset === 'number'
+            ? reader.readIfd(exifIfdOffset)
+            : new Map()
+
+        const make: string | undefined = asString(ifd0.get(TAG_MAKE))
+        const model: string | undefined = asString(ifd0.get(TAG_MODEL))
+        const date: string | undefined
+            = asString(exifIfd.get(TAG_DATE_TIME_ORIGINAL)) ?? asString(ifd0.get(TAG_DATE_TIME))
+
+        const exif: ExifData = {
+            orientation: asNumber(ifd0.get(TAG_ORIENTATION)),
+            dateTaken: date === undefined ? undefined : parseExifDate(date),
+            camera: joinCameraName(make, model),
+            lens: asString(exifIfd.get(TAG_LENS_MODEL)),
+            exposureTime: asNumber(exifIfd.get(TAG_EXPOSURE_TIME)),
+            fNumber: asNumber(exifIfd.get(TAG_F_NUMBER)),
+            iso: asNumber(exifIfd.get(TAG_ISO)),
+            focalLength: asNumber(exifIfd.get(TAG_FOCAL_LENGTH)),
+        }
+
+        // Drop the fields that are not present
+        return Object.fromEntries(
+            Object.entries(exif).filter(([, value]) => value !== undefined)) as ExifData
+    } catch (error) {
+        return {}
+    }
+}
+
+type TiffValue = string | number
+
+/**
+ * Minimal reader of TIFF IFD entries. Only the first value of each entry is decoded, except for
+ * ASCII entries.
+ */
+class TiffReader {
+    public constructor(private readonly buffer: Buffer, private readonly littleEndian: boolean) {
+    }
+
+    public uint16(offset: number): number {
+        return this.littleEndian
+            ? this.buffer.readUInt16LE(offset)
+            : this.buffer.readUInt16BE(offset)
+    }
+
+    public uint32(offset: number): number {
+        return this.littleEndian
+            ? this.buffer.readUInt32LE(offset)
+            : this.buffer.readUInt32BE(offset)
+    }
+
+    public int32(offset: number): number {
+        return this.littleEndian
+            ? this.buffer.readInt32LE(offset)
+            : this.buffer.readInt32BE(offset)
+    }
+
+    /**
+     * Reads all the entries of the IFD at a given offset.
+     */
+    public readIfd(offset: number): Map<number, TiffValue> {
+        const entries: Map<number, TiffValue> = new Map()
+        const entryCount: number = this.uint16(offset)
+
+        for (let i = 0; i < entryCount; i++) {
+            const entryOffset: number = offset + 2 + i * 12
+            const tag: number = this.uint16(entryOffset)
+            const type: number = this.uint16(entryOffset + 2)
+            const count: number = this.uint32(entryOffset + 4)
+            const size: number = (TYPE_SIZES[type] ?? 0) * count
+            if (size === 0) {
+                continue
+            }
+
+            // Values larger than 4 bytes are stored elsewhere, and the entry holds their offset
+            const valueOffset: number = size > 4 ? this.uint32(entryOffset + 8) : entryOffset + 8
+            if (valueOffset + size > this.buffer.length) {
+                continue
+            }
+
+            const value: TiffValue | undefined = this.readValue(type, valueOffset, count)
+            if (value !== undefined) {
+                entries.set(tag, value)
+            }
+        }
+
+        return entries
+    }
+
+    /**
+     * Reads all the offsets of an entry of the IFD at a given offset, e.g., the sub-IFDs.
+     */
+    public readOffsets(offset: number, tag: number): number[] {
+        const entryCount: number = this.uint16(offset)
+        for (let i = 0; i < entryCount; i++) {
+            const entryOffset: number = offset + 2 + i * 12
+            const type: number = this.uint16(entryOffset + 2)
+            if (this.uint16(entryOffset) !== tag || (type !== 4 && type !== 13)) {
+                continue
+            }
+
+            const count: number = this.uint32(entryOffset + 4)
+            const valueOffset: number = count > 1 ? this.uint32(entryOffset + 8) : entryOffset + 8
+            if (valueOffset + count * 4 > this.buffer.length) {
+                return []
+            }
+
+            return Array.from({ length: count }, (_, index) => this.uint32(valueOffset + index * 4))
+        }
+
+        return []
+    }
+
+    /**
+     * Reads the offset of the IFD following the IFD at a given offset, 0 if it is the last one.
+     */
+    public nextIfdOffset(offset: number): number {
+        return this.uint32(offset + 2 + this.uint16(offset) * 12)
+    }
+
+    private readValue(type: number, offset: number, count: number): TiffValue | undefined {
+        switch (type) {
+            case 1:
+            case 7:
+                return this.buffer[offset]
+            case 2:
+                return this.buffer.toString('latin1', offset, offset + count).replace(/\0.*$/s, '')
+            case 3:
+                return this.uint16(offset)
+            case 4:
+                return this.uint32(offset)
+            case 5: {
+                const denominator: number = this.uint32(offset + 4)
+                return denominator === 0 ? undefined : this.uint32(offset) / denominator
+            }
+            case 9:
+                return this.int32(offset)
+            case 10: {
+                const denominator: number = this.int32(offset + 4)
+                return denominator === 0 ? undefined : this.int32(offset) / denominator
+            }
+            default:
+                return undefined
+        }
+    }
+}
+
+function asString(value: TiffValue | undefined): string | undefined {
+    const trimmed: string | undefined = typeof value === 'string' ? value.trim() : undefined
+    return trimmed ? trimmed : undefined
+}
+
+function asNumber(value: TiffValue | undefined): number | undefined {
+    return typeof value === 'number' && isFinite(value) ? value : undefined
+}
+
+/**
+ * Converts an EXIF date ("YYYY:MM:DD HH:MM:SS") to ISO 8601 ("YYYY-MM-DDTHH:MM:SS").
+ */
+function parseExifDate(date: string): string | undefined {
+    const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(date)
+    if (!match || match[1] === '0000') {
+        return undefined
+    }
+
+    return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}`
+}
+
+/**
+ * Joins the camera make and model, skipping the make if the model already starts with it (e.g.,
+ * "Canon" and "Canon EOS R5").
+ */
+function joinCameraName(make?: string, model?: string): string | undefined {
+    if (make && model) {
+        return model.toLowerCase().startsWith(make.toLowerCase()) ? model : `${make} ${model}`
+    }
+
+    return model ?? make
+}
+
+/**
+ * Formats the exposure settings of an image for display, e.g., "35mm f/2.8 1/250s ISO 100".
+ *
+ * @param {ImageMetadata} metadata - The metadata of the image.
+ * @returns {string | undefined} The formatted exposure, or undefined if no exposure settings are
+ * available.
+ */
+export function formatExposure(metadata: ImageMetadata): string | undefined {
+    const parts: string[] = []
+    if (metadata.focalLength !== undefined) {
+        parts.push(`${Math.round(metadata.focalLength)}mm`)
+    }
+    if (metadata.fNumber !== undefined) {
+        parts.push(`f/${Math.round(metadata.fNumber * 10) / 10}`)
+    }
+    if (metadata.exposureTime !== undefined) {
+        parts.push(metadata.exposureTime >= 1
+            ? `${Math.round(metadata.exposureTime * 10) / 10}s`
+            : `1/${Math.round(1 / metadata.exposureTime)}s`)
+    }
+    if (metadata.iso !== undefined) {
+        parts.push(`ISO ${metadata.iso}`)
+    }
+
+    return parts.length > 0 ? parts.join(' ') : undefined
+}
+
+/**
+ * Formats the duration of a video for display, e.g., "1:05" or "1:02:05".
+ *
+ * @param {number} duration - The duration in seconds.
+ * @returns {string} The formatted duration.
+ */
+export function formatDuration(duration: number): string {
+    const seconds: number = Math.round(duration)
+    const minutes: string = `${Math.floor(seconds / 60) % 60}`
+    const hours: number = Math.floor(seconds / 3600)
+    return (hours > 0 ? `${hours}:${minutes.padStart(2, '0')}` : minutes)
+        + `:${`${seconds % 60}`.padStart(2, '0')}`
+}
+
+/**
+ * Removes the location of an image from its metadata: the GPS IFD of the EXIF block is emptied and
+ * the XMP packet, which may repeat the location, is dropped. The rest of the EXIF block, including
+ * the orientation and the capture date, is kept. The image data is not decoded.
+ *
+ * @param {Buffer} data - The content of the image file. It is not modified.
+ * @returns {Buffer} The content without the location, or the same content if the format is not
+ * supported.
+ */
+export function stripGpsMetadata(data: Buffer): Buffer {
+    switch (detectImageDataFormat(data)) {
+        case 'jpeg':
+            return stripJpegGps(data)
+        case 'png':
+            return stripPngGps(data)
+        case 'webp':
+            return stripWebpGps(data)
+        default:
+            return data
+    }
+}
+
+/**
+ * Copies the JPEG marker segments up to the start of scan, scrubbing the EXIF block and skipping
+ * the XMP segments. The entropy-coded data that follows is copied as is.
+ */
+function stripJpegGps(data: Buffer): Buffer {
+    const parts: Buffer[] = [data.subarray(0, 2)]
+    let offset: number = 2
+    while (offset + 4 <= data.length && data[offset] === 0xFF) {
+        const marker: number = data[offset + 1]
+        if (marker === 0xFF) {
+            offset += 1
+            continue
+        }
+        if (marker === 0xDA || marker === 0xD9) {
+            break
+        }
+
+        const segmentEnd: number = offset + 2 + data.readUInt16BE(offset + 2)
+        const segment: Buffer = Buffer.from(data.subarray(offset, segmentEnd))
+        const isApp1: boolean = marker === 0xE1
+        if (isApp1 && segment.toString('ascii', 4, 10) === 'Exif\0\0') {
+            scrubGpsIfd(segment.subarray(10))
+            parts.push(segment)
+        } else if (!isApp1
+            || segment.toString('latin1', 4, 4 + XMP_NAMESPACE.length) !== XMP_NAMESPACE) {
+            parts.push(segment)
+        }
+
+        offset = segmentEnd
+    }
+
+    parts.push(data.subarray(offset))
+    return Buffer.concat(parts)
+}
+
+/**
+ * Copies the PNG chunks, scrubbing the eXIf chunk and skipping the XMP chunk.
+ */
+function stripPngGps(data: Buffer): Buffer {
+    const parts: Buffer[] = [data.subarray(0, 8)]
+    let offset: number = 8
+    while (offset + 12 <= data.length) {
+        const chunkEnd: number = offset + 12 + data.readUInt32BE(offset)
+        const chunk: Buffer = Buffer.from(data.subarray(offset, chunkEnd))
+        const chunkType: string = chunk.toString('ascii', 4, 8)
+        if (chunkType === 'eXIf') {
+            scrubGpsIfd(chunk.subarray(8, chunk.length - 4))
+            chunk.writeUInt32BE(crc32(chunk.subarray(4, chunk.length - 4)), chunk.length - 4)
+            parts.push(chunk)
+        } else if (chunkType !== 'iTXt'
+            || chunk.toString('latin1', 8, 8 + PNG_XMP_KEYWORD.length) !== PNG_XMP_KEYWORD) {
+            parts.push(chunk)
+        }
+
+        offset = chunkEnd
+    }
+
+    parts.push(data.subarray(offset))
+    return Buffer.concat(parts)
+}
+
+/**
+ * Copies the WebP chunks, scrubbing the EXIF chunk and skipping the XMP chunk. The size of the RIFF
+ * container and the flags of the VP8X chunk are updated accordingly.
+ */
+function stripWebpGps(data: Buffer): Buffer {
+    const parts: Buffer[] = [Buffer.from(data.subarray(0, 12))]
+    let offset: number = 12
+    while (offset + 8 <= data.length) {
+        const chunkLength: number = data.readUInt32LE(offset + 4)
+        const chunkEnd: number = offset + 8 + chunkLength + (chunkLength % 2)
+        const chunk: Buffer = Buffer.from(data.subarray(offset, chunkEnd))
+        const chunkType: string = chunk.toString('ascii', 0, 4)
+        if (chunkType === 'EXIF') {
+            const prefixLength: number = chunk.toString('ascii', 8, 14) === 'Exif\0\0' ? 6 : 0
+            scrubGpsIfd(chunk.subarray(8 + prefixLength, 8 + chunkLength))
+        } else if (chunkType === 'VP8X') {
+            // Clear the XMP flag
+            chunk[8] &= ~0x04
+        }
+        if (chunkType !== 'XMP ') {
+            parts.push(chunk)
+        }
+
+        offset = chunkEnd
+    }
+
+    parts.push(data.subarray(offset))
+    const stripped: Buffer = Buffer.concat(parts)
+    stripped.writeUInt32LE(stripped.length - 8, 4)
+    return stripped
+}
+
+/**
+ * Empties the GPS IFD of a TIFF structure in place: the values and the entries are overwritten with
+ * zeros, leaving an IFD without entries. A malformed structure is entirely overwritten, as the
+ * location may be anywhere in it.
+ */
+function scrubGpsIfd(tiff: Buffer): void {
+    try {
+        const byteOrder: string = tiff.toString('ascii', 0, 2)
+        if (byteOrder !== 'II' && byteOrder !== 'MM') {
+            throw new RangeError('Invalid byte order')
+        }
+
+        const reader = new TiffReader(tiff, byteOrder === 'II')
+        const gpsIfdOffset: TiffValue | undefined
+            = reader.readIfd(reader.uint32(4)).get(TAG_GPS_IFD_POINTER)
+        if (typeof gpsIfdOffset !== 'number') {
+            return
+        }
+
+        const entryCount: number = reader.uint16(gpsIfdOffset)
+        const ifdEnd: number = gpsIfdOffset + 2 + entryCount * 12
+        if (ifdEnd + 4 > tiff.length) {
+            throw new RangeError('GPS IFD out of bounds')
+        }
+
+        for (let entryOffset = gpsIfdOffset + 2; entryOffset < ifdEnd; entryOffset += 12) {
+            const size: number = (TYPE_SIZES[reader.uint16(entryOffset + 2)] ?? 0)
+                * reader.uint32(entryOffset + 4)
+            if (size > 4) {
+                const valueOffset: number = reader.uint32(entryOffset + 8)
+                tiff.fill(0, valueOffset, Math.min(valueOffset + size, tiff.length))
+            }
+        }
+
+        // Zero entries and no next IFD, whatever the byte order
+        tiff.fill(0, gpsIfdOffset, ifdEnd + 4)
+    } catch (error) {
+        tiff.fill(0)
+    }
+}
+
+let crcTable: number[] | undefined
+
+/**
+ * Computes the CRC-32 of a PNG chunk.
+ */
+function crc32(data: Buffer): number {
+    crcTable ??= Array.from({ length: 256 }, (_, n) => {
+        let c: number = n
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+        }
+        return c >>> 0
+    })
+
+    let crc: number = 0xFFFFFFFF
+    for (const byte of data) {
+        crc = (crc >>> 8) ^ crcTable[(crc ^ byte) & 0xFF]
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0
+}
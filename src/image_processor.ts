@@ -0,0 +1,389 @@
+import * as fs from 'node:fs'
+import { spawn } from 'node:child_process'
+import { pipeline } from 'node:stream/promises'
+import * as timers from 'node:timers/promises'
+import type Vips from 'wasm-vips'
+import { ImageFormat } from './image_metadata.js'
+
+/**
+ * Formats that compressed images can be encoded to.
+ */
+export type OutputFormat = ImageFormat | 'avif'
+
+/**
+ * Names of the available image processing backends.
+ */
+export type ImageProcessorName = 'jpegoptim' | 'wasm'
+
+/**
+ * Names of the tools run by the backends, including the extraction of the poster frames of videos.
+ */
+export type ToolName = 'jpegoptim' | 'ffmpeg'
+
+/**
+ * A request to compress an image to a target size, and/or to downscale it to fit in given
+ * dimensions.
+ */
+export interface CompressionRequest {
+    // The absolute path of the original image
+    inputPath: string
+
+    // The absolute path where the compressed image will be saved
+    outputPath: string
+
+    // The format of the original image
+    format: ImageFormat
+
+    // The format of the compressed image
+    outputFormat: OutputFormat
+
+    // The target size, either in kilobytes (e.g., "500k") or as a percentage of the original
+    // size (e.g., "50%")
+    size?: string
+
+    // The maximum width and height of the output image. The aspect ratio is kept, and images are
+    // never upscaled.
+    maxWidth?: number
+    maxHeight?: number
+}
+
+/**
+ * Interface of an image processing backend.
+ */
+export interface ImageProcessor {
+    // The name of the backend
+    readonly name: ImageProcessorName
+
+    // Whether the backend can downscale images, i.e., handle requests with maximum dimensions
+    readonly canResize: boolean
+
+    /**
+     * Checks whether the backend can process images of a given format.
+     * @param {ImageFormat} format - The format of the original image.
+     * @param {OutputFormat} outputFormat - The format of the compressed image.
+     * @returns {boolean} True if the conversion is supported.
+     */
+    supports(format: ImageFormat, outputFormat: OutputFormat): boolean
+
+    /**
+     * Compresses an image. On failure, no partial output file is left behind.
+     * @param {CompressionRequest} request - The compression request.
+     * @returns {Promise<void>} A promise that resolves when the compressed image has been saved.
+     * @throws {ImageProcessingError} If the image cannot be compressed.
+     */
+    compress(request: CompressionRequest): Promise<void>
+}
+
+/**
+ * Reasons for an image processing failure.
+ * - UNSUPPORTED_FORMAT: no backend can process the format of the image
+ * - BACKEND_UNAVAILABLE: the backend is not installed on this machine
+ * - INVALID_SIZE: the target size cannot be parsed
+ * - PROCESSING_FAILED: the backend failed to process the image
+ */
+export type ImageProcessingErrorCode =
+    'UNSUPPORTED_FORMAT' | 'BACKEND_UNAVAILABLE' | 'INVALID_SIZE' | 'PROCESSING_FAILED'
+
+/**
+ * Error thrown when an image cannot be processed.
+ */
+export class ImageProcessingError extends Error {
+    /**
+     * @param {ImageProcessingErrorCode} code - The reason of the failure.
+     * @param {string} imagePath - The path of the image being processed.
+     * @param {string} [processor] - The name of the backend or the tool that failed, if any.
+     * @param {string} [details] - Additional details, e.g., the stderr output of a tool.
+     */
+    public constructor(
+        public readonly code: ImageProcessingErrorCode,
+        public readonly imagePath: string,
+        public readonly processor?: ImageProcessorName | ToolName,
+        public readonly details?: string,
+    ) {
+        super(`${code} while processing ${imagePath}`
+            + (processor ? ` with ${processor}` : '')
+            + (details ? `: ${details}` : ''))
+        this.name = 'ImageProcessingError'
+    }
+}
+
+/**
+ * Backend that runs the jpegoptim tool. The tool is spawned directly (no shell is involved), so
+ * the image paths are never interpreted.
+ */
+export class JpegoptimImageProcessor implements ImageProcessor {
+    public readonly name: ImageProcessorName = 'jpegoptim'
+
+    public readonly canResize: boolean = false
+
+    public supports(format: ImageFormat, outputFormat: OutputFormat): boolean {
+        return format === 'jpeg' && outputFormat === 'jpeg'
+    }
+
+    public async compress(request: CompressionRequest): Promise<void> {
+        const args: string[] = ['--stdout', '--strip-all', '--quiet', '--force']
+        if (request.size !== undefined) {
+            parseTargetSize(request.size, 0, request.inputPath, this.name)
+            args.push(`--size=${request.size}`)
+        }
+
+        // "--" stops option parsing, so a path starting with a dash is not taken as an option
+        await runTool('jpegoptim', [...args, '--', request.inputPath], request)
+    }
+}
+
+/**
+ * Extracts the poster frame of a video with the ffmpeg tool: a representative frame among the
+ * first frames, saved as a JPEG image at the dimensions of the video. The tool is optional; videos
+ * have no poster frame if it is not installed.
+ *
+ * @param {string} inputPath - The absolute path of the video.
+ * @param {string} outputPath - The absolute path where the poster frame will be saved.
+ * @returns {Promise<void>} A promise that resolves when the poster frame has been saved.
+ * @throws {ImageProcessingError} If ffmpeg is not installed or fails to decode the video.
+ */
+export async function extractPosterFrame(inputPath: string, outputPath: string): Promise<void> {
+    // The "file:" protocol keeps ffmpeg from interpreting the path, e.g., as an URL
+    await runTool('ffmpeg', [
+        '-nostdin', '-v', 'error', '-i', `file:${inputPath}`,
+        '-vf', 'thumbnail', '-frames:v', '1', '-q:v', '2', '-f', 'image2pipe', '-c:v', 'mjpeg',
+        'pipe:1',
+    ], { inputPath, outputPath })
+}
+
+/**
+ * Backend that runs libvips compiled to WebAssembly in-process. It does not depend on any tool
+ * installed on the machine, supports all the formats known by the metadata parser, and can convert
+ * them to any output format.
+ *
+ * libvips runs on the main thread: the decoding and each encoding block the event loop while they
+ * run, which it yields to in between.
+ */
+export class WasmImageProcessor implements ImageProcessor {
+    public readonly name: ImageProcessorName = 'wasm'
+
+    public readonly canResize: boolean = true
+
+    // Highest quality tried when searching for the quality that meets the target size
+    private static readonly MAX_QUALITY = 90
+
+    // Quality used when there is no target size
+    private static readonly DEFAULT_QUALITY = 82
+
+    // Largest dimension libvips can handle, used when only one of the dimensions is bounded
+    private static readonly MAX_DIMENSION = 10000000
+
+    // libvips is loaded lazily, and only once, as its initialization takes a while
+    private static vips ?: Promise<typeof Vips>
+
+    public supports(format: ImageFormat, outputFormat: OutputFormat): boolean {
+        return ['jpeg', 'png', 'webp'].includes(format)
+            && ['jpeg', 'png', 'webp', 'avif'].includes(outputFormat)
+    }
+
+    public async compress(request: CompressionRequest): Promise<void> {
+        const input: Buffer = await fs.promises.readFile(request.inputPath)
+        const targetBytes: number | undefined = request.size === undefined
+            ? undefined
+            : parseTargetSize(request.size, input.length, request.inputPath, this.name)
+        const vips = await WasmImageProcessor.loadVips()
+
+        const images: Vips.Image[] = []
+        try {
+            // Rotate upright, since the orientation tag is not kept in the output
+            if (request.maxWidth !== undefined || request.maxHeight !== undefined) {
+                // The thumbnail operation rotates upright on its own
+                images.push(vips.Image.thumbnailBuffer(
+                    input,
+                    request.maxWidth ?? WasmImageProcessor.MAX_DIMENSION,
+                    {
+                        height: request.maxHeight ?? WasmImageProcessor.MAX_DIMENSION,
+                        size: 'down',
+                    }))
+            } else {
+                images.push(vips.Image.newFromBuffer(input))
+                images.push(images[0].autorot())
+            }
+            const image: Vips.Image = images[images.length - 1].copyMemory()
+            images.push(image)
+
+            const output: Uint8Array = await this.encode(image, request.outputFormat, targetBytes)
+            await fs.promises.writeFile(request.outputPath, output)
+        } catch (error) {
+            await fs.promises.rm(request.outputPath, { force: true })
+            throw new ImageProcessingError(
+                'PROCESSING_FAILED', request.inputPath, this.name, describeVipsError(error))
+        } finally {
+            images.forEach(image => image.delete())
+        }
+    }
+
+    /**
+     * Encodes an image with the highest quality whose output does not exceed the target size. If
+     * no quality is small enough, the output of the lowest quality is returned. Without a target
+     * size, the default quality is used (PNG images are encoded losslessly).
+     *
+     * Each encoding blocks the event loop, so the other requests are served between the encodings
+     * of the search.
+     */
+    private async encode(
+        image: Vips.Image,
+        format: OutputFormat,
+        targetBytes: number | undefined,
+    ): Promise<Uint8Array> {
+        if (format === 'png') {
+            // Try lossless first, then fall back to palette quantization
+            await timers.setImmediate()
+            const lossless: Uint8Array
+                = image.writeToBuffer('.png', { compression: 9, keep: 'none' })
+            if (targetBytes === undefined || lossless.length <= targetBytes) {
+                return lossless
+            }
+        }
+
+        const suffix: string = { jpeg: '.jpg', png: '.png', webp: '.webp', avif: '.avif' }[format]
+        const encode = async (quality: number): Promise<Uint8Array> => {
+            await timers.setImmediate()
+            return format === 'png'
+                ? image.writeToBuffer(suffix, {
+                    compression: 9, palette: true, Q: quality, keep: 'none',
+                })
+                : image.writeToBuffer(suffix, { Q: quality, keep: 'none' })
+        }
+
+        if (targetBytes === undefined) {
+            return encode(WasmImageProcessor.DEFAULT_QUALITY)
+        }
+
+        let best: Uint8Array = await encode(WasmImageProcessor.MAX_QUALITY)
+        if (best.length <= targetBytes) {
+            return best
+        }
+
+        // Binary search for the highest quality that meets the target size
+        let low: number = 1
+        let high: number = WasmImageProcessor.MAX_QUALITY - 1
+        while (low <= high) {
+            const quality: number = Math.floor((low + high) / 2)
+            const output: Uint8Array = await encode(quality)
+            if (output.length <= targetBytes) {
+                best = output
+                low = quality + 1
+            } else {
+                if (best.length > targetBytes) {
+                    best = output
+                }
+                high = quality - 1
+            }
+        }
+
+        return best
+    }
+
+    private static loadVips(): Promise<typeof Vips> {
+        WasmImageProcessor.vips ??= import('wasm-vips').then(module => module.default())
+        return WasmImageProcessor.vips
+    }
+}
+
+/**
+ * Parses a target size into bytes.
+ *
+ * @param {string} size - The target size in kilobytes (e.g., "500k" or "500") or as a percentage
+ * of the original size (e.g., "50%").
+ * @param {number} originalBytes - The size of the original image in bytes.
+ * @param {string} imagePath - The path of the image, used for error reporting.
+ * @param {ImageProcessorName} processor - The name of the backend, used for error reporting.
+ * @returns {number} The target size in bytes.
+ * @throws {ImageProcessingError} If the size cannot be parsed.
+ */
+function parseTargetSize(
+    size: string,
+    originalBytes: number,
+    imagePath: string,
+    processor: ImageProcessorName,
+): number {
+    const match = /^(\d+)(k|K|%)?$/.exec(size)
+    if (!match || Number(match[1]) <= 0 || (match[2] === '%' && Number(match[1]) >= 100)) {
+        throw new ImageProcessingError(
+            'INVALID_SIZE', imagePath, processor, `invalid size "${size}"`)
+    }
+
+    return match[2] === '%'
+        ? Math.floor(originalBytes * Number(match[1]) / 100)
+        : Number(match[1]) * 1024
+}
+
+/**
+ * Runs a tool writing its output to stdout, and saves the output. The tool is spawned directly (no
+ * shell is involved), so the paths are never interpreted. On failure, no partial output file is
+ * left behind.
+ *
+ * @throws {ImageProcessingError} If the tool is not installed or fails.
+ */
+async function runTool(
+    name: ToolName,
+    args: string[],
+    request: { inputPath: string, outputPath: string },
+): Promise<void> {
+    const child = spawn(name, args, { stdio: ['ignore', 'pipe', 'pipe'] })
+
+    let stderr: string = ''
+    child.stderr.on('data', (chunk: Buffer) => stderr += chunk.toString('utf-8'))
+    const exit: Promise<number | null> = new Promise((resolve, reject) => {
+        child.once('error', reject)
+        child.once('close', resolve)
+    })
+
+    try {
+        const [, exitCode] = await Promise.all([
+            pipeline(child.stdout, fs.createWriteStream(request.outputPath)),
+            exit,
+        ])
+        if (exitCode !== 0) {
+            throw new ImageProcessingError(
+                'PROCESSING_FAILED', request.inputPath, name, stderr.trim())
+        }
+    } catch (error) {
+        await fs.promises.rm(request.outputPath, { force: true })
+        if (error instanceof ImageProcessingError) {
+            throw error
+        }
+
+        // The tool is not installed if it cannot be spawned
+        const { code, syscall } = error as NodeJS.ErrnoException
+        throw new ImageProcessingError(
+            code === 'ENOENT' && syscall?.startsWith('spawn')
+                ? 'BACKEND_UNAVAILABLE'
+                : 'PROCESSING_FAILED',
+            request.inputPath,
+            name,
+            `${error}`)
+    }
+}
+
+/**
+ * libvips errors are thrown as WebAssembly exceptions whose message is an array of strings.
+ */
+function describeVipsError(error: unknown): string {
+    const message: unknown = (error as { message?: unknown })?.message
+    return Array.isArray(message) ? message.join(': ').trim() : `${message ?? error}`
+}
+
+const imageProcessors: { [name in ImageProcessorName]: ImageProcessor } = {
+    jpegoptim: new JpegoptimImageProcessor(),
+    wasm: new WasmImageProcessor(),
+}
+
+/**
+ * Lists the backends in order of preference: the preferred backend first, then the others as
+ * fallbacks.
+ *
+ * @param {ImageProcessorName} preferred - The name of the preferred backend.
+ * @returns {ImageProcessor[]} The backends.
+ */
+export function getImageProcessors(preferred: ImageProcessorName): ImageProcessor[] {
+    return preferred === 'wasm'
+        ? [imageProcessors.wasm, imageProcessors.jpegoptim]
+        : [imageProcessors.jpegoptim, imageProcessors.wasm]
+}
@@ -0,0 +1,121 @@
+/**
+ * A job waiting for a free worker.
+ */
+interface QueuedJob {
+    key: string
+    start: () => void
+}
+
+/**
+ * Queue running asynchronous jobs with a bounded number of workers.
+ *
+ * Jobs are identified by a key. Running a job whose key is already queued or running does not start
+ * another job; the caller receives the result of the existing one instead (request coalescing).
+ * Background jobs only start when no foreground job is waiting.
+ */
+export class JobQueue {
+    /**
+     * Number of jobs currently running.
+     * @private
+     */
+    private running: number = 0
+
+    /**
+     * Foreground jobs waiting for a free worker.
+     * @private
+     */
+    private readonly foregroundJobs: QueuedJob[] = []
+
+    /**
+     * Background jobs waiting for a free worker and for the foreground queue to be empty.
+     * @private
+     */
+    private readonly backgroundJobs: QueuedJob[] = []
+
+    /**
+     * Promises of the queued and running jobs, keyed by job key.
+     * @private
+     */
+    private readonly pendingJobs: Map<string, Promise<unknown>> = new Map()
+
+    /**
+     * @param {number} concurrency - The maximum number of jobs running at the same time.
+     */
+    public constructor(private concurrency: number) {
+    }
+
+    /**
+     * Updates the maximum number of jobs running at the same time. Running jobs are not affected.
+     * @param {number} concurrency - The new maximum, at least 1.
+     */
+    public setConcurrency(concurrency: number): void {
+        this.concurrency = Math.max(1, Math.floor(concurrency))
+        this.startNextJobs()
+    }
+
+    /**
+     * The number of jobs queued or running.
+     */
+    public get size(): number {
+        return this.pendingJobs.size
+    }
+
+    /**
+     * Runs a job once a worker is free, unless a job with the same key is already queued or
+     * running.
+     *
+     * @param {string} key - The key identifying the job.
+     * @param {() => Promise<T>} job - The job to run.
+     * @param {boolean} [background=false] - Whether the job should yield to foreground jobs. A
+     * background job that is still queued is promoted when the same key is run in the foreground.
+     * @returns {Promise<T>} A promise resolving to the result of the job.
+     */
+    public run<T>(key: string, job: () => Promise<T>, background: boolean = false): Promise<T> {
+        const pendingJob = this.pendingJobs.get(key)
+        if (pendingJob !== undefined) {
+            if (!background) {
+                this.promote(key)
+            }
+            return pendingJob as Promise<T>
+        }
+
+        const promise: Promise<T> = new Promise<void>(resolve => {
+            const queue: QueuedJob[] = background ? this.backgroundJobs : this.foregroundJobs
+            queue.push({ key, start: resolve })
+            this.startNextJobs()
+        }).then(job).finally(() => {
+            this.running--
+            this.pendingJobs.delete(key)
+            this.startNextJobs()
+        })
+
+        this.pendingJobs.set(key, promise)
+        return promise
+    }
+
+    /**
+     * Moves a queued background job to the foreground queue.
+     */
+    private promote(key: string): void {
+        const index: number = this.backgroundJobs.findIndex(queuedJob => queuedJob.key === key)
+        if (index !== -1) {
+            this.foregroundJobs.push(...this.backgroundJobs.splice(index, 1))
+        }
+    }
+
+    /**
+     * Starts queued jobs while workers are free.
+     */
+    private startNextJobs(): void {
+        while (this.running < this.concurrency) {
+            const queuedJob: QueuedJob | undefined
+                = this.foregroundJobs.shift() ?? this.backgroundJobs.shift()
+            if (queuedJob === undefined) {
+                return
+            }
+
+            this.running++
+            queuedJob.start()
+        }
+    }
+}
@@ -0,0 +1,126 @@
+import { LoggingSettings } from './settings.js'
+
+/**
+ * Levels of the log messages, from the most verbose to the most severe.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * Formats of the log messages:
+ * - text: one human-readable line per message, e.g., `[<time>] warn: <message> key=value`
+ * - json: one JSON object per line, with the time, the level, the message and the fields
+ */
+export type LogFormat = 'text' | 'json'
+
+/**
+ * Structured data attached to a log message, e.g., the path of an image. Errors are logged as their
+ * message.
+ */
+export interface LogFields {
+    [key: string]: unknown
+}
+
+// Levels in increasing order of severity
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+/**
+ * Logger writing messages to the standard output (debug and info) or to the standard error (warn
+ * and error). Messages below the configured level are dropped.
+ */
+export class Logger {
+    /**
+     * The lowest level of the messages written.
+     * @private
+     */
+    private level: LogLevel = 'info'
+
+    /**
+     * The format of the messages written.
+     * @private
+     */
+    private format: LogFormat = 'text'
+
+    /**
+     * Applies the logging settings. Missing settings are reset to their default.
+     * @param {LoggingSettings} [settings] - The logging settings (default: all the defaults).
+     */
+    public configure(settings: LoggingSettings = {}): void {
+        this.level = settings.level ?? 'info'
+        this.format = settings.format ?? 'text'
+    }
+
+    /**
+     * Writes a debug message, e.g., a served request.
+     * @see log
+     */
+    public debug(message: string, fields?: LogFields): void {
+        this.log('debug', message, fields)
+    }
+
+    /**
+     * Writes an information message.
+     * @see log
+     */
+    public info(message: string, fields?: LogFields): void {
+        this.log('info', message, fields)
+    }
+
+    /**
+     * Writes a warning, e.g., a recoverable failure.
+     * @see log
+     */
+    public warn(message: string, fields?: LogFields): void {
+        this.log('warn', message, fields)
+    }
+
+    /**
+     * Writes an error.
+     * @see log
+     */
+    public error(message: string, fields?: LogFields): void {
+        this.log('error', message, fields)
+    }
+
+    /**
+     * Writes a message, if its level is enabled.
+     *
+     * @param {LogLevel} level - The level of the message.
+     * @param {string} message - The message.
+     * @param {LogFields} [fields] - The structured data of the message. Undefined fields are left
+     * out.
+     */
+    public log(level: LogLevel, message: string, fields: LogFields = {}): void {
+        if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.level)) {
+            return
+        }
+
+        const time: string = new Date().toISOString()
+        const entries: [string, unknown][] = Object.entries(fields)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => [key, value instanceof Error ? value.message : value])
+        const line: string = this.format === 'json'
+            ? JSON.stringify({ time, level, message, ...Object.fromEntries(entries) })
+            : `[${time}] ${level}: ${message}`
+                + entries.map(([key, value]) => ` ${key}=${formatTextValue(value)}`).join('')
+
+        if (level === 'warn' || level === 'error') {
+            console.error(line)
+        } else {
+            console.log(line)
+        }
+    }
+}
+
+/**
+ * Logger of the server, configured by the `logging` settings.
+ */
+export const logger = new Logger()
+
+/**
+ * Formats a field of a text message. Strings are quoted when they contain spaces, quotes or line
+ * breaks, so that each message stays on one line.
+ */
+function formatTextValue(value: unknown): string {
+    const text: string = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value)
+    return /[\s"=]/.test(text) ? JSON.stringify(text) : text
+}
@@ -0,0 +1,100 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import {
+    extractRawPreview,
+    ImageMetadata,
+    readImageMetadata,
+    readRawMetadata,
+    readVideoMetadata,
+} from './image_metadata.js'
+import { extractPosterFrame, ImageProcessingError } from './image_processor.js'
+
+/**
+ * Types of the files of the gallery. RAW files and videos are shown through a JPEG preview: the
+ * preview embedded in the RAW file, or the poster frame of the video.
+ */
+export type MediaType = 'image' | 'raw' | 'video'
+
+// Content types of the videos, by file extension
+const VIDEO_CONTENT_TYPES: { [extension: string]: string } = {
+    '.m2ts': 'video/mp2t',
+    '.m4v': 'video/mp4',
+    '.mov': 'video/quicktime',
+    '.mp4': 'video/mp4',
+    '.mts': 'video/mp2t',
+    '.webm': 'video/webm',
+}
+
+// File extensions of the RAW files based on TIFF, whose embedded previews can be extracted
+const RAW_EXTENSIONS = ['.arw', '.cr2', '.dng', '.nef', '.nrw', '.pef', '.srw']
+
+/**
+ * Detects the type of a file of the gallery from its extension. Files that are neither RAW files
+ * nor videos are images.
+ *
+ * @param {string} filePath - The path of the file.
+ * @returns {MediaType} The type of the file.
+ */
+export function detectMediaType(filePath: string): MediaType {
+    const extension: string = path.extname(filePath).toLowerCase()
+    if (RAW_EXTENSIONS.includes(extension)) {
+        return 'raw'
+    }
+
+    return Object.prototype.hasOwnProperty.call(VIDEO_CONTENT_TYPES, extension) ? 'video' : 'image'
+}
+
+/**
+ * Gets the content type of a video, e.g., for the `type` attribute of its source.
+ *
+ * @param {string} filePath - The path of the video.
+ * @returns {string | undefined} The content type, or undefined if the file is not a video.
+ */
+export function getVideoContentType(filePath: string): string | undefined {
+    const extension: string = path.extname(filePath).toLowerCase()
+    return Object.prototype.hasOwnProperty.call(VIDEO_CONTENT_TYPES, extension)
+        ? VIDEO_CONTENT_TYPES[extension]
+        : undefined
+}
+
+/**
+ * Reads the metadata of a file of the gallery, according to its type.
+ *
+ * @param {string} filePath - The absolute path of the file.
+ * @returns {ImageMetadata | undefined} The metadata, or undefined if the format is not supported
+ * or the file is malformed.
+ * @see detectMediaType
+ */
+export function readMediaMetadata(filePath: string): ImageMetadata | undefined {
+    switch (detectMediaType(filePath)) {
+        case 'raw':
+            return readRawMetadata(filePath)
+        case 'video':
+            return readVideoMetadata(filePath)
+        default:
+            return readImageMetadata(filePath)
+    }
+}
+
+/**
+ * Saves the JPEG preview of a RAW file or a video, from which its cached images are generated: the
+ * preview embedded in the RAW file, or the poster frame of the video extracted with ffmpeg.
+ *
+ * @param {string} inputPath - The absolute path of the RAW file or the video.
+ * @param {string} outputPath - The absolute path where the preview will be saved.
+ * @returns {Promise<void>} A promise that resolves when the preview has been saved.
+ * @throws {ImageProcessingError} If the file has no preview, or ffmpeg is not installed or fails.
+ */
+export async function extractPreview(inputPath: string, outputPath: string): Promise<void> {
+    if (detectMediaType(inputPath) === 'video') {
+        return extractPosterFrame(inputPath, outputPath)
+    }
+
+    const preview: Buffer | undefined = extractRawPreview(inputPath)
+    if (preview === undefined) {
+        throw new ImageProcessingError(
+            'UNSUPPORTED_FORMAT', inputPath, undefined, 'no embedded JPEG preview')
+    }
+
+    await fs.promises.writeFile(outputPath, preview)
+}
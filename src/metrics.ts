@@ -0,0 +1,219 @@
+/**
+ * Labels of a time series, e.g., `{ method: 'GET', status: '200' }`.
+ */
+export interface MetricLabels {
+    [name: string]: string
+}
+
+/**
+ * Metric exposed by the `/metrics` route in the Prometheus text format.
+ */
+interface Metric {
+    name: string
+    help: string
+    type: 'counter' | 'gauge' | 'histogram'
+
+    // The sample lines of the metric, e.g., `name{label="value"} 1`
+    collect(): string[]
+}
+
+// Upper bounds of the default histogram buckets, in seconds
+const DURATION_BUCKETS: number[] = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+/**
+ * Metrics of the server, in the order they are rendered.
+ */
+const metrics: Metric[] = []
+
+/**
+ * Counter of events, e.g., served requests. A time series is created for each set of labels.
+ */
+export class Counter implements Metric {
+    public readonly type = 'counter'
+
+    /**
+     * Values of the time series, keyed by formatted labels.
+     * @private
+     */
+    private readonly values: Map<string, number> = new Map()
+
+    /**
+     * @param {string} name - The name of the metric, ending with `_total`.
+     * @param {string} help - The description of the metric.
+     */
+    public constructor(public readonly name: string, public readonly help: string) {
+        metrics.push(this)
+    }
+
+    /**
+     * Increments the counter of a time series.
+     * @param {MetricLabels} [labels] - The labels of the time series (default: none).
+     * @param {number} [value] - The increment (default: 1).
+     */
+    public inc(labels: MetricLabels = {}, value: number = 1): void {
+        const key: string = formatLabels(labels)
+        this.values.set(key, (this.values.get(key) ?? 0) + value)
+    }
+
+    public collect(): string[] {
+        return [...this.values].map(([key, value]) => `${this.name}${key} ${value}`)
+    }
+}
+
+/**
+ * Gauge whose value is read when the metrics are rendered, e.g., the number of images.
+ */
+export class Gauge implements Metric {
+    public readonly type = 'gauge'
+
+    /**
+     * @param {string} name - The name of the metric.
+     * @param {string} help - The description of the metric.
+     * @param {() => number} read - Reads the current value.
+     */
+    public constructor(
+        public readonly name: string,
+        public readonly help: string,
+        private readonly read: () => number,
+    ) {
+        metrics.push(this)
+    }
+
+    public collect(): string[] {
+        return [`${this.name} ${this.read()}`]
+    }
+}
+
+/**
+ * Histogram of durations, e.g., the latency of the requests. A time series is created for each set
+ * of labels.
+ */
+export class Histogram implements Metric {
+    public readonly type = 'histogram'
+
+    /**
+     * Bucket counts (not cumulative), sum and count of the time series, keyed by formatted labels.
+     * @private
+     */
+    private readonly series: Map<string, {
+        labels: MetricLabels,
+        buckets: number[],
+        sum: number,
+        count: number,
+    }> = new Map()
+
+    /**
+     * @param {string} name - The name of the metric, ending with the unit (e.g., `_seconds`).
+     * @param {string} help - The description of the metric.
+     * @param {number[]} [buckets] - The upper bounds of the buckets, in increasing order (default:
+     * from 5ms to 10s).
+     */
+    public constructor(
+        public readonly name: string,
+        public readonly help: string,
+        private readonly buckets: number[] = DURATION_BUCKETS,
+    ) {
+        metrics.push(this)
+    }
+
+    /**
+     * Records a value in a time series.
+     * @param {MetricLabels} labels - The labels of the time series.
+     * @param {number} value - The value, e.g., a duration in seconds.
+     */
+    public observe(labels: MetricLabels, value: number): void {
+        const key: string = formatLabels(labels)
+        let series = this.series.get(key)
+        if (series === undefined) {
+            series = { labels, buckets: this.buckets.map(() => 0), sum: 0, count: 0 }
+            this.series.set(key, series)
+        }
+
+        const index: number = this.buckets.findIndex(bound => value <= bound)
+        if (index !== -1) {
+            series.buckets[index]++
+        }
+        series.sum += value
+        series.count++
+    }
+
+    /**
+     * Measures the duration of a synchronous function, in seconds.
+     *
+     * @param {MetricLabels} labels - The labels of the time series.
+     * @param {() => T} fn - The function.
+     * @returns {T} The result of the function. Durations are recorded even if it throws.
+     */
+    public time<T>(labels: MetricLabels, fn: () => T): T {
+        const startTime: number = performance.now()
+        try {
+            return fn()
+        } finally {
+            this.observe(labels, (performance.now() - startTime) / 1000)
+        }
+    }
+
+    public collect(): string[] {
+        return [...this.series].flatMap(([key, series]) => {
+            let cumulativeCount: number = 0
+            return [
+                ...this.buckets.map((bound, index) => {
+                    cumulativeCount += series.buckets[index]
+                    const labels: MetricLabels = { ...series.labels, le: `${bound}` }
+                    return `${this.name}_bucket${formatLabels(labels)} ${cumulativeCount}`
+                }),
+                `${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })}`
+                    + ` ${series.count}`,
+                `${this.name}_sum${key} ${series.sum}`,
+                `${this.name}_count${key} ${series.count}`,
+            ]
+        })
+    }
+}
+
+// Metrics recorded by the server; the other modules declare the gauges of their own state
+export const httpRequestsTotal = new Counter(
+    'gallery_http_requests_total', 'HTTP requests, by method, route and status')
+export const httpRequestDuration = new Histogram(
+    'gallery_http_request_duration_seconds', 'Latency of the HTTP requests, by method and route')
+export const imageCacheRequestsTotal = new Counter(
+    'gallery_image_cache_requests_total',
+    'Requests of cached images, by cache size and result (hit, or miss if generated)')
+export const templateRenderDuration = new Histogram(
+    'gallery_template_render_duration_seconds', 'Rendering time of the templates, by template')
+
+new Gauge('process_resident_memory_bytes', 'Resident memory size of the server',
+    () => process.memoryUsage().rss)
+new Gauge('process_start_time_seconds', 'Start time of the server, in seconds since epoch',
+    () => Math.round(Date.now() / 1000 - process.uptime()))
+
+/**
+ * Renders all the metrics in the Prometheus text format. Metrics without any time series yet are
+ * described anyway.
+ *
+ * @returns {string} The metrics, one sample per line.
+ */
+export function renderMetrics(): string {
+    return metrics
+        .flatMap(metric => [
+            `# HELP ${metric.name} ${metric.help}`,
+            `# TYPE ${metric.name} ${metric.type}`,
+            ...metric.collect(),
+        ])
+        .join('\n') + '\n'
+}
+
+/**
+ * Formats labels as in the Prometheus text format, e.g., `{method="GET"}`, or an empty string if
+ * there is no label.
+ */
+function formatLabels(labels: MetricLabels): string {
+    const entries: [string, string][] = Object.entries(labels)
+    if (entries.length === 0) {
+        return ''
+    }
+
+    const escape = (value: string): string =>
+        value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+    return `{${entries.map(([name, value]) => `${name}="${escape(value)}"`).join(',')}}`
+}
@@ -0,0 +1,134 @@
+/**
+ * Part of a multipart/form-data body: a form field or an uploaded file.
+ */
+export interface MultipartPart {
+    // The name of the form field
+    name: string
+
+    // The name of the file on the computer of the client, for the uploaded files
+    fileName?: string
+
+    // The media type declared by the client, if any
+    contentType?: string
+
+    data: Buffer
+}
+
+/**
+ * Error thrown when a multipart body is malformed.
+ */
+export class MultipartError extends Error {
+    public constructor(message: string) {
+        super(message)
+        this.name = 'MultipartError'
+    }
+}
+
+/**
+ * Gets the boundary of a multipart body from its Content-Type header.
+ *
+ * @param {string} contentType - The Content-Type header, e.g.,
+ * `multipart/form-data; boundary=----WebKitFormBoundary7MA4YWxkTrZu0gW`.
+ * @returns {string | undefined} The boundary, or undefined if it is missing.
+ */
+export function getMultipartBoundary(contentType: string): string | undefined {
+    return parseHeaderParameters(contentType).get('boundary') || undefined
+}
+
+/**
+ * Splits a multipart/form-data body into its parts (RFC 7578). The body is parsed in memory, so its
+ * size must be limited beforehand.
+ *
+ * @param {Buffer} body - The body of the request.
+ * @param {string} boundary - The boundary of the body.
+ * @returns {MultipartPart[]} The parts, in the order of the body.
+ * @throws {MultipartError} If the body is malformed.
+ */
+export function parseMultipart(body: Buffer, boundary: string): MultipartPart[] {
+    const delimiter: Buffer = Buffer.from(`--${boundary}`)
+    const parts: MultipartPart[] = []
+
+    // The first delimiter may be preceded by a preamble, and the others are preceded by a CRLF
+    let offset: number = body.indexOf(delimiter)
+    if (offset === -1) {
+        throw new MultipartError('The boundary is not found in the body')
+    }
+
+    for (;;) {
+        offset += delimiter.length
+        if (body.toString('latin1', offset, offset + 2) === '--') {
+            // Closing delimiter, followed by an epilogue that is ignored
+            return parts
+        }
+
+        // Transport padding may follow the delimiter
+        const headersStart: number = body.indexOf('\r\n', offset)
+        const headersEnd: number = body.indexOf('\r\n\r\n', offset)
+        if (headersStart === -1 || headersEnd === -1) {
+            throw new MultipartError('A part is truncated')
+        }
+
+        const dataEnd: number = body.indexOf(Buffer.from(`\r\n--${boundary}`), headersEnd)
+        if (dataEnd === -1) {
+            throw new MultipartError('The closing boundary is missing')
+        }
+
+        parts.push(parsePart(
+            body.toString('utf-8', headersStart + 2, headersEnd),
+            body.subarray(headersEnd + 4, dataEnd)))
+        offset = dataEnd + 2
+    }
+}
+
+function parsePart(headerLines: string, data: Buffer): MultipartPart {
+    const headers: Map<string, string> = new Map()
+    for (const line of headerLines.split('\r\n')) {
+        const separatorIndex: number = line.indexOf(':')
+        if (separatorIndex > 0) {
+            headers.set(line.substring(0, separatorIndex).trim().toLowerCase(),
+                line.substring(separatorIndex + 1).trim())
+        }
+    }
+
+    const disposition: string = headers.get('content-disposition') ?? ''
+    const parameters: Map<string, string> = parseHeaderParameters(disposition)
+    const name: string | undefined = parameters.get('name')
+    if (!/^form-data\s*(;|$)/i.test(disposition) || name === undefined) {
+        throw new MultipartError('A part has no form-data disposition with a name')
+    }
+
+    return {
+        name,
+        fileName: parameters.get('filename*') ?? parameters.get('filename'),
+        contentType: headers.get('content-type'),
+        data,
+    }
+}
+
+/**
+ * Parses the parameters of a header value, e.g., `form-data; name="file"; filename="a.jpg"`. The
+ * names are lowercased, the quoted values unescaped, and the extended values (RFC 8187) decoded.
+ */
+function parseHeaderParameters(value: string): Map<string, string> {
+    const parameters: Map<string, string> = new Map()
+    const pattern: RegExp = /;\s*([^\s=;]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s;]*))/g
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(value)) !== null) {
+        const parameterName: string = match[1].toLowerCase()
+        let parameterValue: string = match[2] === undefined
+            ? match[3]
+            : match[2].replace(/\\(.)/g, '$1')
+        if (parameterName.endsWith('*')) {
+            const extendedValue = /^utf-8'[^']*'(.*)$/i.exec(parameterValue)
+            try {
+                parameterValue = decodeURIComponent(extendedValue?.[1] ?? '')
+            } catch (error) {
+                continue
+            }
+        }
+
+        parameters.set(parameterName, parameterValue)
+    }
+
+    return parameters
+}
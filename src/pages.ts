@@ -0,0 +1,358 @@
+import * as path from 'node:path'
+import { Section } from './settings.js'
+import { FALLBACK_IMAGE_DIMENSIONS, QUERY_STRING_KEYS } from './constants.js'
+import {
+    collectNestedAlbums,
+    getImageMetadata,
+    getImageUrl,
+    getLargestCacheSize,
+    getMediaType,
+    getPageCount,
+    getPageImagePaths,
+    getPhotoPageUrl,
+    getSectionPageUrl,
+    getSettings,
+    getSiteUrl,
+    resolvePhotoSection,
+} from './service.js'
+import {
+    getSrcset,
+    PhotoView,
+    SearchFieldView,
+    SectionView,
+    toImageView,
+    toSearchResultsView,
+    toSectionView,
+    trimSectionTitle,
+} from './views.js'
+import { formatDuration, formatExposure, ImageMetadata } from './image_metadata.js'
+import { getVideoContentType } from './media.js'
+import { collectListedSections, collectVisibleSections, getSectionVisibility } from './access.js'
+import {
+    formatSearchQuery,
+    getSearchImagesPageUrl,
+    getSearchPageUrl,
+    isEmptySearchQuery,
+    search,
+    SearchQuery,
+    SearchResults,
+} from './search.js'
+import { MetaTag, renderTemplate } from './theme.js'
+
+/**
+ * Properties of a page shared on social networks (OpenGraph and Twitter cards).
+ */
+interface SocialCard {
+    title: string
+    description: string
+
+    // Relative URLs of the page and of its preview image
+    url: string
+    image?: string
+}
+
+/**
+ * A page of images, loaded by the webpage while scrolling.
+ */
+export interface ImagesPage {
+    // The page number (starting from 1) and the number of pages of the section
+    page: number
+    pageCount: number
+
+    // The relative paths to the images of the page
+    images: string[]
+
+    // The image elements, to be appended to the images container
+    html: string
+}
+
+/**
+ * A page of the images of a section, loaded by the webpage while scrolling.
+ */
+export interface SectionImagesPage extends ImagesPage {
+    // The name of the section
+    section: string
+}
+
+/**
+ * Renders the page of an image: the image itself, its metadata, and the links to the previous and
+ * next images of its section.
+ *
+ * @param {string} imagePath - The relative path to the image within the gallery directory.
+ * @param {string} [sectionName] - The section to navigate. By default, the first section including
+ * the image (the featured section is only used if no other section includes the image).
+ * @param {Map<string, Section>} [sections] - The sections the visitor can see (default: the
+ * sections that are not protected).
+ * @returns {string | undefined} The HTML page, or undefined if the image is not in the gallery or
+ * the visitor cannot see it.
+ */
+export function renderPhotoPage(
+    imagePath: string,
+    sectionName?: string,
+    sections: Map<string, Section> = collectVisibleSections(),
+): string | undefined {
+    const resolvedSectionName: string | undefined
+        = resolvePhotoSection(sections, imagePath, sectionName)
+    if (resolvedSectionName === undefined) {
+        return undefined
+    }
+
+    const section: Section = sections.get(resolvedSectionName) as Section
+    const metadata: ImageMetadata | undefined = getImageMetadata(imagePath)
+    const size: string = getLargestCacheSize()
+    const width: number = metadata?.width ?? FALLBACK_IMAGE_DIMENSIONS.width
+    const height: number = metadata?.height ?? FALLBACK_IMAGE_DIMENSIONS.height
+    const index: number = section.includes.indexOf(imagePath)
+    const previousImagePath: string | undefined = section.includes[index - 1]
+    const nextImagePath: string | undefined = section.includes[index + 1]
+    const photo: PhotoView = {
+        type: getMediaType(imagePath),
+        contentType: getVideoContentType(imagePath),
+        src: getImageUrl(imagePath, size),
+        originalUrl: getImageUrl(imagePath),
+        srcset: getSrcset(imagePath, width, height),
+        alt: path.basename(imagePath),
+        width,
+        height,
+        previousUrl: previousImagePath && getPhotoPageUrl(previousImagePath, resolvedSectionName),
+        nextUrl: nextImagePath && getPhotoPageUrl(nextImagePath, resolvedSectionName),
+        section: {
+            title: trimSectionTitle(section.title),
+            url: getSectionPageUrl(resolvedSectionName),
+        },
+        metadata: getMetadataRows(metadata),
+    }
+
+    const title: string = `${path.basename(imagePath)} - ${trimSectionTitle(section.title)}`
+    return renderTemplate('photo', {
+        page: {
+            title,
+            meta: getSocialCardTags({
+                title,
+                description: getMetadataRows(metadata).map(([, value]) => value).join(' · ')
+                    || section.description,
+                url: getPhotoPageUrl(imagePath),
+                image: getImageUrl(imagePath, getSettings()['cache-sz'][0]),
+            }),
+        },
+        photo,
+    })
+}
+
+/**
+ * Renders the page of a section: its header and the first page of its images.
+ *
+ * @param {string} sectionName - The name of the section.
+ * @param {Map<string, Section>} [sections] - The sections the visitor can see (default: the
+ * sections that are not protected).
+ * @returns {string | undefined} The HTML page, or undefined if the section does not exist or the
+ * visitor cannot see it.
+ */
+export function renderSectionPage(
+    sectionName: string,
+    sections: Map<string, Section> = collectVisibleSections(),
+): string | undefined {
+    const section: Section | undefined = sections.get(sectionName)
+    if (section === undefined) {
+        return undefined
+    }
+
+    const coverImagePath: string | undefined = section.includes[0]
+    return renderTemplate('section', {
+        page: {
+            title: trimSectionTitle(section.title),
+            noIndex: getSectionVisibility(section) !== 'public',
+            meta: getSocialCardTags({
+                title: trimSectionTitle(section.title),
+                description: section.description,
+                url: getSectionPageUrl(sectionName),
+                image: coverImagePath
+                    && getImageUrl(coverImagePath, getSettings()['cache-sz'][0]),
+            }),
+        },
+        section: toSectionView(section, sectionName, collectNestedAlbums(sections, sectionName)),
+    })
+}
+
+/**
+ * Renders the page of a protected section for the visitors who did not unlock it: a form asking
+ * for the password of the section, posted to the page itself. Nothing but the title of the
+ * section is shown.
+ *
+ * @param {string} sectionName - The name of the section.
+ * @param {Section} section - The section.
+ * @param {string} [message] - A message shown below the form, e.g., when the password is wrong.
+ * @returns {string} The HTML page.
+ */
+export function renderLockedSectionPage(
+    sectionName: string,
+    section: Section,
+    message?: string,
+): string {
+    return renderTemplate('locked_section', {
+        page: { title: trimSectionTitle(section.title), noIndex: true },
+        section: { title: section.title, url: getSectionPageUrl(sectionName) },
+        message,
+    })
+}
+
+/**
+ * Renders a page of the images of a section.
+ *
+ * @param {string} sectionName - The name of the section.
+ * @param {number} page - The page number, starting from 1.
+ * @param {Map<string, Section>} [sections] - The sections the visitor can see (default: the
+ * sections that are not protected).
+ * @returns {SectionImagesPage | undefined} The page, or undefined if the section does not exist,
+ * the visitor cannot see it, or the page is out of range.
+ */
+export function renderSectionImagesPage(
+    sectionName: string,
+    page: number,
+    sections: Map<string, Section> = collectVisibleSections(),
+): SectionImagesPage | undefined {
+    const section: Section | undefined = sections.get(sectionName)
+    if (section === undefined) {
+        return undefined
+    }
+
+    const imagesPage: ImagesPage | undefined = renderImagesPage(section, page, sectionName)
+    return imagesPage && { section: sectionName, ...imagesPage }
+}
+
+/**
+ * Renders the page of a search: the search form, then the matching sections and images.
+ *
+ * @param {SearchQuery} query - The search query. Only the form is shown if it has no criteria.
+ * @returns {string} The HTML page.
+ */
+export function renderSearchPage(query: SearchQuery): string {
+    let results: SectionView | undefined
+    if (!isEmptySearchQuery(query)) {
+        const searchResults: SearchResults = search(query)
+        const listedSections: Map<string, Section> = collectListedSections()
+        results = toSearchResultsView(
+            {
+                title: 'Search results',
+                description: `${searchResults.images.length} images`
+                    + (searchResults.sections.length > 0
+                        ? `, ${searchResults.sections.length} sections`
+                        : ''),
+                includes: searchResults.images,
+            },
+            new Map(searchResults.sections.map(sectionName =>
+                [sectionName, listedSections.get(sectionName) as Section])),
+            getSearchPageUrl(query),
+            getSearchImagesPageUrl(query))
+    }
+
+    return renderTemplate('search', {
+        page: {
+            title: query.text === undefined ? 'Search' : `${query.text} - Search`,
+            noIndex: true,
+        },
+        fields: getSearchFields(query),
+        results,
+    })
+}
+
+/**
+ * Renders a page of the images of a search.
+ *
+ * @param {SearchQuery} query - The search query.
+ * @param {number} page - The page number, starting from 1.
+ * @returns {ImagesPage | undefined} The page, or undefined if the page is out of range.
+ */
+export function renderSearchImagesPage(query: SearchQuery, page: number): ImagesPage | undefined {
+    return renderImagesPage(
+        { title: '', description: '', includes: search(query).images }, page)
+}
+
+/**
+ * Renders a page of the images of a section, or of the results of a search.
+ */
+function renderImagesPage(
+    section: Section,
+    page: number,
+    sectionName?: string,
+): ImagesPage | undefined {
+    if (page < 1 || page > getPageCount(section)) {
+        return undefined
+    }
+
+    const imagePaths: string[] = getPageImagePaths(section, page)
+    const size: string = getSettings()['cache-sz'][0]
+    return {
+        page,
+        pageCount: getPageCount(section),
+        images: imagePaths,
+        html: imagePaths
+            .map(imagePath => renderTemplate('partials/image',
+                { image: toImageView(imagePath, size, sectionName) }))
+            .join(''),
+    }
+}
+
+/**
+ * Lists the fields of the search form, filled with the criteria of the current search.
+ */
+function getSearchFields(query: SearchQuery): SearchFieldView[] {
+    // The fields are named after the query string of the search
+    const values: URLSearchParams = new URLSearchParams(formatSearchQuery(query))
+    const fields: [string, string, SearchFieldView['type'], string?][] = [
+        [QUERY_STRING_KEYS.TEXT, 'Words', 'search'],
+        [QUERY_STRING_KEYS.FROM, 'From', 'text', 'yyyy-mm-dd'],
+        [QUERY_STRING_KEYS.TO, 'To', 'text', 'yyyy-mm-dd'],
+        [QUERY_STRING_KEYS.CAMERA, 'Camera', 'text'],
+        [QUERY_STRING_KEYS.LENS, 'Lens', 'text'],
+        [QUERY_STRING_KEYS.FOCAL_LENGTH, 'Focal length (mm)', 'text', '24-70'],
+    ]
+
+    return fields.map(([name, label, type, placeholder]) =>
+        ({ name, label, type, placeholder, value: values.get(name) ?? '' }))
+}
+
+/**
+ * Lists the metadata of an image as human-readable terms and values.
+ */
+function getMetadataRows(metadata?: ImageMetadata): [string, string][] {
+    if (metadata === undefined) {
+        return []
+    }
+
+    const rows: [string, string | undefined][] = [
+        ['Date', metadata.dateTaken?.replace('T', ' ')],
+        ['Camera', metadata.camera],
+        ['Lens', metadata.lens],
+        ['Exposure', formatExposure(metadata)],
+        ['Duration', metadata.duration === undefined
+            ? undefined
+            : formatDuration(metadata.duration)],
+        ['Dimensions', `${metadata.width} × ${metadata.height}`],
+    ]
+
+    return rows.filter((row): row is [string, string] => row[1] !== undefined)
+}
+
+/**
+ * Lists the OpenGraph and Twitter card tags of a page, so that shared links are previewed.
+ */
+function getSocialCardTags(card: SocialCard): MetaTag[] {
+    const tags: [MetaTag['attribute'], string, string | undefined][] = [
+        ['property', 'og:type', 'website'],
+        ['property', 'og:site_name',
+            getSettings().branding?.title ?? getSettings()['site-name']],
+        ['property', 'og:title', card.title],
+        ['property', 'og:description', card.description || undefined],
+        ['property', 'og:url', getSiteUrl(card.url)],
+        ['property', 'og:image', card.image && getSiteUrl(card.image)],
+        ['name', 'twitter:card', card.image ? 'summary_large_image' : 'summary'],
+        ['name', 'twitter:title', card.title],
+        ['name', 'twitter:description', card.description || undefined],
+        ['name', 'twitter:image', card.image && getSiteUrl(card.image)],
+    ]
+
+    return tags
+        .filter((tag): tag is [MetaTag['attribute'], string, string] => tag[2] !== undefined)
+        .map(([attribute, key, content]) => ({ attribute, key, content }))
+}
@@ -1,9 +1,26 @@
 import * as fs from 'node:fs'
+import * as path from 'node:path'
 import { hashSync } from 'hasha'
 import { Section, Settings } from './settings.js'
-import { SETTINGS_FILE, SITEMAP, TEMPLATE_HTML_FILE } from './constants.js'
-import { collectImagePaths, getSettings } from './service.js'
-import { JSDOM } from 'jsdom'
+import {
+    GALLERY_DIR,
+    SETTINGS_FILE,
+    TEMPLATE_DIR,
+    THEMES_DIR,
+    UPLOAD_TEMPORARY_FILE_PATTERN,
+} from './constants.js'
+import {
+    collectImagePaths,
+    collectNestedAlbums,
+    computeETag,
+} from './service.js'
+import { toSectionView } from './views.js'
+import { renderTemplate } from './theme.js'
+import { FileWatcher } from './file_watcher.js'
+import { renderSitemaps } from './sitemap.js'
+import { collectListedSections } from './access.js'
+import { parseSettings, SettingsValidationError } from './settings_validator.js'
+import { logger } from './logger.js'
 
 /**
  * Abstract class defining a resource monitor that manages a resource and its content.
@@ -23,6 +40,18 @@ export abstract class ResourceMonitor<R, C> {
      */
     protected content ?: C
 
+    /**
+     * Store the time the content last changed, with the precision of HTTP dates (seconds).
+     * @protected
+     */
+    protected lastModified ?: Date
+
+    /**
+     * Store the entity tag of the content, computed on demand.
+     * @private
+     */
+    private etag ?: string
+
     /**
      * Abstract method to compute the hash of a given resource.
      * @param {R} resource - The resource for which to compute the hash.
@@ -58,12 +87,36 @@ export abstract class ResourceMonitor<R, C> {
             const newHash = this.computeHash(resource)
             if (newHash !== this.hash) {
                 this.hash = newHash
-                this.content = this.transformResourceToContent(resource)
+                const content: C = this.transformResourceToContent(resource)
+                if (content !== this.content) {
+                    this.content = content
+                    this.lastModified = new Date(Math.floor(Date.now() / 1000) * 1000)
+                    this.etag = undefined
+                }
             }
         }
 
         return this.content as C
     }
+
+    /**
+     * Gets the entity tag of the content, for HTTP caching. It only changes when the content does.
+     * @returns {string} The strong entity tag, including the quotes.
+     */
+    public getETag(): string {
+        const content: C = this.getContent(false)
+        this.etag ??= computeETag(typeof content === 'string' ? content : JSON.stringify(content))
+        return this.etag as string
+    }
+
+    /**
+     * Gets the time the content last changed, for HTTP caching.
+     * @returns {Date} The last modification time.
+     */
+    public getLastModified(): Date {
+        this.getContent(false)
+        return this.lastModified as Date
+    }
 }
 
 export class FileMonitor<C = string> extends ResourceMonitor<string, C> {
@@ -71,7 +124,7 @@ export class FileMonitor<C = string> extends ResourceMonitor<string, C> {
      * Constructor for FileHashMonitor.
      * @param {string} filePath - The path to the file whose hash is to be monitored.
      */
-    public constructor(private readonly filePath: string) {
+    public constructor(protected readonly filePath: string) {
         super()
     }
 
@@ -103,251 +156,167 @@ export class FileMonitor<C = string> extends ResourceMonitor<string, C> {
 }
 
 /**
- * Class that monitors the hash of settings defined in a file.
+ * Abstract class defining a resource monitor backed by file watchers. The resource is the combined
+ * version of the watchers, so checking for updates never touches the disk: the content is only
+ * transformed again after a watched file has changed.
+ * @template C Type parameter for the content derived from the watched files.
  */
-export class SettingsMonitor extends FileMonitor<Settings> {
-    public constructor() {
-        super(SETTINGS_FILE)
+export abstract class WatchedResourceMonitor<C> extends ResourceMonitor<number, C> {
+    /**
+     * @param {FileWatcher[]} watchers - The watchers of the files the content is derived from.
+     */
+    protected constructor(private readonly watchers: FileWatcher[]) {
+        super()
     }
 
     /**
-     * Parses the settings string into a Settings object.
-     * @param {string} settingsString - The settings as a string.
-     * @returns {Settings} The parsed Settings object.
+     * Uses the version of the watched files as the hash.
+     * @param {number} resource - The combined version of the watchers.
+     * @returns {string} The version as a string.
      */
-    public override transformResourceToContent(settingsString: string): Settings {
-        return JSON.parse(settingsString)
+    protected override computeHash(resource: number): string {
+        return `${resource}`
     }
-}
 
-/**
- * The resources for the WebpageHashMonitor to monitor.
- */
-export interface WebpageHashMonitorResource {
-    settings: string
-    indexHtml: string
-    imagePaths: string
+    /**
+     * Combines the versions of the watchers. Versions only increase, so the sum changes whenever
+     * any watched file changes.
+     * @returns {number} The combined version.
+     */
+    public override getResource(): number {
+        return this.watchers.reduce((version, watcher) => version + watcher.version, 0)
+    }
 }
 
 /**
- * Class that monitors the hash of the following resources: settings, index.html (template), and the
- * image paths in the `gallery` directory.
+ * Class that monitors the settings defined in a file. The settings are validated on every change;
+ * if they are invalid, the issues are logged and the last valid settings are kept.
  */
-export class WebpageResourceMonitor extends ResourceMonitor<WebpageHashMonitorResource, string> {
-    private static readonly RERENDER_INTERVAL = 1000
-
-    private rerenderReady: boolean = true
-
-    constructor() {
-        super()
-
-        // To avoid bouncing caused by repeating requests within a short period, the webpage
-        // rerendering has a 1000ms cooldown
-        setInterval(() => {
-            this.rerenderReady = true
-        }, WebpageResourceMonitor.RERENDER_INTERVAL)
-    }
-
-    public override computeHash(resource: WebpageHashMonitorResource): string {
-        return hashSync(Object.entries(resource).map(([key, value]) => `${key}:${value}`))
-    }
-
-    public override getResource(): WebpageHashMonitorResource {
-        return {
-            settings: settingsMonitor.getResource(),
-            indexHtml: fs.readFileSync(TEMPLATE_HTML_FILE).toString('utf-8'),
-            imagePaths: collectImagePaths().join(';'),
-        }
+export class SettingsMonitor extends WatchedResourceMonitor<Settings> {
+    /**
+     * @param {string} filePath - The path to the settings file.
+     * @param {FileWatcher} settingsWatcher - The watcher of the settings file.
+     * @param {FileWatcher} galleryWatcher - The watcher of the gallery, whose files the sections
+     * are checked against.
+     */
+    public constructor(
+        private readonly filePath: string,
+        settingsWatcher: FileWatcher,
+        private readonly galleryWatcher: FileWatcher,
+    ) {
+        super([settingsWatcher])
     }
 
-    public override getContent(checkUpdate: boolean = true): string {
-        if (checkUpdate && this.rerenderReady) {
-            this.rerenderReady = false
-            return super.getContent()
+    /**
+     * Reads, parses and validates the settings file into a Settings object.
+     * @returns {Settings} The parsed Settings object, or the last valid one if the settings are
+     * invalid.
+     * @throws {SettingsValidationError} If the settings are invalid and there are no last valid
+     * settings to fall back to.
+     */
+    public override transformResourceToContent(): Settings {
+        const galleryFilePaths: Set<string> = new Set(this.galleryWatcher.getFilePaths())
+        const { settings, issues } = parseSettings(
+            fs.readFileSync(this.filePath).toString('utf-8'),
+            imagePath => galleryFilePaths.has(path.normalize(imagePath)))
+        if (settings !== undefined) {
+            logger.configure(settings.logging)
+            issues.forEach(issue =>
+                logger.warn(issue.message, { setting: issue.path || undefined }))
+            return settings
         }
 
-        return super.getContent(false)
-    }
-
-    public override transformResourceToContent(): string {
-        // To avoid making the project complicated, we shouldn't introduce a log library or system
-        // for the time being
-        console.log(
-            '[' + new Date().toISOString() +
-            '] Modification detected. Rendering HTML content...')
-
-        const settings: Settings = settingsMonitor.getContent()
-        const featured: Settings['featured'] = settings.featured
-        const sections: Settings['sections'] = settings.sections
-        const imagePaths: string[] = collectImagePaths()
-        const imagePathSet: Set<string> = new Set() // Images not in featured and any sections
-        featured.forEach(feature => imagePathSet.add(feature))
-
-        const dom: JSDOM = this.getTemplateHtmlDom()
-        const document: Document = dom.window.document
-        const $gallery = document.getElementById('gallery') as HTMLElement
-
-        // Feature section is always at the top
-        $gallery.appendChild(this.create$section(document, {
-            title: 'Featured:',
-            description: '',
-            includes: featured,
-        } as Section, 'featured', imagePaths))
-
-        for (const [sectionName, section] of Object.entries(sections)) {
-            $gallery.appendChild(this.create$section(document, section, sectionName, imagePaths))
-            section.includes.forEach(image => imagePathSet.add(image))
+        if (this.content === undefined) {
+            throw new SettingsValidationError(this.filePath, issues)
         }
 
-        // Global section includes all the images that are not in any sections (including the
-        // featured section)
-        $gallery.appendChild(this.create$section(document, {
-            title: 'Photos:',
-            description: '',
-            includes: collectImagePaths().filter(imagePath => !imagePathSet.has(imagePath)),
-        } as Section, 'global', imagePaths))
-
-        return dom.serialize()
-    }
-
-    private getTemplateHtmlDom(): JSDOM {
-        const templateHtmlContent: string = fs.readFileSync(TEMPLATE_HTML_FILE).toString('utf-8')
-        return new JSDOM(templateHtmlContent)
-    }
-
-    private create$section(
-        document: Document,
-        section: Section,
-        sectionName: string,
-        imagePaths: string[],
-    ): HTMLElement {
-        const settings = settingsMonitor.getContent(false)
-        const defaultSize = settings['cache-sz'][0]
-
-        const $section = document.createElement('div')
-        $section.id = `${sectionName}-section`
-        $section.appendChild(
-            this.create$sectionHeaderWrapper(document, section.title, section.description))
-        $section.appendChild(
-            this.create$sectionImages(document, section.includes, defaultSize, sectionName, imagePaths))
-
-        return $section
-    }
-
-    private create$sectionHeaderWrapper(
-        document: Document,
-        title: Section['title'],
-        description: Section['description'],
-    ): HTMLDivElement {
-        const $sectionHeaderWrapper: HTMLElement = document.createElement('div')
-        $sectionHeaderWrapper.appendChild(this.create$sectionTitle(document, title))
-        $sectionHeaderWrapper.appendChild(this.create$sectionDescription(document, description))
-        $sectionHeaderWrapper.className = 'section-header-wrapper'
-
-        return $sectionHeaderWrapper as HTMLDivElement
-    }
-
-    private create$sectionTitle(document: Document, title: Section['title']): HTMLDivElement {
-        const $sectionTitle: HTMLElement = document.createElement('div')
-        $sectionTitle.textContent = title
-        $sectionTitle.className = 'section-title'
-
-        return $sectionTitle as HTMLDivElement
-    }
-
-    private create$sectionDescription(
-        document: Document,
-        description: Section['description'],
-    ): HTMLDivElement {
-        const $sectionDescription: HTMLElement = document.createElement('div')
-        $sectionDescription.textContent = description
-        $sectionDescription.className = 'section-description'
-
-        return $sectionDescription as HTMLDivElement
+        logger.error(`${new SettingsValidationError(this.filePath, issues).message}\n`
+            + 'The last valid settings are kept.')
+        return this.content
     }
+}
 
-    private create$sectionImages(
-        document: Document,
-        imagePaths: string[],
-        imageSize: string,
-        sectionName: string,
-        existedImagePaths: string[],
-    ): HTMLDivElement {
-        const $sectionImages: HTMLDivElement = document.createElement('div')
-        $sectionImages.classList.add('section-images')
-        $sectionImages.classList.add(`${sectionName}-gallery`)
-
-        for (const imagePath of imagePaths.filter(image => existedImagePaths.includes(image))) {
-            $sectionImages.appendChild(this.create$image(document, imagePath, imageSize))
-        }
-
-        return $sectionImages as HTMLDivElement
+/**
+ * Class that monitors the following resources: settings, templates, themes, and the files in the
+ * `gallery` directory. The content is the webpage, rendered from the `index` template.
+ */
+export class WebpageResourceMonitor extends WatchedResourceMonitor<string> {
+    /**
+     * @param {FileWatcher} settingsWatcher - The watcher of the settings file.
+     * @param {FileWatcher} galleryWatcher - The watcher of the gallery.
+     */
+    public constructor(settingsWatcher: FileWatcher, galleryWatcher: FileWatcher) {
+        super([settingsWatcher, templateWatcher, themeWatcher, galleryWatcher])
     }
 
-    private create$image(document: Document, imagePath: string, size: string): HTMLDivElement {
-        const $img: HTMLImageElement = document.createElement('img')
-        $img.className = 'lozad'
-        $img.src = `image/${imagePath}?sz=${size}`
-        $img.setAttribute('data-src', $img.src)
-
-        const $a: HTMLAnchorElement = document.createElement('a')
-        $a.className = 'section-image'
-        $a.href = `image/${imagePath}`
-        $a.setAttribute('data-pswp-width', '6000')
-        $a.setAttribute('data-pswp-height', '3376')
-        $a.setAttribute('data-pswp-src', `image/${imagePath}`)
-        $a.setAttribute('target', '_blank')
-        $a.appendChild($img)
-
-        const $image: HTMLDivElement = document.createElement('div')
-        $image.className = 'img-hover'
-        $image.appendChild($a)
-
-        return $image as HTMLDivElement
+    public override transformResourceToContent(): string {
+        logger.info('Modification detected. Rendering HTML content...')
+
+        // Reload the settings if they have changed
+        settingsMonitor.getContent()
+
+        // Nested albums are linked from their parent album instead. Unlisted and protected sections
+        // are left out, as the webpage is the same for every visitor
+        const sections: Map<string, Section> = collectListedSections()
+        return renderTemplate('index', {
+            page: {},
+            sections: [...sections]
+                .filter(([, section]) => section.parent === undefined)
+                .map(([sectionName, section]) => toSectionView(
+                    section, sectionName, collectNestedAlbums(sections, sectionName))),
+        })
     }
 }
 
-export interface SitemapResource {
-    imagePaths: string
-}
-
-export class SitemapResourceMonitor extends ResourceMonitor<SitemapResource, string> {
-    private static readonly SEPARATOR = ';'
-
-    protected computeHash(resource: SitemapResource): string {
-        return hashSync(Object.entries(resource).map(([key, value]) => `${key}:${value}`))
+/**
+ * Class that monitors the settings and the files in the `gallery` directory, for the sitemap. The
+ * content is the list of the sitemap documents (see `renderSitemaps`).
+ */
+export class SitemapResourceMonitor extends WatchedResourceMonitor<string[]> {
+    /**
+     * @param {FileWatcher} settingsWatcher - The watcher of the settings file.
+     * @param {FileWatcher} galleryWatcher - The watcher of the gallery.
+     */
+    public constructor(settingsWatcher: FileWatcher, galleryWatcher: FileWatcher) {
+        super([settingsWatcher, galleryWatcher])
     }
 
-    public getResource(): SitemapResource {
-        return {
-            imagePaths: collectImagePaths().join(SitemapResourceMonitor.SEPARATOR),
-        }
+    public override transformResourceToContent(): string[] {
+        return renderSitemaps()
     }
+}
 
-    public transformResourceToContent(resource: SitemapResource): string {
-        const nowDate: string = new Date(Date.now()).toISOString().split('T')[0]
-        const siteName: string = getSettings()['site-name']
-        let sitemapXml: string =
-            `<?xml version="1.0" encoding="UTF-8"?>\n` +
-            `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`
-        SITEMAP.forEach(function(url) {
-            const loc = `https://${siteName}/${url}`
-            sitemapXml += `<url>\n<loc>${loc}</loc>\n<lastmod>${nowDate}</lastmod>\n</url>\n`
-        })
+export const templateWatcher = new FileWatcher(TEMPLATE_DIR)
+export const themeWatcher = new FileWatcher(THEMES_DIR)
 
-        // Add image urls
-        resource.imagePaths.split(SitemapResourceMonitor.SEPARATOR).forEach((imagePath) => {
-            const url = `image/${imagePath}`
-            const loc = `https://${siteName}/${url}`
-            sitemapXml += `<url>\n<loc>${loc}</loc>\n<lastmod>${nowDate}</lastmod>\n</url>\n`
-        })
+// Watchers and monitors of the open gallery and of its settings file (see watchGallery)
+export let galleryWatcher: FileWatcher
+export let settingsWatcher: FileWatcher
+export let settingsMonitor: SettingsMonitor
+export let webpageResourceMonitor: WebpageResourceMonitor
+export let sitemapResourceMonitor: SitemapResourceMonitor
 
-        sitemapXml += '</urlset>'
-
-        return sitemapXml
-    }
+/**
+ * Watches a gallery and its settings file, in place of the ones watched so far. The watchers start
+ * on first access.
+ *
+ * @param {string} galleryDir - The directory of the gallery.
+ * @param {string} settingsFile - The path to the settings file.
+ */
+export function watchGallery(galleryDir: string, settingsFile: string): void {
+    galleryWatcher?.stop()
+    settingsWatcher?.stop()
+
+    galleryWatcher = new FileWatcher(galleryDir, {
+        filter: relativePath => !UPLOAD_TEMPORARY_FILE_PATTERN.test(path.basename(relativePath)),
+    })
+    settingsWatcher = new FileWatcher(path.dirname(settingsFile), {
+        recursive: false,
+        filter: relativePath => relativePath === path.basename(settingsFile),
+    })
+    settingsMonitor = new SettingsMonitor(settingsFile, settingsWatcher, galleryWatcher)
+    webpageResourceMonitor = new WebpageResourceMonitor(settingsWatcher, galleryWatcher)
+    sitemapResourceMonitor = new SitemapResourceMonitor(settingsWatcher, galleryWatcher)
 }
 
-export const settingsMonitor = new SettingsMonitor()
-export const webpageResourceMonitor = new WebpageResourceMonitor()
-export const sitemapResourceMonitor = new SitemapResourceMonitor()
+watchGallery(GALLERY_DIR, SETTINGS_FILE)
@@ -1,17 +1,439 @@
-import { compressAndGetImageCachePath, getSettings } from './service.js'
-import { CACHE_DIR, GALLERY_DIR, QUERY_STRING_KEYS, TEMPLATE_DIR } from './constants.js'
+import * as fs from 'node:fs'
+import {
+    checkHealth,
+    collectSections,
+    compressAndGetImageCachePath,
+    computeETag,
+    getBasePath,
+    getCacheManifestEntry,
+    getGalleryPaths,
+    getImageVersion,
+    getMediaType,
+    getSectionPageUrl,
+    getSettings,
+    getSiteUrl,
+    HealthStatus,
+    isValidImagePath,
+    negotiateImageFormat,
+    resolveImagePath,
+} from './service.js'
+import {
+    ACCESS_COOKIE_NAME,
+    ADMIN_API_PATH,
+    DEFAULT_SHARE_LINK_DURATION,
+    IMMUTABLE_CACHE_CONTROL,
+    PRIVATE_IMMUTABLE_CACHE_CONTROL,
+    PRIVATE_REVALIDATE_CACHE_CONTROL,
+    QUERY_STRING_KEYS,
+    REST_API_PATH,
+    REVALIDATE_CACHE_CONTROL,
+} from './constants.js'
 import send from 'koa-send'
+import { Context } from 'koa'
 import { sitemapResourceMonitor, webpageResourceMonitor } from './resource_monitor.js'
 import KoaRouter from 'koa-router'
+import { ImageProcessingError, OutputFormat } from './image_processor.js'
+import {
+    ImagesPage,
+    renderLockedSectionPage,
+    renderPhotoPage,
+    renderSearchImagesPage,
+    renderSearchPage,
+    renderSectionImagesPage,
+    renderSectionPage,
+    SectionImagesPage,
+} from './pages.js'
+import { CacheManifestEntry } from './cache_manifest.js'
+import { renderRobotsTxt } from './sitemap.js'
+import {
+    ApiImage,
+    ApiSectionDetails,
+    getApiCacheSizes,
+    getApiFeaturedImages,
+    getApiImage,
+    getApiImages,
+    getApiSearchResults,
+    getApiSection,
+    getApiSections,
+} from './api.js'
+import {
+    addFeaturedImage,
+    addSectionImages,
+    createSection,
+    deleteSection,
+    getAdminGallery,
+    isAuthorized,
+    removeFeaturedImage,
+    removeSectionImage,
+    setFeaturedImages,
+    SettingsUpdateError,
+    updateSection,
+} from './admin.js'
+import { AdminCredentials, Section } from './settings.js'
+import { getUploadMaxSize, ingestUploads, UploadError, UploadResult } from './uploads.js'
+import {
+    AccessGrant,
+    collectVisibleSections,
+    createAccessToken,
+    getPasswordRetryDelay,
+    getSectionVisibility,
+    grantSectionAccess,
+    isImageProtected,
+    isImageVisible,
+    readAccessToken,
+    recordFailedPasswordAttempt,
+    unlockSection,
+} from './access.js'
+import { parseSearchQuery, SearchQuery, SearchQueryError } from './search.js'
+import {
+    getMultipartBoundary,
+    MultipartError,
+    MultipartPart,
+    parseMultipart,
+} from './multipart.js'
+import { getThemeFileRoot } from './theme.js'
+import { logger } from './logger.js'
+import { renderMetrics } from './metrics.js'
 
 export const router = new KoaRouter()
 
+// Maximum size (in bytes) of the JSON bodies of the requests to the admin API
+const MAX_JSON_BODY_SIZE = 1024 * 1024
+
+// Maximum size (in bytes) of the body of the password form of the protected sections
+const MAX_FORM_BODY_SIZE = 16 * 1024
+
+// Room (in bytes) left in the multipart bodies of the uploads for the headers of the parts and the
+// other fields
+const MULTIPART_BODY_OVERHEAD = 64 * 1024
+
+// Delay (in milliseconds) before answering a wrong password. It slows down the guessing of a single
+// client, while the limits of the wrong passwords stop the guessing of parallel requests
+const WRONG_PASSWORD_DELAY = 1000
+
+/**
+ * Validators of a response, which clients send back in conditional requests.
+ */
+interface Validators {
+    // The entity tag, including the quotes
+    etag: string
+
+    // The last time the response changed, if known
+    lastModified?: Date
+}
+
+/**
+ * Sets the caching headers of a response. If the copy of the client is still fresh, the response
+ * becomes a 304 Not Modified, and the caller must not set the body.
+ *
+ * @param {Context} ctx - The context of the request.
+ * @param {string} cacheControl - The Cache-Control header.
+ * @param {Validators} validators - The validators of the response.
+ * @returns {boolean} True if the copy of the client is still fresh.
+ */
+function isNotModified(ctx: Context, cacheControl: string, validators: Validators): boolean {
+    ctx.set('Cache-Control', cacheControl)
+    ctx.etag = validators.etag
+    if (validators.lastModified !== undefined) {
+        ctx.lastModified = validators.lastModified
+    }
+
+    // Freshness is only checked for successful responses
+    ctx.status = 200
+    if (ctx.fresh) {
+        ctx.status = 304
+        return true
+    }
+
+    return false
+}
+
+/**
+ * Sends a file with caching headers, or a 304 Not Modified if the copy of the client is still
+ * fresh. Unless given, the validators are derived from the size and the modification time of the
+ * file.
+ *
+ * @param {Context} ctx - The context of the request.
+ * @param {string} root - The directory of the file.
+ * @param {string} file - The path to the file, relative to the directory.
+ * @param {string} cacheControl - The Cache-Control header.
+ * @param {Validators} [validators] - The validators of the file.
+ */
+async function sendFile(
+    ctx: Context,
+    root: string,
+    file: string,
+    cacheControl: string,
+    validators?: Validators,
+): Promise<void> {
+    ctx.set('Cache-Control', cacheControl)
+    if (validators !== undefined) {
+        ctx.etag = validators.etag
+        if (validators.lastModified !== undefined) {
+            ctx.lastModified = validators.lastModified
+        }
+    }
+
+    // koa-send decodes the path as a URL path: escape the percent signs of the file names
+    await send(ctx, file.replace(/%/g, '%25'), {
+        root,
+        setHeaders: (res, _, stats: fs.Stats) => {
+            if (!res.hasHeader('ETag')) {
+                res.setHeader('ETag', `W/"${stats.size.toString(36)}-${
+                    Math.floor(stats.mtimeMs).toString(36)}"`)
+            }
+        },
+    })
+
+    // koa-send does not handle conditional requests: drop the file if the client has it already
+    if (ctx.fresh) {
+        (ctx.body as fs.ReadStream).destroy()
+        ctx.status = 304
+    }
+}
+
+/**
+ * Derives the validators of a cached image from its record: the cached image only changes when
+ * the original image does.
+ */
+function getCachedImageValidators(entry: CacheManifestEntry): Validators {
+    const version: string = Math.floor(entry.sourceMtimeMs).toString(36)
+    const format: string = entry.format ?? 'original'
+    return {
+        etag: `"${entry.size}-${format}-${version}-${entry.bytes.toString(36)}"`,
+        lastModified: new Date(entry.sourceMtimeMs),
+    }
+}
+
+/**
+ * Sends a value as JSON, or a 304 Not Modified if the copy of the client is still fresh.
+ */
+function sendJson(
+    ctx: Context,
+    value: unknown,
+    cacheControl: string = REVALIDATE_CACHE_CONTROL,
+): void {
+    const body: string = JSON.stringify(value)
+    if (isNotModified(ctx, cacheControl, { etag: computeETag(body) })) {
+        return
+    }
+
+    ctx.response.type = 'json'
+    ctx.response.body = body
+}
+
+/**
+ * Gets the protected sections unlocked by the visitor, from the session cookie.
+ *
+ * @param {Context} ctx - The context of the request.
+ * @returns {AccessGrant[]} The valid access grants of the visitor.
+ */
+function getAccessGrants(ctx: Context): AccessGrant[] {
+    return readAccessToken(ctx.cookies.get(ACCESS_COOKIE_NAME))
+}
+
+/**
+ * Gets the names of the protected sections unlocked by the visitor, from the session cookie.
+ */
+function getUnlockedSectionNames(ctx: Context): Set<string> {
+    return new Set(getAccessGrants(ctx).map(grant => grant.section))
+}
+
+/**
+ * Adds an access grant to the session cookie of the visitor. The cookie lasts as long as its
+ * longest grant.
+ */
+function saveAccessGrant(ctx: Context, grant: AccessGrant): void {
+    const grants: AccessGrant[] = [
+        ...getAccessGrants(ctx).filter(otherGrant => otherGrant.section !== grant.section),
+        grant,
+    ]
+    ctx.cookies.set(ACCESS_COOKIE_NAME, createAccessToken(grants), {
+        expires: new Date(Math.max(...grants.map(otherGrant => otherGrant.expires))),
+        path: getBasePath(),
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: ctx.secure,
+    })
+}
+
+/**
+ * Reads the JSON body of a request.
+ *
+ * @param {Context} ctx - The context of the request.
+ * @returns {Promise<unknown>} A promise resolving to the parsed body.
+ */
+async function readJsonBody(ctx: Context): Promise<unknown> {
+    // Requiring the JSON type also prevents HTML forms of other websites from posting requests
+    if (!ctx.is('application/json')) {
+        ctx.throw(415, 'The body must be JSON (Content-Type: application/json)')
+    }
+
+    const body: Buffer = await readBody(ctx, MAX_JSON_BODY_SIZE)
+    try {
+        return JSON.parse(body.toString('utf-8'))
+    } catch (error) {
+        return ctx.throw(400, `Invalid JSON body: ${error}`)
+    }
+}
+
+/**
+ * Reads the multipart/form-data body of a request. The body is held in memory, so the images it
+ * holds must not exceed the maximum upload size together: larger uploads are split into several
+ * requests.
+ *
+ * @param {Context} ctx - The context of the request.
+ * @returns {Promise<MultipartPart[]>} A promise resolving to the parts of the body.
+ */
+async function readMultipartBody(ctx: Context): Promise<MultipartPart[]> {
+    if (!ctx.is('multipart/form-data')) {
+        ctx.throw(415, 'The body must be multipart/form-data')
+    }
+
+    const boundary: string | undefined = getMultipartBoundary(ctx.get('Content-Type'))
+    if (boundary === undefined) {
+        return ctx.throw(400, 'The multipart boundary is missing')
+    }
+
+    const body: Buffer = await readBody(ctx, getUploadMaxSize() + MULTIPART_BODY_OVERHEAD)
+    try {
+        return parseMultipart(body, boundary)
+    } catch (error) {
+        if (!(error instanceof MultipartError)) {
+            throw error
+        }
+
+        return ctx.throw(400, `Invalid multipart body: ${error.message}`)
+    }
+}
+
+/**
+ * Reads the body of a request, rejecting it as soon as it exceeds the maximum size. A body whose
+ * announced length exceeds the maximum size is rejected before it is read.
+ */
+async function readBody(ctx: Context, maxSize: number): Promise<Buffer> {
+    // The connection is closed once a body is rejected, so that the client stops sending it
+    const rejectBody = (): never => ctx.throw(413, `The body must not exceed ${maxSize} bytes`, {
+        headers: { Connection: 'close' },
+    })
+    if ((ctx.request.length ?? 0) > maxSize) {
+        return rejectBody()
+    }
+
+    // Unlike breaking a for await loop, which destroys the socket, discarding the rest of the body
+    // keeps the socket open to answer the request
+    const chunks: Buffer[] = []
+    let size: number = 0
+    const complete: boolean = await new Promise((resolve, reject) => {
+        const onData = (chunk: Buffer): void => {
+            size += chunk.length
+            if (size > maxSize) {
+                ctx.req.off('data', onData)
+                resolve(false)
+            } else {
+                chunks.push(chunk)
+            }
+        }
+        ctx.req.on('data', onData)
+        ctx.req.once('end', () => resolve(true))
+        ctx.req.once('error', reject)
+    })
+    if (!complete) {
+        return rejectBody()
+    }
+
+    return Buffer.concat(chunks)
+}
+
+/**
+ * Gets the page number given in the query string (default: 1).
+ */
+function getQueryPage(ctx: Context): number {
+    const queryPage = ctx.request.query[QUERY_STRING_KEYS.PAGE] ?? '1'
+    if (typeof queryPage !== 'string' || !/^\d+$/.test(queryPage)) {
+        ctx.throw(400, `Invalid page "${queryPage}"`)
+    }
+
+    return Number(queryPage)
+}
+
+/**
+ * Gets the search given in the query string.
+ */
+function getSearchQuery(ctx: Context): SearchQuery {
+    try {
+        return parseSearchQuery(ctx.request.query)
+    } catch (error) {
+        if (error instanceof SearchQueryError) {
+            ctx.throw(400, error.message)
+        }
+        throw error
+    }
+}
+
+/**
+ * Gets the Cache-Control header of a page: pages rendered for a visitor who unlocked protected
+ * sections may show them, so shared caches must not store them.
+ */
+function getPageCacheControl(unlockedSectionNames: Set<string>): string {
+    return unlockedSectionNames.size > 0
+        ? PRIVATE_REVALIDATE_CACHE_CONTROL
+        : REVALIDATE_CACHE_CONTROL
+}
+
+/**
+ * Sends the password form of the protected section of the route, or passes on to the next
+ * middleware if the section is not protected.
+ */
+async function sendLockedSectionPage(
+    ctx: Context,
+    next: () => Promise<unknown>,
+    message?: string,
+    status: number = 403,
+): Promise<unknown> {
+    const sectionName: string = ctx.params.name
+    const section: Section | undefined = collectSections().get(sectionName)
+    if (section === undefined || getSectionVisibility(section) !== 'protected') {
+        return next()
+    }
+
+    ctx.status = status
+    ctx.set('Cache-Control', 'no-store')
+    ctx.response.type = 'html'
+    ctx.response.body = renderLockedSectionPage(sectionName, section, message)
+}
+
+/**
+ * Sends a document of the sitemap.
+ */
+function sendSitemap(ctx: Context, index: number): void {
+    const content: string = sitemapResourceMonitor.getContent()[index]
+    if (isNotModified(ctx, REVALIDATE_CACHE_CONTROL, {
+        etag: sitemapResourceMonitor.getETag(),
+        lastModified: sitemapResourceMonitor.getLastModified(),
+    })) {
+        return
+    }
+
+    ctx.response.type = 'xml'
+    ctx.response.body = content
+}
+
 /**
  * Serves the index HTML page of the application.
  * @route
  */
 router.get('/', async (ctx) => {
-    ctx.response.body = webpageResourceMonitor.getContent(true)
+    const content: string = webpageResourceMonitor.getContent(true)
+    if (isNotModified(ctx, REVALIDATE_CACHE_CONTROL, {
+        etag: webpageResourceMonitor.getETag(),
+        lastModified: webpageResourceMonitor.getLastModified(),
+    })) {
+        return
+    }
+
+    ctx.response.type = 'html'
+    ctx.response.body = content
 })
 
 /**
@@ -20,34 +442,562 @@ router.get('/', async (ctx) => {
  */
 router.get('/(css/.*\.css)', async (ctx) => {
     const file: string = ctx.params[0]
-    await send(ctx, file, { root: TEMPLATE_DIR })
+    await sendFile(ctx, getThemeFileRoot(file), file, REVALIDATE_CACHE_CONTROL)
 })
 
 /**
  * Retrieves and sends an image based on the provided file path and optional size query parameter.
- * If the size parameter is not supported, the original image is sent.
+ * If the size parameter is not supported, the original image is sent. Compressed images are
+ * converted to the preferred output format accepted by the client, if any. RAW files and videos are
+ * compressed from their JPEG preview, and a placeholder is sent when it cannot be extracted (e.g.,
+ * without ffmpeg). Responses to URLs carrying the current version of the image (see `getImageUrl`)
+ * are cached forever. The images that only protected sections include are only sent to the
+ * visitors who unlocked one of them.
+ *
+ * Only the images of the gallery index are served: excluded files, files outside the gallery
+ * directory (e.g., through encoded ".." segments or symbolic links) and malformed paths are
+ * answered with 404 or 400.
  * @route
  */
-router.get('/image/(.*)', async (ctx) => {
+router.get('/image/(.*)', async (ctx, next) => {
     const settings = getSettings()
     const querySize: string = ctx.request.query[QUERY_STRING_KEYS.SIZE] as string
     const size: string = settings['cache-sz'].includes(querySize) ? querySize : ''
-    const imagePath: string = ctx.params[0]
+    if (!isValidImagePath(ctx.params[0])) {
+        ctx.throw(400, 'Invalid image path')
+    }
+
+    const imagePath: string | undefined = resolveImagePath(ctx.params[0])
+    if (imagePath === undefined || !isImageVisible(imagePath, getUnlockedSectionNames(ctx))) {
+        return next()
+    }
+
+    // Shared caches must not store the images of the protected sections
+    const queryVersion = ctx.request.query[QUERY_STRING_KEYS.VERSION]
+    const isPrivate: boolean = isImageProtected(imagePath)
+    const cacheControl: string = queryVersion !== undefined
+        && queryVersion === getImageVersion(imagePath)
+        ? (isPrivate ? PRIVATE_IMMUTABLE_CACHE_CONTROL : IMMUTABLE_CACHE_CONTROL)
+        : (isPrivate ? PRIVATE_REVALIDATE_CACHE_CONTROL : REVALIDATE_CACHE_CONTROL)
 
     if (size) {
-        // Send the compressed image (cache)
-        const imageCachePath: string = await compressAndGetImageCachePath(imagePath, size)
-        await send(ctx, imageCachePath, { root: CACHE_DIR })
-    } else {
-        // Send the original image
-        await send(ctx, imagePath, { root: GALLERY_DIR })
+        // Convert the image to a modern format if the client accepts it
+        const enabledFormats: OutputFormat[] = settings['output-formats'] ?? []
+        if (enabledFormats.length > 0) {
+            ctx.vary('Accept')
+        }
+        const format: OutputFormat | undefined
+            = negotiateImageFormat(ctx.get('Accept'), enabledFormats)
+
+        try {
+            // Send the compressed image (cache)
+            const imageCachePath: string
+                = await compressAndGetImageCachePath(imagePath, size, format)
+            const entry: CacheManifestEntry | undefined = getCacheManifestEntry(imageCachePath)
+            await sendFile(ctx, getGalleryPaths().cacheDir, imageCachePath, cacheControl,
+                entry && getCachedImageValidators(entry))
+            return
+        } catch (error) {
+            if (!(error instanceof ImageProcessingError)) {
+                throw error
+            }
+
+            // Fall back to the original image, or to a placeholder for the RAW files and the
+            // videos, which browsers cannot show as images
+            logger.warn('Cannot generate a cached image', { image: imagePath, size, format, error })
+            if (getMediaType(imagePath) !== 'image') {
+                await sendFile(ctx, getThemeFileRoot('placeholder.svg'), 'placeholder.svg',
+                    isPrivate ? PRIVATE_REVALIDATE_CACHE_CONTROL : REVALIDATE_CACHE_CONTROL)
+                return
+            }
+        }
+    }
+
+    // Send the original image
+    await sendFile(ctx, getGalleryPaths().galleryDir, imagePath, cacheControl)
+})
+
+/**
+ * Serves the page of an image, with the links to the previous and next images of the section given
+ * in the query string.
+ * @route
+ */
+router.get('/photo/(.*)', async (ctx, next) => {
+    const sectionName = ctx.request.query[QUERY_STRING_KEYS.SECTION]
+    const unlockedSectionNames: Set<string> = getUnlockedSectionNames(ctx)
+    const page: string | undefined = renderPhotoPage(
+        ctx.params[0],
+        typeof sectionName === 'string' ? sectionName : undefined,
+        collectVisibleSections(unlockedSectionNames))
+    if (page === undefined) {
+        return next()
+    }
+
+    if (isNotModified(ctx, getPageCacheControl(unlockedSectionNames), {
+        etag: computeETag(page),
+    })) {
+        return
+    }
+
+    ctx.response.type = 'html'
+    ctx.response.body = page
+})
+
+/**
+ * Serves the page of a section. A protected section asks for its password, unless the visitor
+ * unlocked it. A share link of a protected section unlocks it, then redirects to the page.
+ * @route
+ */
+router.get('/section/:name', async (ctx, next) => {
+    const sectionName: string = ctx.params.name
+    const token = ctx.request.query[QUERY_STRING_KEYS.ACCESS]
+    if (typeof token === 'string') {
+        const grant: AccessGrant | undefined
+            = readAccessToken(token).find(otherGrant => otherGrant.section === sectionName)
+        if (grant !== undefined) {
+            saveAccessGrant(ctx, grant)
+        }
+
+        // Drop the token from the address bar, so it is not shared along with the page
+        ctx.redirect(`${getBasePath()}${getSectionPageUrl(sectionName)}`)
+        return
+    }
+
+    const unlockedSectionNames: Set<string> = getUnlockedSectionNames(ctx)
+    const page: string | undefined
+        = renderSectionPage(sectionName, collectVisibleSections(unlockedSectionNames))
+    if (page === undefined) {
+        return sendLockedSectionPage(ctx, next)
+    }
+
+    if (isNotModified(ctx, getPageCacheControl(unlockedSectionNames), {
+        etag: computeETag(page),
+    })) {
+        return
+    }
+
+    ctx.response.type = 'html'
+    ctx.response.body = page
+})
+
+/**
+ * Unlocks a protected section with the password posted by the form of its page, then redirects to
+ * the page.
+ * @route
+ */
+router.post('/section/:name', async (ctx, next) => {
+    if (!ctx.is('application/x-www-form-urlencoded')) {
+        ctx.throw(415, 'The body must be a form (Content-Type: application/x-www-form-urlencoded)')
+    }
+
+    // Too many wrong passwords: the password is not even checked
+    const sectionName: string = ctx.params.name
+    const retryDelay: number = getPasswordRetryDelay(sectionName, ctx.ip)
+    if (retryDelay > 0) {
+        ctx.set('Retry-After', `${Math.ceil(retryDelay / 1000)}`)
+        return sendLockedSectionPage(ctx, next,
+            'Too many wrong passwords, please try again later.', 429)
+    }
+
+    const form = new URLSearchParams((await readBody(ctx, MAX_FORM_BODY_SIZE)).toString('utf-8'))
+    const grant: AccessGrant | undefined = unlockSection(sectionName, form.get('password') ?? '')
+    if (grant === undefined) {
+        recordFailedPasswordAttempt(sectionName, ctx.ip)
+        await new Promise(resolve => setTimeout(resolve, WRONG_PASSWORD_DELAY))
+        return sendLockedSectionPage(ctx, next, 'Wrong password, please try again.')
+    }
+
+    saveAccessGrant(ctx, grant)
+    ctx.status = 303
+    ctx.redirect(`${getBasePath()}${getSectionPageUrl(sectionName)}`)
+})
+
+/**
+ * Serves a page of the images of a section as JSON, for the webpage to load while scrolling. The
+ * page number is given in the query string (default: 1).
+ * @route
+ */
+router.get('/api/sections/:name', async (ctx, next) => {
+    const unlockedSectionNames: Set<string> = getUnlockedSectionNames(ctx)
+    const page: SectionImagesPage | undefined = renderSectionImagesPage(
+        ctx.params.name, getQueryPage(ctx), collectVisibleSections(unlockedSectionNames))
+    if (page === undefined) {
+        return next()
+    }
+
+    sendJson(ctx, page, getPageCacheControl(unlockedSectionNames))
+})
+
+/**
+ * Serves the search page: the search form, and the matching sections and images. The search is
+ * given in the query string (see `parseSearchQuery`).
+ * @route
+ */
+router.get('/search', async (ctx) => {
+    const page: string = renderSearchPage(getSearchQuery(ctx))
+    if (isNotModified(ctx, REVALIDATE_CACHE_CONTROL, { etag: computeETag(page) })) {
+        return
+    }
+
+    ctx.response.type = 'html'
+    ctx.response.body = page
+})
+
+/**
+ * Serves a page of the images of a search as JSON, for the search page to load while scrolling.
+ * @route
+ */
+router.get('/api/search', async (ctx, next) => {
+    const page: ImagesPage | undefined
+        = renderSearchImagesPage(getSearchQuery(ctx), getQueryPage(ctx))
+    if (page === undefined) {
+        return next()
+    }
+
+    sendJson(ctx, page)
+})
+
+/**
+ * Allows the REST API to be used by the webpages of other websites, e.g., by widgets.
+ */
+router.use(`/${REST_API_PATH}`, async (ctx, next) => {
+    ctx.set('Access-Control-Allow-Origin', '*')
+    await next()
+})
+
+/**
+ * Serves the images of the gallery, with their metadata and variants. The images can be filtered
+ * by section and by folder in the query string.
+ * @route
+ */
+router.get(`/${REST_API_PATH}/images`, async (ctx, next) => {
+    const section = ctx.request.query[QUERY_STRING_KEYS.SECTION]
+    const folder = ctx.request.query[QUERY_STRING_KEYS.FOLDER]
+    if (Array.isArray(section) || Array.isArray(folder)) {
+        return ctx.throw(400, 'A filter can only be given once')
+    }
+
+    const images: ApiImage[] | undefined = getApiImages({ section, folder })
+    if (images === undefined) {
+        return next()
+    }
+
+    sendJson(ctx, { images })
+})
+
+/**
+ * Serves an image of the gallery, with its metadata and variants.
+ * @route
+ */
+router.get(`/${REST_API_PATH}/images/(.*)`, async (ctx, next) => {
+    const image: ApiImage | undefined = getApiImage(ctx.params[0])
+    if (image === undefined) {
+        return next()
     }
+
+    sendJson(ctx, image)
+})
+
+/**
+ * Serves the featured images, with their metadata and variants.
+ * @route
+ */
+router.get(`/${REST_API_PATH}/featured`, async (ctx) => {
+    sendJson(ctx, { images: getApiFeaturedImages() })
 })
 
 /**
- * Serves the sitemap.
+ * Serves the sections of the gallery.
+ * @route
+ */
+router.get(`/${REST_API_PATH}/sections`, async (ctx) => {
+    sendJson(ctx, { sections: getApiSections() })
+})
+
+/**
+ * Serves a section of the gallery, with the paths to its images.
+ * @route
+ */
+router.get(`/${REST_API_PATH}/sections/:name`, async (ctx, next) => {
+    const section: ApiSectionDetails | undefined = getApiSection(ctx.params.name)
+    if (section === undefined) {
+        return next()
+    }
+
+    sendJson(ctx, section)
+})
+
+/**
+ * Searches the images and the sections of the gallery. The search is given in the query string
+ * (see `parseSearchQuery`).
+ * @route
+ */
+router.get(`/${REST_API_PATH}/search`, async (ctx) => {
+    sendJson(ctx, getApiSearchResults(getSearchQuery(ctx)))
+})
+
+/**
+ * Serves the cache sizes, i.e., the variants available for every image.
+ * @route
+ */
+router.get(`/${REST_API_PATH}/sizes`, async (ctx) => {
+    sendJson(ctx, { sizes: getApiCacheSizes() })
+})
+
+/**
+ * Serves the JavaScript files of the webpages.
+ * @route
+ */
+router.get('/(js/.*\.js)', async (ctx) => {
+    const file: string = ctx.params[0]
+    await sendFile(ctx, getThemeFileRoot(file), file, REVALIDATE_CACHE_CONTROL)
+})
+
+/**
+ * Serves the sitemap, or the sitemap index if the sitemap is split.
  * @route
  */
 router.get('/sitemap.xml', async (ctx) => {
-    ctx.response.body = sitemapResourceMonitor.getContent()
+    sendSitemap(ctx, 0)
+})
+
+/**
+ * Serves a part of a split sitemap.
+ * @route
+ */
+router.get('/sitemap-(\\d+)\\.xml', async (ctx, next) => {
+    const index: number = Number(ctx.params[0])
+    if (index < 1 || index >= sitemapResourceMonitor.getContent().length) {
+        return next()
+    }
+
+    sendSitemap(ctx, index)
+})
+
+/**
+ * Serves the robots.txt file.
+ * @route
+ */
+router.get('/robots.txt', async (ctx) => {
+    const content: string = renderRobotsTxt()
+    if (isNotModified(ctx, REVALIDATE_CACHE_CONTROL, { etag: computeETag(content) })) {
+        return
+    }
+
+    ctx.response.type = 'text'
+    ctx.response.body = content
+})
+
+/**
+ * Answers the health checks, e.g., of a load balancer or an orchestrator: 200 if the server can
+ * serve the gallery, 503 otherwise.
+ * @route
+ */
+router.get('/healthz', async (ctx) => {
+    const health: HealthStatus = checkHealth()
+    ctx.status = health.status === 'ok' ? 200 : 503
+    ctx.set('Cache-Control', 'no-store')
+    ctx.response.body = health
+})
+
+/**
+ * Serves the metrics of the server in the Prometheus text format.
+ * @route
+ */
+router.get('/metrics', async (ctx) => {
+    ctx.set('Cache-Control', 'no-store')
+    ctx.response.type = 'text/plain; version=0.0.4; charset=utf-8'
+    ctx.response.body = renderMetrics()
+})
+
+/**
+ * Serves the icon of the website.
+ * @route
+ */
+router.get('/favicon.svg', async (ctx) => {
+    await sendFile(ctx, getThemeFileRoot('favicon.svg'), 'favicon.svg', REVALIDATE_CACHE_CONTROL)
+})
+
+/**
+ * Redirects the browsers looking for the icon at its legacy location to the actual icon.
+ * @route
+ */
+router.get('/favicon.ico', async (ctx) => {
+    ctx.redirect('favicon.svg')
+})
+
+/**
+ * Authenticates the requests to the admin API, and reports the rejected updates as JSON. The admin
+ * API does not exist unless credentials are set in the settings.
+ */
+router.use(`/${ADMIN_API_PATH}`, async (ctx, next) => {
+    const credentials: AdminCredentials | undefined = getSettings().admin
+    if (credentials === undefined) {
+        ctx.status = 404
+        return
+    }
+    if (!isAuthorized(ctx.get('Authorization'), credentials)) {
+        // Headers set on the context are dropped along with the error
+        ctx.throw(401, {
+            headers: {
+                'WWW-Authenticate': credentials.username === undefined
+                    ? 'Bearer'
+                    : `Basic realm="${getSettings()['site-name']} admin", charset="UTF-8"`,
+            },
+        })
+    }
+
+    ctx.set('Cache-Control', 'no-store')
+    try {
+        await next()
+    } catch (error) {
+        if (error instanceof SettingsUpdateError) {
+            ctx.status = error.status
+            ctx.body = { error: error.message, issues: error.issues }
+        } else if (error instanceof UploadError) {
+            ctx.status = error.status
+            ctx.body = { error: error.message }
+        } else {
+            throw error
+        }
+    }
+})
+
+/**
+ * Serves the sections and the featured images as written in the settings file.
+ * @route
+ */
+router.get(`/${ADMIN_API_PATH}/gallery`, async (ctx) => {
+    ctx.body = getAdminGallery()
+})
+
+/**
+ * Creates a section from the name, title, description and images (`includes`) of the body.
+ * @route
+ */
+router.post(`/${ADMIN_API_PATH}/sections`, async (ctx) => {
+    const body = await readJsonBody(ctx) as { name?: unknown }
+    if (typeof body?.name !== 'string') {
+        ctx.throw(400, '"name" must be a string')
+    }
+
+    const sectionName: string = body.name as string
+    ctx.status = 201
+    ctx.body = { name: sectionName, section: createSection(sectionName, body) }
+})
+
+/**
+ * Edits a section with the fields of the body: `name` (to rename it), `title`, `description` and
+ * `includes` (to replace or reorder its images).
+ * @route
+ */
+router.patch(`/${ADMIN_API_PATH}/sections/:name`, async (ctx) => {
+    const [sectionName, section] = updateSection(ctx.params.name, await readJsonBody(ctx))
+    ctx.body = { name: sectionName, section }
+})
+
+/**
+ * Deletes a section.
+ * @route
+ */
+router.delete(`/${ADMIN_API_PATH}/sections/:name`, async (ctx) => {
+    deleteSection(ctx.params.name)
+    ctx.status = 204
+})
+
+/**
+ * Adds the images of the body to a section, at the optional position of the body.
+ * @route
+ */
+router.post(`/${ADMIN_API_PATH}/sections/:name/includes`, async (ctx) => {
+    const body = await readJsonBody(ctx) as { images?: unknown, position?: unknown } | null
+    ctx.body = { includes: addSectionImages(ctx.params.name, body?.images, body?.position) }
+})
+
+/**
+ * Creates a share link of a protected section, which unlocks it for the optional duration of the
+ * body (`duration`, in seconds, default: 7 days). Changing the password of the section revokes its
+ * share links.
+ * @route
+ */
+router.post(`/${ADMIN_API_PATH}/sections/:name/share-links`, async (ctx) => {
+    const body = await readJsonBody(ctx) as { duration?: unknown } | null
+    const duration: unknown = body?.duration ?? DEFAULT_SHARE_LINK_DURATION / 1000
+    if (typeof duration !== 'number' || !Number.isInteger(duration) || duration <= 0) {
+        ctx.throw(400, '"duration" must be a positive number of seconds')
+    }
+
+    const sectionName: string = ctx.params.name
+    const grant: AccessGrant | undefined
+        = grantSectionAccess(sectionName, (duration as number) * 1000)
+    if (grant === undefined) {
+        ctx.throw(404, `Protected section "${sectionName}" not found`)
+    }
+
+    ctx.status = 201
+    ctx.body = {
+        url: getSiteUrl(`${getSectionPageUrl(sectionName)}`
+            + `?${QUERY_STRING_KEYS.ACCESS}=${createAccessToken([grant as AccessGrant])}`),
+        expires: new Date((grant as AccessGrant).expires).toISOString(),
+    }
+})
+
+/**
+ * Removes an image from a section.
+ * @route
+ */
+router.delete(`/${ADMIN_API_PATH}/sections/:name/includes/(.*)`, async (ctx) => {
+    ctx.body = { includes: removeSectionImage(ctx.params.name, ctx.params[0]) }
+})
+
+/**
+ * Replaces the featured images with the images of the body, e.g., to reorder them.
+ * @route
+ */
+router.put(`/${ADMIN_API_PATH}/featured`, async (ctx) => {
+    const body = await readJsonBody(ctx) as { images?: unknown } | null
+    ctx.body = { featured: setFeaturedImages(body?.images) }
+})
+
+/**
+ * Features an image.
+ * @route
+ */
+router.put(`/${ADMIN_API_PATH}/featured/(.*)`, async (ctx) => {
+    ctx.body = { featured: addFeaturedImage(ctx.params[0]) }
+})
+
+/**
+ * Stops featuring an image.
+ * @route
+ */
+router.delete(`/${ADMIN_API_PATH}/featured/(.*)`, async (ctx) => {
+    ctx.body = { featured: removeFeaturedImage(ctx.params[0]) }
+})
+
+/**
+ * Uploads images to the gallery. Every file field of the multipart body is an image; the optional
+ * `section` field is the name of the section to add the images to, or "featured".
+ * @route
+ */
+router.post(`/${ADMIN_API_PATH}/uploads`, async (ctx) => {
+    // Unlike JSON requests, multipart requests can be posted by the HTML forms of other websites,
+    // along with the basic authentication credentials remembered by the browser
+    const origin: string = ctx.get('Origin')
+    if (origin !== '' && origin !== ctx.origin) {
+        ctx.throw(403, 'Cross-origin uploads are not allowed')
+    }
+
+    const parts: MultipartPart[] = await readMultipartBody(ctx)
+    const sectionPart: MultipartPart | undefined = parts.find(part =>
+        part.name === 'section' && part.fileName === undefined)
+    const sectionName: string | undefined = sectionPart?.data.toString('utf-8').trim()
+    const results: UploadResult[] = await ingestUploads(
+        parts
+            .filter(part => part.fileName !== undefined)
+            .map(part => ({ fileName: part.fileName as string, data: part.data })),
+        sectionName || undefined)
+
+    ctx.status = 201
+    ctx.body = { images: results }
 })
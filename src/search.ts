@@ -0,0 +1,291 @@
+import { Section, Settings } from './settings.js'
+import { QUERY_STRING_KEYS } from './constants.js'
+import {
+    collectImagePaths,
+    collectSectionNamesByImage,
+    getImageMetadata,
+    getSettings,
+} from './service.js'
+import { ImageMetadata } from './image_metadata.js'
+import { collectListedSections } from './access.js'
+import { galleryWatcher } from './resource_monitor.js'
+
+/**
+ * Search of the gallery. Criteria are combined.
+ */
+export interface SearchQuery {
+    // Words that must all appear in the path of an image, the titles and descriptions of its
+    // sections, its camera, lens or capture date
+    text?: string
+
+    // Capture date range, inclusive: "yyyy", "yyyy-mm" or "yyyy-mm-dd"
+    from?: string
+    to?: string
+
+    // Parts of the camera make and model, and of the lens model
+    camera?: string
+    lens?: string
+
+    // Focal length range in millimeters, inclusive
+    minFocalLength?: number
+    maxFocalLength?: number
+}
+
+/**
+ * Results of a search.
+ */
+export interface SearchResults {
+    // The relative paths to the matching images, in the order of the gallery
+    images: string[]
+
+    // The names of the sections whose name, title or description match the words of the search,
+    // in the order of the webpage
+    sections: string[]
+}
+
+/**
+ * Error thrown when a search query is malformed.
+ */
+export class SearchQueryError extends Error {
+    public constructor(message: string) {
+        super(message)
+        this.name = 'SearchQueryError'
+    }
+}
+
+/**
+ * Image of the search index, with its searchable text normalized.
+ */
+interface IndexedImage {
+    imagePath: string
+    text: string
+    camera: string
+    lens: string
+    metadata?: ImageMetadata
+}
+
+/**
+ * Search index of the public sections and their images.
+ */
+interface SearchIndex {
+    // The version of the gallery index and the settings the search index was built from
+    version: number
+    settings: Settings
+
+    images: IndexedImage[]
+    sections: { sectionName: string, text: string }[]
+}
+
+let searchIndex: SearchIndex | undefined
+
+// Capture dates of the search: "yyyy", "yyyy-mm" or "yyyy-mm-dd"
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/
+
+// Focal lengths of the search: "35", "24-70", "-50" or "200-"
+const FOCAL_LENGTH_PATTERN = /^(\d+(?:\.\d+)?)?(?:(-)(\d+(?:\.\d+)?)?)?$/
+
+/**
+ * Reads a search query from a query string.
+ *
+ * @param {object} query - The parsed query string, e.g., `{ q: "cat", from: "2021" }`.
+ * @returns {SearchQuery} The search query. It has no criteria if the query string has none.
+ * @throws {SearchQueryError} If a criterion is given more than once, or is malformed.
+ */
+export function parseSearchQuery(
+    query: { [key: string]: string | string[] | undefined },
+): SearchQuery {
+    const getValue = (key: string): string | undefined => {
+        const value: string | string[] | undefined = query[key]
+        if (Array.isArray(value)) {
+            throw new SearchQueryError(`"${key}" can only be given once`)
+        }
+
+        return value?.trim() || undefined
+    }
+
+    const searchQuery: SearchQuery = {
+        text: getValue(QUERY_STRING_KEYS.TEXT),
+        from: getValue(QUERY_STRING_KEYS.FROM),
+        to: getValue(QUERY_STRING_KEYS.TO),
+        camera: getValue(QUERY_STRING_KEYS.CAMERA),
+        lens: getValue(QUERY_STRING_KEYS.LENS),
+    }
+    for (const key of [QUERY_STRING_KEYS.FROM, QUERY_STRING_KEYS.TO] as const) {
+        const date: string | undefined = searchQuery[key]
+        if (date !== undefined && !DATE_PATTERN.test(date)) {
+            throw new SearchQueryError(`"${key}" must be a date: yyyy, yyyy-mm or yyyy-mm-dd`)
+        }
+    }
+
+    const focalLength: string | undefined = getValue(QUERY_STRING_KEYS.FOCAL_LENGTH)
+    if (focalLength !== undefined) {
+        const match = FOCAL_LENGTH_PATTERN.exec(focalLength)
+        if (match === null || (match[1] === undefined && match[3] === undefined)) {
+            throw new SearchQueryError(`"${QUERY_STRING_KEYS.FOCAL_LENGTH}" must be a focal `
+                + 'length or a range in millimeters, e.g., "35", "24-70", "-50" or "200-"')
+        }
+
+        searchQuery.minFocalLength = match[1] === undefined ? undefined : Number(match[1])
+        searchQuery.maxFocalLength = match[2] === undefined
+            ? searchQuery.minFocalLength
+            : match[3] === undefined ? undefined : Number(match[3])
+    }
+
+    return searchQuery
+}
+
+/**
+ * Writes a search query as a query string, the reverse of parseSearchQuery.
+ *
+ * @param {SearchQuery} query - The search query.
+ * @returns {string} The query string, without the leading "?", e.g., `q=cat&from=2021`.
+ */
+export function formatSearchQuery(query: SearchQuery): string {
+    const focalLength: string | undefined = query.minFocalLength === undefined
+        && query.maxFocalLength === undefined
+        ? undefined
+        : query.minFocalLength === query.maxFocalLength
+            ? `${query.minFocalLength}`
+            : `${query.minFocalLength ?? ''}-${query.maxFocalLength ?? ''}`
+    const entries: [string, string | undefined][] = [
+        [QUERY_STRING_KEYS.TEXT, query.text],
+        [QUERY_STRING_KEYS.FROM, query.from],
+        [QUERY_STRING_KEYS.TO, query.to],
+        [QUERY_STRING_KEYS.CAMERA, query.camera],
+        [QUERY_STRING_KEYS.LENS, query.lens],
+        [QUERY_STRING_KEYS.FOCAL_LENGTH, focalLength],
+    ]
+
+    return new URLSearchParams(entries
+        .filter((entry): entry is [string, string] => entry[1] !== undefined)).toString()
+}
+
+/**
+ * Gets the relative URL of the page of a search.
+ *
+ * @param {SearchQuery} query - The search query.
+ * @returns {string} The relative URL, e.g., `search?q=cat`.
+ */
+export function getSearchPageUrl(query: SearchQuery): string {
+    const queryString: string = formatSearchQuery(query)
+    return queryString === '' ? 'search' : `search?${queryString}`
+}
+
+/**
+ * Gets the relative URL of the pages of the images of a search, loaded by the webpage while
+ * scrolling.
+ *
+ * @param {SearchQuery} query - The search query.
+ * @returns {string} The relative URL, with a `{page}` placeholder for the page number.
+ */
+export function getSearchImagesPageUrl(query: SearchQuery): string {
+    const queryString: string = formatSearchQuery(query)
+    return `api/search?${queryString === '' ? '' : `${queryString}&`}`
+        + `${QUERY_STRING_KEYS.PAGE}={page}`
+}
+
+/**
+ * Checks whether a search query has no criteria.
+ *
+ * @param {SearchQuery} query - The search query.
+ * @returns {boolean} True if the query has no criteria, in which case nothing matches it.
+ */
+export function isEmptySearchQuery(query: SearchQuery): boolean {
+    return formatSearchQuery(query) === ''
+}
+
+/**
+ * Searches the images and the sections of the gallery. Only the public sections and their images
+ * are searched, as they are the ones listed on the webpage. Sections are only searched by words,
+ * and are left out of the results if the query has other criteria.
+ *
+ * @param {SearchQuery} query - The search query.
+ * @returns {SearchResults} The matching images and sections.
+ */
+export function search(query: SearchQuery): SearchResults {
+    if (isEmptySearchQuery(query)) {
+        return { images: [], sections: [] }
+    }
+
+    const index: SearchIndex = getSearchIndex()
+    const words: string[] = normalizeText(query.text ?? '').split(/\s+/).filter(Boolean)
+    const camera: string | undefined = query.camera && normalizeText(query.camera)
+    const lens: string | undefined = query.lens && normalizeText(query.lens)
+    const images: string[] = index.images.filter(image => {
+        const dateTaken: string | undefined = image.metadata?.dateTaken
+        const focalLength: number | undefined = image.metadata?.focalLength
+        return words.every(word => image.text.includes(word))
+            && (camera === undefined || image.camera.includes(camera))
+            && (lens === undefined || image.lens.includes(lens))
+            && (query.from === undefined || (dateTaken !== undefined
+                && dateTaken.substring(0, query.from.length) >= query.from))
+            && (query.to === undefined || (dateTaken !== undefined
+                && dateTaken.substring(0, query.to.length) <= query.to))
+            && (query.minFocalLength === undefined
+                || (focalLength !== undefined && focalLength >= query.minFocalLength))
+            && (query.maxFocalLength === undefined
+                || (focalLength !== undefined && focalLength <= query.maxFocalLength))
+    }).map(image => image.imagePath)
+
+    const hasWordsOnly: boolean = isEmptySearchQuery({ ...query, text: undefined })
+    const sections: string[] = words.length > 0 && hasWordsOnly
+        ? index.sections
+            .filter(section => words.every(word => section.text.includes(word)))
+            .map(section => section.sectionName)
+        : []
+
+    return { images, sections }
+}
+
+/**
+ * Gets the search index, built again when the gallery or the settings change.
+ */
+function getSearchIndex(): SearchIndex {
+    const version: number = galleryWatcher.version
+    const settings: Settings = getSettings()
+    if (searchIndex?.version === version && searchIndex.settings === settings) {
+        return searchIndex
+    }
+
+    const sections: Map<string, Section> = collectListedSections()
+    const imageSections: Map<string, string[]> = collectSectionNamesByImage(sections)
+    const images: IndexedImage[] = collectImagePaths()
+        .filter(imagePath => imageSections.has(imagePath))
+        .map(imagePath => {
+            const metadata: ImageMetadata | undefined = getImageMetadata(imagePath)
+            const sectionTexts: string[] = (imageSections.get(imagePath) as string[])
+                .map(sectionName => sections.get(sectionName) as Section)
+                .flatMap(section => [section.title, section.description])
+            return {
+                imagePath,
+                text: normalizeText([
+                    imagePath,
+                    ...sectionTexts,
+                    metadata?.camera,
+                    metadata?.lens,
+                    metadata?.dateTaken,
+                ].filter(Boolean).join('\n')),
+                camera: normalizeText(metadata?.camera ?? ''),
+                lens: normalizeText(metadata?.lens ?? ''),
+                metadata,
+            }
+        })
+
+    searchIndex = {
+        version,
+        settings,
+        images,
+        sections: [...sections].map(([sectionName, section]) => ({
+            sectionName,
+            text: normalizeText([sectionName, section.title, section.description].join('\n')),
+        })),
+    }
+    return searchIndex
+}
+
+/**
+ * Lowercases a text and removes its diacritics, so "Café" matches "cafe".
+ */
+function normalizeText(text: string): string {
+    return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+}
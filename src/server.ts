@@ -1,22 +1,85 @@
+import * as fs from 'node:fs'
+import * as http from 'node:http'
+import * as https from 'node:https'
+import * as path from 'node:path'
 import Koa from 'koa'
-import { getSettings } from './service.js'
-import { router } from './routes.js'
-import send from 'koa-send'
-import { TEMPLATE_DIR } from './constants.js'
+import {
+    collectCacheGarbage,
+    flushCacheManifest,
+    getBasePath,
+    getSettings,
+    warmUpCache,
+} from './service.js'
+import { createApp } from './app.js'
+import { CACHE_GC_INTERVAL, ROOT_DIR, SHUTDOWN_TIMEOUT } from './constants.js'
+import { Settings } from './settings.js'
+import { logger } from './logger.js'
 
-export const app = new Koa()
+const app: Koa = createApp()
 
-// Use router middleware
-app.use(router.routes()).use(router.allowedMethods())
-
-// Default 404 handler
-app.use(async (ctx) => {
-    ctx.status = 404
-    await send(ctx, '404.html', { root: TEMPLATE_DIR })
+// Start to listen, with HTTPS if a certificate is set
+const settings: Settings = getSettings()
+const server: http.Server = settings.https === undefined
+    ? http.createServer(app.callback())
+    : https.createServer({
+        cert: fs.readFileSync(path.resolve(ROOT_DIR, settings.https.cert)),
+        key: fs.readFileSync(path.resolve(ROOT_DIR, settings.https.key)),
+    }, app.callback())
+server.once('close', () => app.emit('close'))
+server.listen(settings.port, settings.host, function() {
+    logger.info(`Node gallery service is listening on ${settings.port}...`, {
+        host: settings.host,
+        https: settings.https !== undefined,
+        basePath: getBasePath(),
+    })
 })
 
-// Start to listen
-const port: number = getSettings().port
-app.listen(port, function() {
-    console.log(`Node gallery service is listening on ${port}...`)
-})
+// Remove the stale cached images, then generate the missing ones in the background
+collectCacheGarbage()
+    .catch(error => logger.error('Error while collecting cache garbage', { error }))
+    .then(() => {
+        if (getSettings()['cache-warm-up'] ?? true) {
+            return warmUpCache()
+        }
+    })
+    .catch(error => logger.error('Error while warming up the cache', { error }))
+
+// Cache sizes or output formats removed from the settings leave cached images behind
+const cacheGarbageCollectionTimer: NodeJS.Timeout = setInterval(() => {
+    collectCacheGarbage()
+        .catch(error => logger.error('Error while collecting cache garbage', { error }))
+}, CACHE_GC_INTERVAL)
+
+// Stop gracefully when the process manager or the user asks to
+process.once('SIGTERM', shutDown)
+process.once('SIGINT', shutDown)
+
+/**
+ * Stops the server: stops accepting connections, lets the requests being served finish, saves the
+ * cache manifest, then exits. Requests still running after SHUTDOWN_TIMEOUT are dropped.
+ *
+ * @param {NodeJS.Signals} signal - The signal that stops the server.
+ */
+function shutDown(signal: NodeJS.Signals): void {
+    logger.info('Shutting down', { signal })
+    clearInterval(cacheGarbageCollectionTimer)
+
+    const exit = (code: number): void => {
+        try {
+            flushCacheManifest()
+        } catch (error) {
+            logger.error('Error while saving the cache manifest', { error })
+        }
+        process.exit(code)
+    }
+
+    server.close(() => {
+        logger.info('Server stopped')
+        exit(0)
+    })
+    server.closeIdleConnections()
+    setTimeout(() => {
+        logger.warn('Requests still running after the shutdown timeout, dropping them')
+        exit(1)
+    }, SHUTDOWN_TIMEOUT).unref()
+}
@@ -1,38 +1,145 @@
 import * as fs from 'node:fs'
 import * as path from 'node:path'
-import { Settings } from './settings.js'
-import { CACHE_DIR, GALLERY_DIR } from './constants.js'
-import { exec } from 'child_process'
-import { settingsMonitor } from './resource_monitor.js'
+import * as os from 'node:os'
+import * as crypto from 'node:crypto'
+import { AutoAlbums, CacheSize, Section, Settings } from './settings.js'
+import {
+    CACHE_DIR,
+    CACHE_MANIFEST_FILE_NAME,
+    DEFAULT_PAGE_SIZE,
+    FEATURED_SECTION_NAME,
+    GALLERY_DIR,
+    GLOBAL_SECTION_NAME,
+    PREVIEW_CACHE_SIZE,
+    QUERY_STRING_KEYS,
+    SETTINGS_FILE,
+} from './constants.js'
+import { galleryWatcher, settingsMonitor, watchGallery } from './resource_monitor.js'
+import { detectImageFormat, ImageFormat, ImageMetadata } from './image_metadata.js'
+import {
+    getImageProcessors,
+    ImageProcessingError,
+    ImageProcessorName,
+    OutputFormat,
+} from './image_processor.js'
+import { JobQueue } from './job_queue.js'
+import { collectAutoAlbums } from './albums.js'
+import { CacheManifest, CacheManifestEntry } from './cache_manifest.js'
+import { detectMediaType, extractPreview, MediaType, readMediaMetadata } from './media.js'
+import { logger } from './logger.js'
+import { Gauge, imageCacheRequestsTotal } from './metrics.js'
 
 /**
- * Recursively collects all file paths from a specified directory.
- *
- * @param {string} rootDir - The root directory from which to start collecting file paths.
- * @param {string} [relativeDir='.'] - The relative directory path from the root directory.
- * @returns An array of relative file paths.
+ * Locations of a gallery: its images, its cached images and its settings file.
  */
-export function collectFilePaths(rootDir: string, relativeDir: string = '.'): string[] {
-    try {
-        const absoluteDirPath: string = path.resolve(rootDir, relativeDir)
-        const collectedFilePaths: string[] = []
+export interface GalleryPaths {
+    // The directory of the images
+    galleryDir: string
 
-        fs.readdirSync(absoluteDirPath).forEach(fileName => {
-            const absoluteFilePath = path.join(absoluteDirPath, fileName)
-            const relativeFilePath: string = path.join(relativeDir, fileName)
+    // The directory of the cached images and of the cache manifest
+    cacheDir: string
 
-            if (fs.statSync(absoluteFilePath).isDirectory()) {
-                collectedFilePaths.push(...collectFilePaths(rootDir, relativeFilePath))
-            } else {
-                collectedFilePaths.push(relativeFilePath)
-            }
-        })
+    // The path to the settings file
+    settingsFile: string
+}
 
-        return collectedFilePaths
-    } catch (error) {
-        console.error(`Error while collecting file paths: ${error}`)
-        return []
-    }
+/**
+ * The gallery of the project directory, served unless another one is opened.
+ */
+export const DEFAULT_GALLERY_PATHS: GalleryPaths = {
+    galleryDir: GALLERY_DIR,
+    cacheDir: CACHE_DIR,
+    settingsFile: SETTINGS_FILE,
+}
+
+/**
+ * Status of the server, answered by the health check route.
+ */
+export interface HealthStatus {
+    // "ok" if the server can serve the gallery, "error" otherwise
+    status: 'ok' | 'error'
+
+    // The reasons of the "error" status
+    problems: string[]
+
+    // The time since the server started, in seconds
+    uptime: number
+
+    // The number of images of the gallery index, and of cache generation jobs queued or running
+    images: number
+    cacheJobs: number
+}
+
+/**
+ * Cached image metadata, keyed by the relative image path. An entry is only valid as long as the
+ * modification time of the file matches.
+ */
+const imageMetadataCache: Map<string, { mtimeMs: number, metadata?: ImageMetadata }> = new Map()
+
+/**
+ * Queue of the cache generation jobs, keyed by cache path.
+ */
+const cacheJobQueue: JobQueue = new JobQueue(os.cpus().length)
+
+/**
+ * Image paths found by the last call of collectImagePaths, with their media types, and the version
+ * of the gallery index and the settings they were collected from. Undefined if it has not been
+ * called yet.
+ */
+let knownImagePaths: {
+    version: number,
+    settings: Settings,
+    imagePaths: string[],
+    imagePathSet: Set<string>,
+    mediaTypes: Map<string, MediaType>,
+} | undefined
+
+/**
+ * Locations of the open gallery (see openGallery).
+ */
+let galleryPaths: GalleryPaths = DEFAULT_GALLERY_PATHS
+
+/**
+ * Manifest of the cached images of the open gallery.
+ */
+let cacheManifest: CacheManifest
+    = new CacheManifest(path.join(galleryPaths.cacheDir, CACHE_MANIFEST_FILE_NAME))
+
+// State of the gallery and of the cache, exposed by the /metrics route
+new Gauge('gallery_images', 'Images of the gallery index', () => collectImagePaths().length)
+new Gauge('gallery_cache_jobs', 'Cache generation jobs queued or running',
+    () => cacheJobQueue.size)
+new Gauge('gallery_cache_bytes', 'Total size of the cached images',
+    () => cacheManifest.getTotalBytes())
+
+// Temporary files older than this (in milliseconds) are left behind by interrupted jobs
+const CACHE_TEMPORARY_FILE_TTL = 60 * 60 * 1000
+
+/**
+ * Opens a gallery, in place of the open one: its images, its cache and its settings are used from
+ * now on, and the indexes of the previous gallery are dropped. The gallery of the project
+ * directory is open by default.
+ *
+ * @param {GalleryPaths} paths - The locations of the gallery.
+ */
+export function openGallery(paths: GalleryPaths): void {
+    cacheManifest.flush()
+
+    galleryPaths = paths
+    watchGallery(paths.galleryDir, paths.settingsFile)
+    cacheManifest = new CacheManifest(path.join(paths.cacheDir, CACHE_MANIFEST_FILE_NAME))
+    knownImagePaths = undefined
+    imageMetadataCache.clear()
+}
+
+/**
+ * Gets the locations of the open gallery.
+ *
+ * @returns {GalleryPaths} The locations.
+ * @see openGallery
+ */
+export function getGalleryPaths(): GalleryPaths {
+    return galleryPaths
 }
 
 /**
@@ -47,66 +154,646 @@ export function collectFilePaths(rootDir: string, relativeDir: string = '.'): st
  * exclusion patterns); otherwise, false.
  */
 export function shouldIncludeImage(imagePath: string): boolean {
-    const settings: Settings = settingsMonitor.getContent()
+    const settings: Settings = getSettings()
     return !settings['exclude'].some(regex => new RegExp(regex).test(path.basename(imagePath)))
 }
 
 /**
- * Recursively collects image files from the `gallery` directory. Images will be excluded based on
- * the shouldIncludeImage predicate.
+ * Collects the image files of the `gallery` directory from its in-memory index, including the RAW
+ * files and the videos, whose media types are indexed along. Images will be excluded based on the
+ * shouldIncludeImage predicate. The result is only computed again when the gallery or the settings
+ * change.
  *
  * @see shouldIncludeImage
+ * @see getMediaType
  */
 export function collectImagePaths(): string[] {
-    return collectFilePaths(GALLERY_DIR).filter(shouldIncludeImage)
+    const version: number = galleryWatcher.version
+    const settings: Settings = getSettings()
+    if (knownImagePaths?.version === version && knownImagePaths.settings === settings) {
+        return knownImagePaths.imagePaths
+    }
+
+    const imagePaths: string[] = galleryWatcher.getFilePaths().filter(shouldIncludeImage)
+
+    // Warm up the cache of the images added since the last collection, and remove the cached
+    // images of the images removed since then
+    const previousImagePaths: Set<string> | undefined = knownImagePaths === undefined
+        ? undefined
+        : new Set(knownImagePaths.imagePaths)
+    knownImagePaths = {
+        version,
+        settings,
+        imagePaths,
+        imagePathSet: new Set(imagePaths),
+        mediaTypes: new Map(imagePaths.map(imagePath => [imagePath, detectMediaType(imagePath)])),
+    }
+    if (previousImagePaths !== undefined) {
+        const newImagePaths: string[]
+            = imagePaths.filter(imagePath => !previousImagePaths.has(imagePath))
+        if (newImagePaths.length > 0 && (settings['cache-warm-up'] ?? true)) {
+            void warmUpCache(newImagePaths)
+        }
+
+        if (previousImagePaths.size > imagePaths.length - newImagePaths.length) {
+            collectCacheGarbage().catch(error =>
+                logger.error('Error while collecting cache garbage', { error }))
+        }
+    }
+
+    return imagePaths
+}
+
+/**
+ * Gets the media type of an image of the gallery from the index of collectImagePaths.
+ *
+ * @param {string} imagePath - The relative path to the image within the gallery directory.
+ * @returns {MediaType} The media type: an image, a RAW file or a video.
+ * @see collectImagePaths
+ */
+export function getMediaType(imagePath: string): MediaType {
+    // Brings the index up to date
+    collectImagePaths()
+    return knownImagePaths?.mediaTypes.get(imagePath) ?? detectMediaType(imagePath)
+}
+
+/**
+ * Checks whether a path requested by a client, e.g., in `/image/<path>`, is well-formed: relative,
+ * without "." or ".." segments, empty segments, backslashes or control characters. The path must
+ * be checked after it is decoded, so encoded traversals (e.g., `%2e%2e%2f`) are rejected too.
+ *
+ * @param {string} imagePath - The decoded path requested by the client.
+ * @returns {boolean} True if the path is well-formed.
+ */
+export function isValidImagePath(imagePath: string): boolean {
+    return imagePath !== ''
+        && !/[\\\u0000-\u001F\u007F]/.test(imagePath)
+        && imagePath.split('/').every(segment => !['', '.', '..'].includes(segment))
+}
+
+/**
+ * Resolves a path requested by a client against the images of the gallery. Only the indexed images
+ * that are not excluded are resolved, so the other files of the gallery directory cannot be
+ * reached. Images that are symbolic links, or in linked directories, are only resolved if they
+ * stay within the gallery directory.
+ *
+ * @param {string} imagePath - The decoded path requested by the client.
+ * @returns {string | undefined} The relative path to the image within the gallery directory, or
+ * undefined if no image of the gallery has this path.
+ * @see collectImagePaths
+ */
+export function resolveImagePath(imagePath: string): string | undefined {
+    // Brings the set of the known image paths up to date
+    collectImagePaths()
+    if (!isValidImagePath(imagePath) || !knownImagePaths?.imagePathSet.has(imagePath)) {
+        return undefined
+    }
+
+    try {
+        const galleryDir: string = fs.realpathSync(galleryPaths.galleryDir)
+        const realImagePath: string = fs.realpathSync(path.join(galleryPaths.galleryDir, imagePath))
+        return realImagePath.startsWith(`${galleryDir}${path.sep}`) ? imagePath : undefined
+    } catch (error) {
+        // Removed since the last scan
+        return undefined
+    }
+}
+
+/**
+ * Retrieves the metadata (dimensions, orientation and EXIF fields) of an image in the gallery
+ * directory. The dimensions of a RAW file are the ones of its preview, and videos have a duration.
+ *
+ * The image headers are parsed only once per file. The result is cached and invalidated when the
+ * modification time of the file changes.
+ *
+ * @param {string} imagePath - The relative path to the image within the gallery directory.
+ * @returns {ImageMetadata | undefined} The metadata, or undefined if the image cannot be read or
+ * its format is not supported.
+ */
+export function getImageMetadata(imagePath: string): ImageMetadata | undefined {
+    const absoluteImagePath: string = path.join(galleryPaths.galleryDir, imagePath)
+
+    let mtimeMs: number
+    try {
+        mtimeMs = fs.statSync(absoluteImagePath).mtimeMs
+    } catch (error) {
+        imageMetadataCache.delete(imagePath)
+        return undefined
+    }
+
+    const cached = imageMetadataCache.get(imagePath)
+    if (cached !== undefined && cached.mtimeMs === mtimeMs) {
+        return cached.metadata
+    }
+
+    const metadata: ImageMetadata | undefined = readMediaMetadata(absoluteImagePath)
+    imageMetadataCache.set(imagePath, { mtimeMs, metadata })
+
+    return metadata
+}
+
+/**
+ * Parses a cache size. The size is either a target file size (e.g., "500k" or "50%"), or maximum
+ * dimensions prefixed by "w" (width) and/or "h" (height) (e.g., "w800", "h600", "w1600h1200").
+ *
+ * @param {string} size - The cache size as defined in the settings.
+ * @returns {CacheSize | undefined} The parsed cache size, or undefined if the size is malformed.
+ */
+export function parseCacheSize(size: string): CacheSize | undefined {
+    if (/^\d+(k|K|%)?$/.test(size)) {
+        return { targetSize: size }
+    }
+
+    const match = /^(?:w(\d+))?(?:h(\d+))?$/.exec(size)
+    if (!match || (match[1] === undefined && match[2] === undefined)) {
+        return undefined
+    }
+
+    const maxWidth: number | undefined = match[1] === undefined ? undefined : Number(match[1])
+    const maxHeight: number | undefined = match[2] === undefined ? undefined : Number(match[2])
+    if (maxWidth === 0 || maxHeight === 0) {
+        return undefined
+    }
+
+    return { maxWidth, maxHeight }
+}
+
+/**
+ * Computes the width of an image once downscaled to a dimension-based cache size.
+ *
+ * @param {CacheSize} cacheSize - The parsed cache size.
+ * @param {number} width - The width of the original image.
+ * @param {number} height - The height of the original image.
+ * @returns {number} The width of the cached image. Images are never upscaled.
+ */
+export function getScaledWidth(cacheSize: CacheSize, width: number, height: number): number {
+    const scale: number = Math.min(
+        1,
+        cacheSize.maxWidth === undefined ? 1 : cacheSize.maxWidth / width,
+        cacheSize.maxHeight === undefined ? 1 : cacheSize.maxHeight / height)
+
+    return Math.max(1, Math.round(width * scale))
+}
+
+/**
+ * Picks the cache size of the images shown at full size, e.g., on the pages of the images: the
+ * largest dimension-based cache size, or the default cache size if there is none.
+ *
+ * @returns {string} The cache size.
+ */
+export function getLargestCacheSize(): string {
+    const settings: Settings = getSettings()
+    let largestSize: string = settings['cache-sz'][0]
+    let largestDimension: number = 0
+    for (const size of settings['cache-sz']) {
+        const cacheSize: CacheSize | undefined = parseCacheSize(size)
+        const dimension: number = Math.max(cacheSize?.maxWidth ?? 0, cacheSize?.maxHeight ?? 0)
+        if (dimension > largestDimension) {
+            largestSize = size
+            largestDimension = dimension
+        }
+    }
+
+    return largestSize
+}
+
+/**
+ * Builds the relative URL of an image, optionally requesting a cache size. Each path segment is
+ * percent-encoded, so the URL can be used in any attribute, including `srcset`.
+ *
+ * @param {string} imagePath - The relative path to the image within the gallery directory.
+ * @param {string} [size] - The cache size, or undefined for the original image.
+ * @returns {string} The relative URL of the image.
+ */
+export function getImageUrl(imagePath: string, size?: string): string {
+    const encodedPath: string = imagePath.split('/').map(encodeURIComponent).join('/')
+    const queryParameters: string[] = []
+    if (size !== undefined) {
+        queryParameters.push(`${QUERY_STRING_KEYS.SIZE}=${encodeURIComponent(size)}`)
+    }
+
+    const version: string | undefined = getImageVersion(imagePath)
+    if (version !== undefined) {
+        queryParameters.push(`${QUERY_STRING_KEYS.VERSION}=${version}`)
+    }
+
+    return queryParameters.length === 0
+        ? `image/${encodedPath}`
+        : `image/${encodedPath}?${queryParameters.join('&')}`
+}
+
+/**
+ * Gets the version of an image, which changes whenever the original image is modified. Image URLs
+ * carry it, so the responses to versioned URLs can be cached forever.
+ *
+ * @param {string} imagePath - The relative path to the image within the gallery directory.
+ * @returns {string | undefined} The version, or undefined if the image is not in the gallery.
+ */
+export function getImageVersion(imagePath: string): string | undefined {
+    const mtimeMs: number | undefined = galleryWatcher.getModificationTime(imagePath)
+    return mtimeMs === undefined ? undefined : Math.floor(mtimeMs).toString(36)
+}
+
+/**
+ * Computes a strong entity tag for HTTP caching.
+ *
+ * @param {string} content - The content of the response.
+ * @returns {string} The entity tag, including the quotes.
+ */
+export function computeETag(content: string): string {
+    return `"${crypto.createHash('sha1').update(content).digest('base64url')}"`
+}
+
+/**
+ * Builds the absolute URL of a page or a resource of the website, from the base URL of the
+ * settings.
+ *
+ * @param {string} relativeUrl - The URL relative to the root of the website, e.g., "sitemap.xml".
+ * @returns {string} The absolute URL.
+ */
+export function getSiteUrl(relativeUrl: string): string {
+    const settings: Settings = getSettings()
+    const baseUrl: string
+        = settings['base-url'] ?? `https://${settings['site-name']}${getBasePath()}`
+    return `${baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`}${relativeUrl}`
+}
+
+/**
+ * Gets the path the website is served under, from the `base-path` setting or the path of the
+ * `base-url` setting.
+ *
+ * @returns {string} The path, starting and ending with a slash, e.g., "/photos/" or "/".
+ */
+export function getBasePath(): string {
+    const settings: Settings = getSettings()
+    if (settings['base-path'] !== undefined) {
+        return normalizeBasePath(settings['base-path'])
+    }
+
+    return settings['base-url'] === undefined
+        ? '/'
+        : normalizeBasePath(new URL(settings['base-url']).pathname)
+}
+
+/**
+ * Normalizes the path a website is served under, so that it starts and ends with a slash.
+ *
+ * @param {string} basePath - The path, e.g., "/photos" or "photos/".
+ * @returns {string} The normalized path, e.g., "/photos/".
+ */
+export function normalizeBasePath(basePath: string): string {
+    return `/${basePath.replace(/^\/+|\/+$/g, '')}/`.replace(/^\/\/$/, '/')
+}
+
+/**
+ * Builds the relative URL of the page of an image.
+ *
+ * @param {string} imagePath - The relative path to the image within the gallery directory.
+ * @param {string} [sectionName] - The section whose images are navigated from the page. By
+ * default, the first section including the image.
+ * @returns {string} The relative URL of the page.
+ */
+export function getPhotoPageUrl(imagePath: string, sectionName?: string): string {
+    const encodedPath: string = imagePath.split('/').map(encodeURIComponent).join('/')
+    return sectionName === undefined
+        ? `photo/${encodedPath}`
+        : `photo/${encodedPath}?${QUERY_STRING_KEYS.SECTION}=${encodeURIComponent(sectionName)}`
+}
+
+/**
+ * Builds the relative URL of the page of a section.
+ *
+ * @param {string} sectionName - The name of the section.
+ * @returns {string} The relative URL of the page.
+ */
+export function getSectionPageUrl(sectionName: string): string {
+    return `section/${encodeURIComponent(sectionName)}`
+}
+
+/**
+ * Builds the relative URL of the pages of the images of a section, loaded by the webpage while
+ * scrolling.
+ *
+ * @param {string} sectionName - The name of the section.
+ * @returns {string} The relative URL, with a "{page}" placeholder for the page number.
+ */
+export function getSectionImagesPageUrl(sectionName: string): string {
+    return `api/sections/${encodeURIComponent(sectionName)}?${QUERY_STRING_KEYS.PAGE}={page}`
+}
+
+/**
+ * Collects the sections of the gallery, in the order they appear on the webpage:
+ * - the featured section
+ * - the sections defined in the settings
+ * - the automatic albums, if enabled (albums named like a section are merged into it)
+ * - the global section, including all the images that are not in any other section
+ * Images that do not exist in the gallery (or are excluded) are left out of the sections.
+ *
+ * @returns {Map<string, Section>} The sections, keyed by section name.
+ */
+export function collectSections(): Map<string, Section> {
+    const settings: Settings = getSettings()
+    const imagePaths: string[] = collectImagePaths()
+    const existingImagePaths: Set<string> = new Set(imagePaths)
+    const sectionImagePaths: Set<string> = new Set() // Images in featured or any sections
+    const sections: Map<string, Section> = new Map()
+
+    const addSection = (sectionName: string, section: Section): void => {
+        const includes: string[] = section.includes.filter(image => existingImagePaths.has(image))
+        includes.forEach(image => sectionImagePaths.add(image))
+        sections.set(sectionName, { ...section, includes })
+    }
+
+    // Feature section is always at the top
+    addSection(FEATURED_SECTION_NAME, {
+        title: 'Featured:',
+        description: '',
+        includes: settings.featured,
+    })
+
+    for (const [sectionName, section] of Object.entries(settings.sections)) {
+        addSection(sectionName, section)
+    }
+
+    // Automatic albums group the images that are not in any sections yet
+    const autoAlbums: AutoAlbums | undefined = settings['auto-albums']
+    if (autoAlbums !== undefined) {
+        const albums: Map<string, Section> = collectAutoAlbums(
+            imagePaths.filter(imagePath => !sectionImagePaths.has(imagePath)),
+            autoAlbums,
+            imagePath => getImageMetadata(imagePath)?.dateTaken)
+
+        for (const [albumName, album] of albums) {
+            const section: Section | undefined = sections.get(albumName)
+            addSection(albumName, section === undefined ? album : {
+                ...section,
+                includes: [...section.includes, ...album.includes],
+                parent: album.parent,
+            })
+        }
+    }
+
+    // Global section includes all the images that are not in any sections (including the
+    // featured section)
+    addSection(GLOBAL_SECTION_NAME, {
+        title: 'Photos:',
+        description: '',
+        includes: imagePaths.filter(imagePath => !sectionImagePaths.has(imagePath)),
+    })
+
+    return sections
+}
+
+/**
+ * Collects the albums nested in a section.
+ *
+ * @param {Map<string, Section>} sections - The sections of the gallery.
+ * @param {string} sectionName - The name of the section.
+ * @returns {Map<string, Section>} The nested albums, keyed by album name.
+ */
+export function collectNestedAlbums(
+    sections: Map<string, Section>,
+    sectionName: string,
+): Map<string, Section> {
+    return new Map([...sections].filter(([, section]) => section.parent === sectionName))
+}
+
+/**
+ * Picks the section of an image, e.g., the section navigated from the page of the image. Nested
+ * albums are preferred over their parent albums, which include all their images, and the other
+ * sections over the featured section.
+ *
+ * @param {Map<string, Section>} sections - The sections of the gallery.
+ * @param {string} imagePath - The relative path to the image within the gallery directory.
+ * @param {string} [sectionName] - The preferred section, used if it includes the image.
+ * @returns {string | undefined} The name of the section, or undefined if no section includes the
+ * image.
+ */
+export function resolvePhotoSection(
+    sections: Map<string, Section>,
+    imagePath: string,
+    sectionName?: string,
+): string | undefined {
+    if (sectionName !== undefined && sections.get(sectionName)?.includes.includes(imagePath)) {
+        return sectionName
+    }
+
+    return pickImageSection(sections, [...sections.keys()]
+        .filter(name => sections.get(name)?.includes.includes(imagePath)))
+}
+
+/**
+ * Picks the section of every image of the gallery at once, as resolvePhotoSection would without a
+ * preferred section.
+ *
+ * @param {Map<string, Section>} sections - The sections of the gallery.
+ * @returns {Map<string, string>} The names of the sections, keyed by image path.
+ */
+export function collectImageSections(sections: Map<string, Section>): Map<string, string> {
+    const imageSections: Map<string, string> = new Map()
+    collectSectionNamesByImage(sections).forEach((sectionNames, imagePath) => {
+        const sectionName: string | undefined = pickImageSection(sections, sectionNames)
+        if (sectionName !== undefined) {
+            imageSections.set(imagePath, sectionName)
+        }
+    })
+
+    return imageSections
+}
+
+/**
+ * Lists the sections including each image.
+ *
+ * @param {Map<string, Section>} sections - The sections of the gallery.
+ * @returns {Map<string, string[]>} The names of the sections, in the order of the gallery, keyed
+ * by image path.
+ */
+export function collectSectionNamesByImage(
+    sections: Map<string, Section>,
+): Map<string, string[]> {
+    const sectionNamesByImage: Map<string, string[]> = new Map()
+    for (const [sectionName, section] of sections) {
+        for (const imagePath of section.includes) {
+            const sectionNames: string[] = sectionNamesByImage.get(imagePath) ?? []
+            sectionNames.push(sectionName)
+            sectionNamesByImage.set(imagePath, sectionNames)
+        }
+    }
+
+    return sectionNamesByImage
+}
+
+/**
+ * Picks the section of an image among the sections including it, in the order of the gallery.
+ */
+function pickImageSection(
+    sections: Map<string, Section>,
+    sectionNames: string[],
+): string | undefined {
+    const deepestSectionNames: string[] = sectionNames.filter(name =>
+        !sectionNames.some(other => sections.get(other)?.parent === name))
+    return deepestSectionNames.find(name => name !== FEATURED_SECTION_NAME)
+        ?? deepestSectionNames[0]
+}
+
+/**
+ * Gets the number of images per page of a section, as configured in the settings.
+ *
+ * @returns {number} The page size, at least 1.
+ */
+export function getPageSize(): number {
+    const pageSize: number = getSettings()['page-size'] ?? DEFAULT_PAGE_SIZE
+    return Number.isInteger(pageSize) && pageSize > 0 ? pageSize : DEFAULT_PAGE_SIZE
+}
+
+/**
+ * Computes the number of pages of a section. A section without images has one empty page.
+ *
+ * @param {Section} section - The section.
+ * @returns {number} The number of pages.
+ */
+export function getPageCount(section: Section): number {
+    return Math.max(1, Math.ceil(section.includes.length / getPageSize()))
+}
+
+/**
+ * Gets the images of a page of a section.
+ *
+ * @param {Section} section - The section.
+ * @param {number} page - The page number, starting from 1.
+ * @returns {string[]} The relative paths to the images of the page, empty if the page is out of
+ * range.
+ */
+export function getPageImagePaths(section: Section, page: number): string[] {
+    const pageSize: number = getPageSize()
+    return section.includes.slice((page - 1) * pageSize, page * pageSize)
 }
 
 /**
  * Generates a cache path for an image based on its original path and the desired size.
  *
- * This function constructs a cache path by transforming the directory structure of the original
- * image path into a single string and appending the desired size and original file name. The
- * resulting path is resolved within a predefined cache directory.
+ * This function constructs a cache path by joining the directories of the original image path, the
+ * desired size and the original file name with underscores (e.g., `2021_04_07_500k_DSC04018.JPG`).
+ * The directories and the file name are escaped first (see `escapeCachePathSegment`), so that two
+ * images never share a cache path. The resulting path is resolved within a predefined cache
+ * directory. Images converted to another format have the format appended as an extension, next to
+ * the cached image of the same size.
  *
  * @param {string} imagePath - The original file path of the image.
  * @param {string} size - The desired size identifier for the cached image.
+ * @param {OutputFormat} [format] - The format the cached image is converted to, if any.
  * @returns {string} The resolved cache path for the image.
  */
-export function getImageCachePath(imagePath: string, size: string): string {
-    const dirString: string = path.dirname(imagePath).split('/').join('_')
-    const dirStringWithoutLeadingDot: string
-        = dirString.startsWith('.') ? dirString.substring(1) : dirString
-    const fileName = path.basename(imagePath)
+export function getImageCachePath(imagePath: string, size: string, format?: OutputFormat): string {
+    const segments: string[] = path.normalize(imagePath).split('/').map(escapeCachePathSegment)
+    const fileName: string = segments.pop() as string
+
+    // Images at the root of the gallery have an empty directory
+    const dirString: string = segments.join('_')
+    const extension: string = format === undefined ? '' : `.${format}`
+
+    return path.join(galleryPaths.cacheDir, `${dirString}_${size}_${fileName}${extension}`)
+}
+
+/**
+ * Escapes a directory or the file name of an image for its cache path, so that it contains no
+ * underscore (the separator of the cache path) and does not start with a dot (cached images would
+ * be hidden files otherwise). `!` is doubled, `_` becomes `!u` and a leading `.` becomes `!d`.
+ */
+function escapeCachePathSegment(segment: string): string {
+    return segment.replace(/!/g, '!!').replace(/_/g, '!u').replace(/^\./, '!d')
+}
+
+/**
+ * Picks the preferred output format among the enabled ones that the client explicitly accepts.
+ * Wildcards (e.g., `*\/*` or `image/*`) are ignored, since clients sending only wildcards do not
+ * necessarily support modern formats.
+ *
+ * @param {string | undefined} accept - The Accept header of the request.
+ * @param {OutputFormat[]} enabledFormats - The enabled output formats, in order of preference.
+ * @returns {OutputFormat | undefined} The negotiated format, or undefined if none is accepted.
+ */
+export function negotiateImageFormat(
+    accept: string | undefined,
+    enabledFormats: OutputFormat[],
+): OutputFormat | undefined {
+    const acceptedTypes: Set<string> = new Set()
+    for (const mediaRange of (accept ?? '').split(',')) {
+        const [type, ...parameters] = mediaRange.split(';').map(part => part.trim().toLowerCase())
+        const quality: string | undefined = parameters.find(parameter => parameter.startsWith('q='))
+        if (quality === undefined || Number(quality.substring(2)) > 0) {
+            acceptedTypes.add(type)
+        }
+    }
 
-    return path.join(CACHE_DIR, `${dirStringWithoutLeadingDot}_${size}_${fileName}`)
+    return enabledFormats.find(format => acceptedTypes.has(`image/${format}`))
 }
 
 /**
- * Compresses an image to a specified size using the jpegoptim tool.
+ * Compresses an image to a specified size using the image processing backend selected in the
+ * settings. If the selected backend does not support the format of the image or the size, or is
+ * not installed, the other backends are tried in turn.
  *
  * @param {string} imagePath - The path to the input image to be compressed.
- * @param {string} size - The maximum size of the output image in kilobytes (e.g., "100k").
+ * @param {string} size - The cache size of the output image, either the maximum size in kilobytes
+ * (e.g., "100k") or the maximum dimensions (e.g., "w800").
  * @param {string} outputImagePath - The path where the compressed image will be saved.
+ * @param {OutputFormat} [outputFormat] - The format of the compressed image (default: the format
+ * of the original image).
  * @returns {Promise<void>} - A promise that resolves when the image has been successfully
  * compressed.
- * @throws {Error} - Throws an error if the compression command fails.
+ * @throws {ImageProcessingError} - Throws an error if no backend can compress the image.
+ * @see parseCacheSize
  */
 export async function compressImage(
     imagePath: string,
     size: string,
     outputImagePath: string,
+    outputFormat?: OutputFormat,
 ): Promise<void> {
-    const resizeCommand: string
-        = `jpegoptim --stdout -sqf -S${size} ${imagePath} > ${outputImagePath}`
-    return new Promise((resolve, reject) => {
-        exec(resizeCommand, (error, _, stderr) => {
-            if (error) {
-                reject(stderr)
-            } else {
-                resolve()
+    const cacheSize: CacheSize | undefined = parseCacheSize(size)
+    if (cacheSize === undefined) {
+        throw new ImageProcessingError(
+            'INVALID_SIZE', imagePath, undefined, `invalid size "${size}"`)
+    }
+
+    const format: ImageFormat | undefined = detectImageFormat(imagePath)
+    if (format === undefined) {
+        throw new ImageProcessingError('UNSUPPORTED_FORMAT', imagePath)
+    }
+
+    const resize: boolean = cacheSize.maxWidth !== undefined || cacheSize.maxHeight !== undefined
+
+    const preferred: ImageProcessorName = getSettings()['image-processor'] ?? 'jpegoptim'
+    let lastError: ImageProcessingError
+        = new ImageProcessingError('UNSUPPORTED_FORMAT', imagePath, undefined, format)
+    for (const processor of getImageProcessors(preferred)) {
+        if (!processor.supports(format, outputFormat ?? format)
+            || (resize && !processor.canResize)) {
+            continue
+        }
+
+        try {
+            return await processor.compress({
+                inputPath: imagePath,
+                outputPath: outputImagePath,
+                format,
+                outputFormat: outputFormat ?? format,
+                size: cacheSize.targetSize,
+                maxWidth: cacheSize.maxWidth,
+                maxHeight: cacheSize.maxHeight,
+            })
+        } catch (error) {
+            if (!(error instanceof ImageProcessingError) || error.code !== 'BACKEND_UNAVAILABLE') {
+                throw error
             }
-        })
-    })
+
+            // Fall back to the next backend
+            lastError = error
+        }
+    }
+
+    throw lastError
 }
 
 /**
@@ -115,34 +802,425 @@ export async function compressImage(
  *
  * This function checks if a cached version of the image already exists. If not, it compresses
  * the original image from the gallery directory to the desired size using the `compressImage`
- * function. The resulting cached image path is then returned.
+ * function. The resulting cached image path is then returned. RAW files and videos are compressed
+ * from their JPEG preview, which is cached as well.
+ *
+ * The compression runs in a job queue bounded by the `cache-workers` setting. Concurrent calls for
+ * the same cache path share a single job, and the cached image is written to a temporary file and
+ * then renamed, so a partially written file is never served.
  *
  * @param {string} imagePath - The relative path to the original image within the gallery directory.
- * @param {string} size - The desired size identifier for the cached image (e.g., "100k").
+ * @param {string} size - The desired size identifier for the cached image (e.g., "100k" or
+ * "w800").
+ * @param {OutputFormat} [format] - The format of the cached image, if it should be converted from
+ * the format of the original image.
+ * @param {boolean} [background=false] - Whether the compression should yield to the other
+ * compressions, e.g., when warming up the cache.
  * @returns {Promise<string>} - A promise resolving to the relative path of the cached image.
+ * @see extractAndGetPreviewCachePath
  */
 export async function compressAndGetImageCachePath(
     imagePath: string,
     size: string,
+    format?: OutputFormat,
+    background: boolean = false,
 ): Promise<string> {
-    const originalImagePath: string = path.join(GALLERY_DIR, imagePath)
+    let sourcePath: string = path.join(galleryPaths.galleryDir, imagePath)
+    if (getMediaType(imagePath) !== 'image') {
+        // RAW files and videos are compressed from their preview, and always converted, so their
+        // cached images are served as images
+        sourcePath = path.join(galleryPaths.cacheDir,
+            await extractAndGetPreviewCachePath(imagePath, background))
+        format ??= 'jpeg'
+    } else if (format !== undefined && format === detectImageFormat(sourcePath)) {
+        // No conversion is needed
+        format = undefined
+    }
+
+    return generateCacheFile(
+        imagePath, getImageCachePath(imagePath, size, format), size, format, background,
+        temporaryPath => compressImage(sourcePath, size, temporaryPath, format))
+}
 
-    const imageCachePath: string = getImageCachePath(imagePath, size)
-    if (!fs.existsSync(imageCachePath)) {
-        // Create a cache file if not exist
-        await compressImage(originalImagePath, size, imageCachePath)
+/**
+ * Extracts the JPEG preview of a RAW file or the poster frame of a video to the cache directory,
+ * if it is not cached yet, returning the path to the cached preview. Like the cached images, the
+ * preview is generated in the job queue.
+ *
+ * @param {string} imagePath - The relative path to the RAW file or the video within the gallery
+ * directory.
+ * @param {boolean} [background=false] - Whether the extraction should yield to the other jobs.
+ * @returns {Promise<string>} - A promise resolving to the relative path of the cached preview.
+ * @throws {ImageProcessingError} - Throws an error if the preview cannot be extracted.
+ * @see extractPreview
+ */
+export async function extractAndGetPreviewCachePath(
+    imagePath: string,
+    background: boolean = false,
+): Promise<string> {
+    const originalImagePath: string = path.join(galleryPaths.galleryDir, imagePath)
+    return generateCacheFile(
+        imagePath, getImageCachePath(imagePath, PREVIEW_CACHE_SIZE, 'jpeg'), PREVIEW_CACHE_SIZE,
+        'jpeg', background, temporaryPath => extractPreview(originalImagePath, temporaryPath))
+}
+
+/**
+ * Generates a cache file in the job queue, unless it is up to date, and records it in the cache
+ * manifest. The file is written to a temporary file and then renamed.
+ */
+async function generateCacheFile(
+    imagePath: string,
+    imageCachePath: string,
+    size: string,
+    format: OutputFormat | undefined,
+    background: boolean,
+    generate: (temporaryPath: string) => Promise<void>,
+): Promise<string> {
+    const cacheFile: string = path.basename(imageCachePath)
+    const upToDate: boolean = isCacheFileUpToDate(cacheFile, imagePath)
+    if (!background) {
+        imageCacheRequestsTotal.inc({ size, result: upToDate ? 'hit' : 'miss' })
+    }
+    if (!upToDate) {
+        // Create a cache file if not exist, or replace it if the original image has changed
+        cacheJobQueue.setConcurrency(getSettings()['cache-workers'] ?? os.cpus().length)
+        await cacheJobQueue.run(imageCachePath, async () => {
+            // The cache file may have been created while the job was queued
+            if (isCacheFileUpToDate(cacheFile, imagePath)) {
+                return
+            }
+
+            const sourceStats: fs.Stats
+                = await fs.promises.stat(path.join(galleryPaths.galleryDir, imagePath))
+            const temporaryPath: string = `${imageCachePath}.${crypto.randomUUID()}.tmp`
+            const startTime: number = performance.now()
+            try {
+                await generate(temporaryPath)
+                await fs.promises.rename(temporaryPath, imageCachePath)
+            } finally {
+                await fs.promises.rm(temporaryPath, { force: true })
+            }
+            logger.debug('Cached image generated', {
+                image: imagePath,
+                cacheFile,
+                ms: Math.round(performance.now() - startTime),
+            })
+
+            cacheManifest.set(cacheFile, {
+                source: imagePath,
+                sourceMtimeMs: sourceStats.mtimeMs,
+                sourceBytes: sourceStats.size,
+                size,
+                format,
+                bytes: (await fs.promises.stat(imageCachePath)).size,
+                lastAccessMs: Date.now(),
+            })
+            await enforceCacheSizeLimit()
+        }, background)
     }
 
-    return imageCachePath.substring(CACHE_DIR.length + 1)
+    cacheManifest.touch(cacheFile)
+    return imageCachePath.substring(galleryPaths.cacheDir.length + 1)
 }
 
 /**
- * Retrieves the application settings, optionally checking for updates.
+ * Writes the pending changes of the cache manifest, so the cached images generated lately are not
+ * generated again after a restart.
+ */
+export function flushCacheManifest(): void {
+    cacheManifest.flush()
+}
+
+/**
+ * Gets the record of a cached image, e.g., to derive the HTTP validators of the cached image from
+ * the original image it was generated from.
  *
- * @param {boolean} [checkUpdate=false] - A boolean indicating whether to check for updates before
+ * @param {string} imageCachePath - The relative path of the cached image, as returned by
+ * compressAndGetImageCachePath.
+ * @returns {CacheManifestEntry | undefined} The record, or undefined if the image is not recorded.
+ */
+export function getCacheManifestEntry(imageCachePath: string): CacheManifestEntry | undefined {
+    return cacheManifest.get(imageCachePath)
+}
+
+/**
+ * Checks whether a cached image exists and was generated from the current version of the original
+ * image. Cached images missing from the manifest (e.g., generated before the manifest existed) are
+ * up to date if they are newer than the original image, in which case they are recorded.
+ *
+ * @param {string} cacheFile - The file name of the cached image within the cache directory.
+ * @param {string} imagePath - The relative path to the original image within the gallery directory.
+ * @returns {boolean} True if the cached image can be served.
+ */
+function isCacheFileUpToDate(cacheFile: string, imagePath: string): boolean {
+    let cacheStats: fs.Stats
+    let sourceStats: fs.Stats
+    try {
+        cacheStats = fs.statSync(path.join(galleryPaths.cacheDir, cacheFile))
+        sourceStats = fs.statSync(path.join(galleryPaths.galleryDir, imagePath))
+    } catch (error) {
+        return false
+    }
+
+    const entry: CacheManifestEntry | undefined = cacheManifest.get(cacheFile)
+    if (entry !== undefined) {
+        return entry.source === imagePath
+            && entry.sourceMtimeMs === sourceStats.mtimeMs
+            && entry.sourceBytes === sourceStats.size
+    }
+
+    if (cacheStats.mtimeMs < sourceStats.mtimeMs) {
+        return false
+    }
+
+    const [size, format] = parseCacheFileName(cacheFile, imagePath)
+    cacheManifest.set(cacheFile, {
+        source: imagePath,
+        sourceMtimeMs: sourceStats.mtimeMs,
+        sourceBytes: sourceStats.size,
+        size,
+        format,
+        bytes: cacheStats.size,
+        lastAccessMs: cacheStats.mtimeMs,
+    })
+
+    return true
+}
+
+/**
+ * Recovers the cache size and the output format from the file name of a cached image.
+ * @see getImageCachePath
+ */
+function parseCacheFileName(
+    cacheFile: string,
+    imagePath: string,
+): [string, OutputFormat | undefined] {
+    // The file name is "<directory>_<size>_<file name>[.<format>]", none of them containing "_"
+    const fileName: string = escapeCachePathSegment(path.basename(imagePath))
+    const emptySizeCacheFile: string = path.basename(getImageCachePath(imagePath, ''))
+    const directoryPrefix: string
+        = emptySizeCacheFile.substring(0, emptySizeCacheFile.length - fileName.length - 1)
+    const sizeAndFileName: string = cacheFile.substring(directoryPrefix.length)
+    const size: string = sizeAndFileName.substring(0, sizeAndFileName.indexOf(`_${fileName}`))
+    const extension: string = sizeAndFileName.substring(size.length + 1 + fileName.length)
+
+    return [size, extension ? extension.substring(1) as OutputFormat : undefined]
+}
+
+/**
+ * Parses a byte size with an optional unit, e.g., "500m" or "2g".
+ *
+ * @param {string} byteSize - The byte size. Units are k, m and g (powers of 1024).
+ * @returns {number | undefined} The size in bytes, or undefined if the size is malformed.
+ */
+export function parseByteSize(byteSize: string): number | undefined {
+    const match = /^(\d+(?:\.\d+)?)\s*([kmg]?)b?$/i.exec(byteSize.trim())
+    if (!match) {
+        return undefined
+    }
+
+    const exponent: number = ['', 'k', 'm', 'g'].indexOf(match[2].toLowerCase())
+    return Math.floor(Number(match[1]) * Math.pow(1024, exponent))
+}
+
+/**
+ * Evicts the least recently used cached images until the total size of the cache does not exceed
+ * the `cache-max-size` setting.
+ *
+ * @returns {Promise<void>} A promise that resolves when the cache fits in the limit.
+ */
+export async function enforceCacheSizeLimit(): Promise<void> {
+    const maxSize: string | undefined = getSettings()['cache-max-size']
+    const maxBytes: number | undefined = maxSize === undefined ? undefined : parseByteSize(maxSize)
+    if (maxBytes === undefined) {
+        return
+    }
+
+    let totalBytes: number = cacheManifest.getTotalBytes()
+    if (totalBytes <= maxBytes) {
+        return
+    }
+
+    const entries = cacheManifest.list().sort(([, a], [, b]) => a.lastAccessMs - b.lastAccessMs)
+    for (const [cacheFile, entry] of entries) {
+        if (totalBytes <= maxBytes) {
+            break
+        }
+
+        await fs.promises.rm(path.join(galleryPaths.cacheDir, cacheFile), { force: true })
+        cacheManifest.delete(cacheFile)
+        totalBytes -= entry.bytes
+    }
+}
+
+/**
+ * Checks whether the cache has reached the `cache-max-size` setting.
+ *
+ * @returns {boolean} True if no more images should be cached ahead of time.
+ */
+function isCacheFull(): boolean {
+    const maxSize: string | undefined = getSettings()['cache-max-size']
+    const maxBytes: number | undefined = maxSize === undefined ? undefined : parseByteSize(maxSize)
+    return maxBytes !== undefined && cacheManifest.getTotalBytes() >= maxBytes
+}
+
+/**
+ * Removes the cached images that are no longer needed from the cache directory:
+ * - cached images of images that were removed from the gallery or are now excluded
+ * - cached images of cache sizes or output formats that were removed from the settings
+ * - cached images generated from a previous version of the original image
+ * - temporary files left behind by interrupted jobs
+ * Then, evicts the least recently used cached images if the cache exceeds its maximum size.
+ *
+ * @returns {Promise<void>} A promise that resolves when the garbage is collected.
+ */
+export async function collectCacheGarbage(): Promise<void> {
+    const settings: Settings = getSettings()
+
+    // Expected cache files and their original images
+    const expectedCacheFiles: Map<string, string> = new Map()
+    for (const imagePath of collectImagePaths()) {
+        if (getMediaType(imagePath) !== 'image') {
+            expectedCacheFiles.set(path.basename(
+                getImageCachePath(imagePath, PREVIEW_CACHE_SIZE, 'jpeg')), imagePath)
+        }
+
+        for (const size of settings['cache-sz']) {
+            for (const format of getCacheFormats(imagePath, settings)) {
+                expectedCacheFiles.set(
+                    path.basename(getImageCachePath(imagePath, size, format)), imagePath)
+            }
+        }
+    }
+
+    const now: number = Date.now()
+    for (const cacheFile of await fs.promises.readdir(galleryPaths.cacheDir)) {
+        // Keep hidden files, e.g., the manifest
+        if (cacheFile.startsWith('.')) {
+            continue
+        }
+
+        const cachePath: string = path.join(galleryPaths.cacheDir, cacheFile)
+        if (cacheFile.endsWith('.tmp')) {
+            // Temporary files of running jobs are recent
+            const stats: fs.Stats = await fs.promises.stat(cachePath)
+            if (now - stats.mtimeMs > CACHE_TEMPORARY_FILE_TTL) {
+                await fs.promises.rm(cachePath, { force: true })
+            }
+            continue
+        }
+
+        const imagePath: string | undefined = expectedCacheFiles.get(cacheFile)
+        if (imagePath === undefined || !isCacheFileUpToDate(cacheFile, imagePath)) {
+            await fs.promises.rm(cachePath, { force: true })
+            cacheManifest.delete(cacheFile)
+        }
+    }
+
+    // Forget the cached images removed by hand
+    for (const [cacheFile] of cacheManifest.list()) {
+        if (!fs.existsSync(path.join(galleryPaths.cacheDir, cacheFile))) {
+            cacheManifest.delete(cacheFile)
+        }
+    }
+
+    await enforceCacheSizeLimit()
+    cacheManifest.save()
+}
+
+/**
+ * Generates, in the background, the cached images of every cache size and output format for the
+ * given images. Images whose format is not supported are skipped, as well as the RAW files and the
+ * videos whose preview cannot be extracted, and failures are logged. The warm-up stops when the
+ * cache reaches its maximum size.
+ *
+ * @param {string[]} [imagePaths] - The relative paths to the images within the gallery directory
+ * (default: all the images).
+ * @returns {Promise<void>} A promise that resolves when all the cached images are generated.
+ */
+export async function warmUpCache(imagePaths: string[] = collectImagePaths()): Promise<void> {
+    const settings: Settings = getSettings()
+
+    for (const imagePath of imagePaths) {
+        // Stop before evicting the cached images that were just generated
+        if (isCacheFull()) {
+            return
+        }
+
+        if (getMediaType(imagePath) !== 'image') {
+            // Report a missing preview once, rather than for every cached image
+            try {
+                await extractAndGetPreviewCachePath(imagePath, true)
+            } catch (error) {
+                logger.warn('Cannot extract the preview of an image', { image: imagePath, error })
+                continue
+            }
+        } else if (detectImageFormat(path.join(galleryPaths.galleryDir, imagePath)) === undefined) {
+            continue
+        }
+
+        // The images are processed one by one, so the cache limit is checked in between
+        const jobs: Promise<unknown>[] = []
+        for (const size of settings['cache-sz']) {
+            for (const format of getCacheFormats(imagePath, settings)) {
+                jobs.push(compressAndGetImageCachePath(imagePath, size, format, true)
+                    .catch(error => logger.warn('Cannot generate a cached image',
+                        { image: imagePath, size, format, error })))
+            }
+        }
+        await Promise.all(jobs)
+    }
+}
+
+/**
+ * Lists the formats of the cached images of an image: the format of the original image (undefined)
+ * and the output formats enabled in the settings. The cached images of RAW files and videos are
+ * always converted, to JPEG by default.
+ */
+function getCacheFormats(imagePath: string, settings: Settings): (OutputFormat | undefined)[] {
+    const outputFormats: OutputFormat[] = settings['output-formats'] ?? []
+    return getMediaType(imagePath) === 'image'
+        ? [undefined, ...outputFormats]
+        : [...new Set<OutputFormat>(['jpeg', ...outputFormats])]
+}
+
+/**
+ * Retrieves the application settings, optionally checking for updates. Checking for updates does
+ * not read the settings file unless it has changed, as the file is watched.
+ *
+ * @param {boolean} [checkUpdate=true] - A boolean indicating whether to check for updates before
  * retrieving settings.
  * @returns {Settings} - The application settings.
  */
-export function getSettings(checkUpdate: boolean = false): Settings {
+export function getSettings(checkUpdate: boolean = true): Settings {
     return settingsMonitor.getContent(checkUpdate)
 }
+
+/**
+ * Checks whether the server can serve the gallery: the gallery directory must be readable, and the
+ * cache directory writable.
+ *
+ * @returns {HealthStatus} The status of the server, with the problems found.
+ */
+export function checkHealth(): HealthStatus {
+    const problems: string[] = []
+    const checks: [string, number, string][] = [
+        [galleryPaths.galleryDir, fs.constants.R_OK, 'the gallery directory is not readable'],
+        [galleryPaths.cacheDir, fs.constants.W_OK, 'the cache directory is not writable'],
+    ]
+    for (const [dir, mode, problem] of checks) {
+        try {
+            fs.accessSync(dir, mode)
+        } catch (error) {
+            problems.push(problem)
+        }
+    }
+
+    return {
+        status: problems.length === 0 ? 'ok' : 'error',
+        problems,
+        uptime: Math.round(process.uptime()),
+        images: collectImagePaths().length,
+        cacheJobs: cacheJobQueue.size,
+    }
+}
@@ -1,3 +1,6 @@
+import { ImageProcessorName, OutputFormat } from './image_processor.js'
+import { LogFormat, LogLevel } from './logger.js'
+
 /**
  * Interface of settings. The settings file is `gallery-settings.json`.
  * @see SETTINGS_FILE
@@ -6,9 +9,39 @@ export interface Settings {
     // The name of the website
     ['site-name']: string
 
+    // The public URL of the website, including the scheme and, if the website is not at the root
+    // of its host, the path (e.g., "https://example.com/gallery/"). Used for the absolute URLs of
+    // the sitemap, robots.txt and the social cards (default: "https://<site-name><base-path>").
+    ['base-url']?: string
+
+    // The title, description and footer of the webpages (default: the site name as title)
+    branding?: Branding
+
+    // The name of the theme of the webpages, a directory of `themes/`. A theme overrides any of
+    // the templates, CSS and JS files of `src/template`; the other files are taken from there.
+    // The built-in templates are used if not set.
+    theme?: string
+
     // The port the server listens on
     port: number
 
+    // The address the server listens on, e.g., "127.0.0.1" to only accept the connections of a
+    // reverse proxy on the same machine (default: all the interfaces)
+    host?: string
+
+    // The path the website is served under, e.g., "/photos" when a reverse proxy forwards
+    // "https://example.com/photos/..." to the server without removing the path (default: the path
+    // of base-url, or "/"). Requests outside of it are answered with 404.
+    ['base-path']?: string
+
+    // Whether the X-Forwarded-Proto, X-Forwarded-Host and X-Forwarded-For headers are trusted, to
+    // know the scheme, host and address of the clients of a reverse proxy (default: false). Only
+    // enable it if the server cannot be reached without going through the proxy.
+    ['trust-proxy']?: boolean
+
+    // The certificate and the private key of the server, to serve HTTPS instead of HTTP
+    https?: HttpsSettings
+
     // An array of regular expressions used to exclude files.
     // Any file whose path matches any of these regular expressions will be filtered out and not
     // included when the webpage is generated.
@@ -20,8 +53,69 @@ export interface Settings {
     // Other sections
     sections: { [sectionName: string]: Section }
 
-    // Available cache sizes
+    // Albums generated automatically from the images that are not in the featured section or any
+    // other section. An album named like a section is merged into it: the images of the album are
+    // appended to the images of the section. Disabled if not set.
+    ['auto-albums']?: AutoAlbums
+
+    // Available cache sizes. A size is either a target file size in kilobytes (e.g., "500k"), or
+    // maximum dimensions in pixels: "w800" (width), "h600" (height) or "w1600h1200" (both).
+    // The first size is used for the images on the webpage.
     ['cache-sz']: string[],
+
+    // The number of images per page of a section (default: 60). Only the first page is rendered
+    // in the webpage; the next pages are loaded while scrolling.
+    ['page-size']?: number
+
+    // The `sizes` attribute of the images on the webpage, telling the browser which of the
+    // dimension-based cache sizes to pick for each viewport
+    ['image-sizes']?: string,
+
+    // The preferred image processing backend used to generate the cache (default: jpegoptim).
+    // The other backends are used for the formats it does not support, or if it is not installed.
+    ['image-processor']?: ImageProcessorName
+
+    // Modern formats that cached images are converted to when the client accepts them (see the
+    // Accept request header), in order of preference, e.g., ["avif", "webp"]
+    ['output-formats']?: OutputFormat[]
+
+    // The maximum number of cached images generated at the same time (default: the number of CPUs)
+    ['cache-workers']?: number
+
+    // Whether to generate the cached images in the background at startup and when new images are
+    // found, instead of on the first request (default: true)
+    ['cache-warm-up']?: boolean
+
+    // The maximum total size of the cached images, e.g., "2g" or "500m". The least recently used
+    // cached images are evicted when the cache grows beyond it. Unlimited if not set.
+    ['cache-max-size']?: string
+
+    // The credentials of the admin API, which edits the sections and the featured images of this
+    // file. The admin API is disabled if not set.
+    admin?: AdminCredentials
+
+    // The secret key signing the sessions of the visitors who unlocked protected sections, and the
+    // share links of the protected sections. If not set, a random key is generated at startup, so
+    // the sessions and the share links end when the server restarts.
+    secret?: string
+
+    // The ingestion of the images uploaded with the admin API (default: all the defaults of
+    // UploadSettings)
+    uploads?: UploadSettings
+
+    // The logs of the server (default: all the defaults of LoggingSettings)
+    logging?: LoggingSettings
+}
+
+export interface Branding {
+    // The title of the website, shown in the top bar and the titles of the pages
+    title?: string
+
+    // The description of the website, for search engines and the social cards of the webpage
+    description?: string
+
+    // The text of the bottom bar, e.g., a copyright notice
+    footer?: string
 }
 
 export interface Section {
@@ -33,4 +127,112 @@ export interface Section {
 
     // Included images
     includes: string[]
+
+    // The name of the album this album is nested in, for automatic albums
+    parent?: string
+
+    // Who can see the section and its images (default: "public"):
+    // - "public": listed on the webpage, in the sitemap and in the REST API
+    // - "unlisted": only reachable through the link of its page
+    // - "protected": only reachable after entering its password, or through a share link
+    // An image stays public as long as a section that is not protected includes it.
+    visibility?: SectionVisibility
+
+    // The password of a protected section
+    password?: string
+}
+
+/**
+ * Visibility of a section.
+ * @see Section['visibility']
+ */
+export type SectionVisibility = 'public' | 'unlisted' | 'protected'
+
+/**
+ * Settings of the automatic albums.
+ * @see Settings['auto-albums']
+ */
+export interface AutoAlbums {
+    // "folder" groups the images by directory (e.g., "2021/04/07"), "date" by capture date
+    by: 'folder' | 'date'
+
+    // The number of nested album levels (default: 1): directory levels when grouping by folder;
+    // year, month and day when grouping by date. For example, with a depth of 2, the album
+    // "2021/04" includes all the images of "2021/04/07", and is nested in the album "2021".
+    depth?: number
+
+    // The order of the albums (default: "desc", i.e., the latest dates first)
+    order?: 'asc' | 'desc'
+}
+
+/**
+ * A parsed cache size. It has either a target file size, or maximum dimensions.
+ * @see Settings['cache-sz']
+ */
+export interface CacheSize {
+    // Target file size (e.g., "500k")
+    targetSize?: string
+
+    // Maximum width and height in pixels
+    maxWidth?: number
+    maxHeight?: number
+}
+
+/**
+ * Credentials of the admin API. Requests are authenticated with either the token or the user name
+ * and the password.
+ * @see Settings['admin']
+ */
+export interface AdminCredentials {
+    // A secret token, sent as "Authorization: Bearer <token>"
+    token?: string
+
+    // A user name and a password, sent with the HTTP basic authentication
+    username?: string
+    password?: string
+}
+
+/**
+ * Settings of the images uploaded with the admin API.
+ * @see Settings['uploads']
+ */
+export interface UploadSettings {
+    // The directory of the gallery the images are stored in. "{yyyy}", "{mm}" and "{dd}" are
+    // replaced by the capture date of the image, or the upload date if it is unknown (default:
+    // "{yyyy}/{mm}/{dd}")
+    folder?: string
+
+    // The maximum size of an uploaded image, and of all the images uploaded with a single request,
+    // e.g., "20m" (default: "50m")
+    ['max-size']?: string
+
+    // Whether the location is removed from the metadata of the uploaded images (default: true).
+    // The orientation and the capture date are kept.
+    ['strip-gps']?: boolean
+}
+
+/**
+ * Settings of the HTTPS server. The files are read at startup; the server must be restarted when
+ * they are renewed.
+ * @see Settings['https']
+ */
+export interface HttpsSettings {
+    // The paths of the PEM files of the certificate (with its chain) and of its private key,
+    // relative to the root directory of the project
+    cert: string
+    key: string
+}
+
+/**
+ * Settings of the logs of the server.
+ * @see Settings['logging']
+ */
+export interface LoggingSettings {
+    // The lowest level of the logged messages: "debug" (which includes every served request),
+    // "info", "warn" or "error" (default: "info")
+    level?: LogLevel
+
+    // "text" for human-readable lines, or "json" for one JSON object per line, e.g., for a log
+    // collector (default: "text")
+    format?: LogFormat
 }
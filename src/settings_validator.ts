@@ -0,0 +1,542 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { HttpsSettings, Settings } from './settings.js'
+import { ROOT_DIR, THEMES_DIR } from './constants.js'
+import { normalizeBasePath, parseByteSize, parseCacheSize } from './service.js'
+
+/**
+ * A problem found in the settings.
+ * - error: the settings cannot be used
+ * - warning: the settings can be used, but probably do not do what is expected
+ */
+export interface SettingsIssue {
+    severity: 'error' | 'warning'
+
+    // The path of the faulty value, e.g., "sections.cats.includes[2]"
+    path: string
+
+    message: string
+}
+
+/**
+ * Error thrown when the settings cannot be used.
+ */
+export class SettingsValidationError extends Error {
+    /**
+     * @param {string} settingsFile - The path to the settings file.
+     * @param {SettingsIssue[]} issues - The issues found in the settings, including at least one
+     * error.
+     */
+    public constructor(
+        public readonly settingsFile: string,
+        public readonly issues: SettingsIssue[],
+    ) {
+        super(`Invalid settings in ${settingsFile}:\n`
+            + issues.map(issue => `  ${formatSettingsIssue(issue)}`).join('\n'))
+        this.name = 'SettingsValidationError'
+    }
+}
+
+// Keys known by the Settings interface; other keys are reported as warnings
+const SETTINGS_KEYS = [
+    'site-name',
+    'base-url',
+    'branding',
+    'theme',
+    'port',
+    'host',
+    'base-path',
+    'trust-proxy',
+    'https',
+    'exclude',
+    'featured',
+    'sections',
+    'auto-albums',
+    'cache-sz',
+    'page-size',
+    'image-sizes',
+    'image-processor',
+    'output-formats',
+    'cache-workers',
+    'cache-warm-up',
+    'cache-max-size',
+    'admin',
+    'secret',
+    'uploads',
+    'logging',
+] as const
+
+// Admin tokens and secrets shorter than this are reported as warnings
+const SECRET_MIN_LENGTH = 16
+
+/**
+ * Checks that parsed settings match the Settings interface, and reports the values that are
+ * probably wrong.
+ *
+ * @param {unknown} settings - The parsed content of the settings file.
+ * @param {(imagePath: string) => boolean} [imageExists] - Checks whether an image exists in the
+ * gallery. If given, the images referenced by the featured section and the other sections are
+ * checked.
+ * @returns {SettingsIssue[]} The issues found, errors first. The settings can be used if there is
+ * no error.
+ */
+export function validateSettings(
+    settings: unknown,
+    imageExists?: (imagePath: string) => boolean,
+): SettingsIssue[] {
+    const issues: SettingsIssue[] = []
+    const error = (path: string, message: string): void => {
+        issues.push({ severity: 'error', path, message })
+    }
+    const warn = (path: string, message: string): void => {
+        issues.push({ severity: 'warning', path, message })
+    }
+
+    if (!isObject(settings)) {
+        error('', 'settings must be a JSON object')
+        return issues
+    }
+
+    for (const key of Object.keys(settings)) {
+        if (!(SETTINGS_KEYS as readonly string[]).includes(key)) {
+            warn(key, 'unknown setting, ignored')
+        }
+    }
+
+    // Required settings
+    if (typeof settings['site-name'] !== 'string' || settings['site-name'].trim() === '') {
+        error('site-name', 'must be a non-empty string')
+    }
+    if (!isInteger(settings.port, 1, 65535)) {
+        error('port', 'must be an integer between 1 and 65535')
+    }
+
+    if (checkStringArray(settings.exclude, 'exclude', error)) {
+        settings.exclude.forEach((regex, index) => {
+            try {
+                new RegExp(regex)
+            } catch (syntaxError) {
+                error(`exclude[${index}]`, `invalid regular expression: ${syntaxError}`)
+            }
+        })
+    }
+
+    if (checkStringArray(settings.featured, 'featured', error)) {
+        checkImagePaths(settings.featured, 'featured', imageExists, warn)
+    }
+
+    if (!isObject(settings.sections)) {
+        error('sections', 'must be an object mapping section names to sections')
+    } else {
+        for (const [sectionName, section] of Object.entries(settings.sections)) {
+            validateSection(section, `sections.${sectionName}`, imageExists, error, warn)
+        }
+    }
+
+    if (checkStringArray(settings['cache-sz'], 'cache-sz', error)) {
+        if (settings['cache-sz'].length === 0) {
+            error('cache-sz', 'must list at least one cache size')
+        }
+        settings['cache-sz'].forEach((size, index) => {
+            if (parseCacheSize(size) === undefined) {
+                error(`cache-sz[${index}]`,
+                    `invalid cache size "${size}", expected e.g. "500k", "w800" or "w1600h1200"`)
+            }
+        })
+        checkDuplicates(settings['cache-sz'], 'cache-sz', warn)
+    }
+
+    // Optional settings
+    if (settings['base-url'] !== undefined) {
+        validateBaseUrl(settings['base-url'], 'base-url', error)
+    }
+    if (settings['base-path'] !== undefined) {
+        validateBasePath(settings['base-path'], settings['base-url'], 'base-path', error, warn)
+    }
+    if (settings.host !== undefined
+        && (typeof settings.host !== 'string' || settings.host === '')) {
+        error('host', 'must be a host name or an IP address, e.g. "127.0.0.1"')
+    }
+    if (settings['trust-proxy'] !== undefined && typeof settings['trust-proxy'] !== 'boolean') {
+        error('trust-proxy', 'must be a boolean')
+    }
+    if (settings.https !== undefined && validateHttps(settings.https, 'https', error)) {
+        for (const key of ['cert', 'key'] as const) {
+            if (!fs.existsSync(path.resolve(ROOT_DIR, settings.https[key]))) {
+                warn(`https.${key}`, `${settings.https[key]} not found, the server cannot start`)
+            }
+        }
+    }
+    if (settings.branding !== undefined) {
+        validateBranding(settings.branding, 'branding', error)
+    }
+    if (settings.theme !== undefined) {
+        if (typeof settings.theme !== 'string' || !/^\w[\w.-]*$/.test(settings.theme)) {
+            error('theme', 'must be the name of a directory of themes/, e.g. "dark"')
+        } else if (!fs.statSync(path.join(THEMES_DIR, settings.theme), { throwIfNoEntry: false })
+            ?.isDirectory()) {
+            warn('theme', `themes/${settings.theme} not found, the built-in templates are used`)
+        }
+    }
+    if (settings['auto-albums'] !== undefined) {
+        validateAutoAlbums(settings['auto-albums'], 'auto-albums', error)
+    }
+    if (settings['page-size'] !== undefined && !isInteger(settings['page-size'], 1)) {
+        error('page-size', 'must be a positive integer')
+    }
+    if (settings['image-sizes'] !== undefined && typeof settings['image-sizes'] !== 'string') {
+        error('image-sizes', 'must be a string')
+    }
+    if (settings['image-processor'] !== undefined
+        && !['jpegoptim', 'wasm'].includes(settings['image-processor'] as string)) {
+        error('image-processor', 'must be "jpegoptim" or "wasm"')
+    }
+    if (settings['output-formats'] !== undefined
+        && checkStringArray(settings['output-formats'], 'output-formats', error)) {
+        settings['output-formats'].forEach((format, index) => {
+            if (!['jpeg', 'png', 'webp', 'avif'].includes(format)) {
+                error(`output-formats[${index}]`,
+                    `unknown format "${format}", expected "jpeg", "png", "webp" or "avif"`)
+            }
+        })
+        checkDuplicates(settings['output-formats'], 'output-formats', warn)
+    }
+    if (settings['cache-workers'] !== undefined && !isInteger(settings['cache-workers'], 1)) {
+        error('cache-workers', 'must be a positive integer')
+    }
+    if (settings['cache-warm-up'] !== undefined && typeof settings['cache-warm-up'] !== 'boolean') {
+        error('cache-warm-up', 'must be a boolean')
+    }
+    if (settings['cache-max-size'] !== undefined
+        && (typeof settings['cache-max-size'] !== 'string'
+            || parseByteSize(settings['cache-max-size']) === undefined)) {
+        error('cache-max-size', 'must be a size, e.g. "500m" or "2g"')
+    }
+    if (settings.admin !== undefined) {
+        validateAdminCredentials(settings.admin, 'admin', error, warn)
+    }
+    if (settings.secret !== undefined) {
+        if (typeof settings.secret !== 'string' || settings.secret === '') {
+            error('secret', 'must be a non-empty string')
+        } else if (settings.secret.length < SECRET_MIN_LENGTH) {
+            warn('secret',
+                `is shorter than ${SECRET_MIN_LENGTH} characters, and easy to guess`)
+        }
+    }
+    if (settings.uploads !== undefined) {
+        validateUploads(settings.uploads, 'uploads', error)
+        if (settings.admin === undefined) {
+            warn('uploads', 'has no effect, as the admin API is disabled')
+        }
+    }
+    if (settings.logging !== undefined) {
+        validateLogging(settings.logging, 'logging', error)
+    }
+
+    return issues.sort((issueA, issueB) =>
+        (issueA.severity === 'error' ? 0 : 1) - (issueB.severity === 'error' ? 0 : 1))
+}
+
+/**
+ * Parses and validates the content of a settings file.
+ *
+ * @param {string} content - The content of the settings file.
+ * @param {(imagePath: string) => boolean} [imageExists] - Checks whether an image exists in the
+ * gallery.
+ * @returns {{ settings?: Settings, issues: SettingsIssue[] }} The issues found, and the settings if
+ * they can be used (i.e., there is no error).
+ * @see validateSettings
+ */
+export function parseSettings(
+    content: string,
+    imageExists?: (imagePath: string) => boolean,
+): { settings?: Settings, issues: SettingsIssue[] } {
+    let settings: unknown
+    try {
+        settings = JSON.parse(content)
+    } catch (syntaxError) {
+        return { issues: [{ severity: 'error', path: '', message: `${syntaxError}` }] }
+    }
+
+    const issues: SettingsIssue[] = validateSettings(settings, imageExists)
+    return issues.some(issue => issue.severity === 'error')
+        ? { issues }
+        : { settings: settings as Settings, issues }
+}
+
+/**
+ * Formats an issue as a single line, e.g., `warning: featured[0]: image not found in the gallery`.
+ *
+ * @param {SettingsIssue} issue - The issue.
+ * @returns {string} The formatted issue.
+ */
+export function formatSettingsIssue(issue: SettingsIssue): string {
+    return issue.path === ''
+        ? `${issue.severity}: ${issue.message}`
+        : `${issue.severity}: ${issue.path}: ${issue.message}`
+}
+
+function validateSection(
+    section: unknown,
+    path: string,
+    imageExists: ((imagePath: string) => boolean) | undefined,
+    error: (path: string, message: string) => void,
+    warn: (path: string, message: string) => void,
+): void {
+    if (!isObject(section)) {
+        error(path, 'must be an object with a title, a description and included images')
+        return
+    }
+
+    if (typeof section.title !== 'string') {
+        error(`${path}.title`, 'must be a string')
+    }
+    if (typeof section.description !== 'string') {
+        error(`${path}.description`, 'must be a string')
+    }
+    if (checkStringArray(section.includes, `${path}.includes`, error)) {
+        checkImagePaths(section.includes, `${path}.includes`, imageExists, warn)
+    }
+    if (section.visibility !== undefined
+        && !['public', 'unlisted', 'protected'].includes(section.visibility as string)) {
+        error(`${path}.visibility`, 'must be "public", "unlisted" or "protected"')
+    }
+    if (section.password !== undefined
+        && (typeof section.password !== 'string' || section.password === '')) {
+        error(`${path}.password`, 'must be a non-empty string')
+    }
+    if (section.visibility === 'protected' && section.password === undefined) {
+        error(`${path}.password`, 'must be set, as the section is protected')
+    } else if (section.visibility !== 'protected' && section.password !== undefined) {
+        warn(`${path}.password`, 'has no effect, as the section is not protected')
+    }
+}
+
+function validateAutoAlbums(
+    autoAlbums: unknown,
+    path: string,
+    error: (path: string, message: string) => void,
+): void {
+    if (!isObject(autoAlbums)) {
+        error(path, 'must be an object')
+        return
+    }
+
+    if (!['folder', 'date'].includes(autoAlbums.by as string)) {
+        error(`${path}.by`, 'must be "folder" or "date"')
+    }
+    if (autoAlbums.depth !== undefined && !isInteger(autoAlbums.depth, 1)) {
+        error(`${path}.depth`, 'must be a positive integer')
+    }
+    if (autoAlbums.order !== undefined && !['asc', 'desc'].includes(autoAlbums.order as string)) {
+        error(`${path}.order`, 'must be "asc" or "desc"')
+    }
+}
+
+function validateBranding(
+    branding: unknown,
+    path: string,
+    error: (path: string, message: string) => void,
+): void {
+    if (!isObject(branding)) {
+        error(path, 'must be an object')
+        return
+    }
+
+    for (const key of ['title', 'description', 'footer']) {
+        if (branding[key] !== undefined && typeof branding[key] !== 'string') {
+            error(`${path}.${key}`, 'must be a string')
+        }
+    }
+}
+
+function validateAdminCredentials(
+    admin: unknown,
+    path: string,
+    error: (path: string, message: string) => void,
+    warn: (path: string, message: string) => void,
+): void {
+    if (!isObject(admin)) {
+        error(path, 'must be an object')
+        return
+    }
+
+    for (const key of ['token', 'username', 'password']) {
+        if (admin[key] !== undefined && (typeof admin[key] !== 'string' || admin[key] === '')) {
+            error(`${path}.${key}`, 'must be a non-empty string')
+        }
+    }
+    if ((admin.username === undefined) !== (admin.password === undefined)) {
+        error(path, 'username and password must be set together')
+    }
+    if (admin.token === undefined && admin.username === undefined) {
+        error(path, 'must set a token, or a username and a password')
+    }
+    if (typeof admin.token === 'string' && admin.token.length < SECRET_MIN_LENGTH) {
+        warn(`${path}.token`,
+            `is shorter than ${SECRET_MIN_LENGTH} characters, and easy to guess`)
+    }
+}
+
+function validateUploads(
+    uploads: unknown,
+    path: string,
+    error: (path: string, message: string) => void,
+): void {
+    if (!isObject(uploads)) {
+        error(path, 'must be an object')
+        return
+    }
+
+    if (uploads.folder !== undefined && (typeof uploads.folder !== 'string'
+        || uploads.folder.startsWith('/') || uploads.folder.split('/').includes('..'))) {
+        error(`${path}.folder`, 'must be a relative path within the gallery, e.g. "{yyyy}/{mm}"')
+    }
+    if (uploads['max-size'] !== undefined && (typeof uploads['max-size'] !== 'string'
+        || parseByteSize(uploads['max-size']) === undefined)) {
+        error(`${path}.max-size`, 'must be a size, e.g. "20m"')
+    }
+    if (uploads['strip-gps'] !== undefined && typeof uploads['strip-gps'] !== 'boolean') {
+        error(`${path}.strip-gps`, 'must be a boolean')
+    }
+}
+
+function validateLogging(
+    logging: unknown,
+    path: string,
+    error: (path: string, message: string) => void,
+): void {
+    if (!isObject(logging)) {
+        error(path, 'must be an object')
+        return
+    }
+
+    if (logging.level !== undefined
+        && !['debug', 'info', 'warn', 'error'].includes(logging.level as string)) {
+        error(`${path}.level`, 'must be "debug", "info", "warn" or "error"')
+    }
+    if (logging.format !== undefined && !['text', 'json'].includes(logging.format as string)) {
+        error(`${path}.format`, 'must be "text" or "json"')
+    }
+}
+
+function validateBasePath(
+    basePath: unknown,
+    baseUrl: unknown,
+    path: string,
+    error: (path: string, message: string) => void,
+    warn: (path: string, message: string) => void,
+): void {
+    if (typeof basePath !== 'string' || !basePath.startsWith('/') || basePath.includes('//')
+        || basePath.split('/').some(segment => segment === '.' || segment === '..')
+        || /[?#\\\s]/.test(basePath)) {
+        error(path, 'must be an absolute path, e.g. "/photos"')
+        return
+    }
+
+    if (typeof baseUrl === 'string' && URL.canParse(baseUrl)
+        && normalizeBasePath(new URL(baseUrl).pathname) !== normalizeBasePath(basePath)) {
+        warn(path, 'differs from the path of base-url, so the absolute URLs are probably wrong')
+    }
+}
+
+function validateHttps(
+    https: unknown,
+    path: string,
+    error: (path: string, message: string) => void,
+): https is HttpsSettings {
+    if (!isObject(https)) {
+        error(path, 'must be an object with the "cert" and "key" files')
+        return false
+    }
+
+    let valid: boolean = true
+    for (const key of ['cert', 'key']) {
+        if (typeof https[key] !== 'string' || https[key] === '') {
+            error(`${path}.${key}`, 'must be the path of a PEM file')
+            valid = false
+        }
+    }
+
+    return valid
+}
+
+function validateBaseUrl(
+    baseUrl: unknown,
+    path: string,
+    error: (path: string, message: string) => void,
+): void {
+    let url: URL
+    try {
+        url = new URL(typeof baseUrl === 'string' ? baseUrl : '')
+    } catch (syntaxError) {
+        error(path, 'must be an absolute URL, e.g. "https://example.com/"')
+        return
+    }
+
+    if (!['http:', 'https:'].includes(url.protocol)) {
+        error(path, 'must be an http or https URL')
+    } else if (url.search !== '' || url.hash !== '') {
+        error(path, 'must not have a query string or a fragment')
+    }
+}
+
+/**
+ * Reports the images that are not in the gallery, and the images listed twice.
+ */
+function checkImagePaths(
+    imagePaths: string[],
+    path: string,
+    imageExists: ((imagePath: string) => boolean) | undefined,
+    warn: (path: string, message: string) => void,
+): void {
+    if (imageExists !== undefined) {
+        imagePaths.forEach((imagePath, index) => {
+            if (!imageExists(imagePath)) {
+                warn(`${path}[${index}]`, `image "${imagePath}" not found in the gallery`)
+            }
+        })
+    }
+
+    checkDuplicates(imagePaths, path, warn)
+}
+
+function checkDuplicates(
+    values: string[],
+    path: string,
+    warn: (path: string, message: string) => void,
+): void {
+    values.forEach((value, index) => {
+        if (values.indexOf(value) !== index) {
+            warn(`${path}[${index}]`,
+                `"${value}" is already listed at index ${values.indexOf(value)}`)
+        }
+    })
+}
+
+function checkStringArray(
+    value: unknown,
+    path: string,
+    error: (path: string, message: string) => void,
+): value is string[] {
+    if (!Array.isArray(value)) {
+        error(path, 'must be an array of strings')
+        return false
+    }
+
+    const nonStringIndex: number = value.findIndex(item => typeof item !== 'string')
+    if (nonStringIndex !== -1) {
+        error(`${path}[${nonStringIndex}]`, 'must be a string')
+        return false
+    }
+
+    return true
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isInteger(value: unknown, min: number, max: number = Infinity): boolean {
+    return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+}
@@ -0,0 +1,207 @@
+import { Section } from './settings.js'
+import { SITEMAP_MAX_URLS } from './constants.js'
+import {
+    collectImagePaths,
+    collectImageSections,
+    getImageUrl,
+    getLargestCacheSize,
+    getMediaType,
+    getPhotoPageUrl,
+    getSectionPageUrl,
+    getSiteUrl,
+} from './service.js'
+import { galleryWatcher } from './resource_monitor.js'
+import { trimSectionTitle } from './views.js'
+import { collectListedSections } from './access.js'
+
+/**
+ * Entry of a sitemap: a page of the website.
+ */
+export interface SitemapUrl {
+    // The absolute URL of the page
+    loc: string
+
+    // The last time the page changed, in milliseconds since epoch, if known
+    lastModifiedMs?: number
+
+    // The images shown on the page, listed with the image sitemap extension
+    images: SitemapImage[]
+}
+
+/**
+ * Image of a page of a sitemap.
+ */
+export interface SitemapImage {
+    // The absolute URL of the image
+    loc: string
+
+    // The title of the image, from the section it belongs to
+    title?: string
+}
+
+/**
+ * Collects the listed pages of the website: the webpage, the pages of the public sections and the
+ * pages of their images. The last modification time of a page is the one of its most recently
+ * modified image.
+ *
+ * @returns {SitemapUrl[]} The pages.
+ */
+export function collectSitemapUrls(): SitemapUrl[] {
+    const sections: Map<string, Section> = collectListedSections()
+    const imageSections: Map<string, string> = collectImageSections(sections)
+    const imagePaths: string[] = collectImagePaths()
+        .filter(imagePath => imageSections.has(imagePath))
+
+    const urls: SitemapUrl[] = [{
+        loc: getSiteUrl(''),
+        lastModifiedMs: getLastModificationTime(imagePaths),
+        images: [],
+    }]
+
+    sections.forEach((section, sectionName) => urls.push({
+        loc: getSiteUrl(getSectionPageUrl(sectionName)),
+        lastModifiedMs: getLastModificationTime(section.includes),
+        images: [],
+    }))
+
+    for (const imagePath of imagePaths) {
+        const section: Section | undefined = sections.get(imageSections.get(imagePath) ?? '')
+        urls.push({
+            loc: getSiteUrl(getPhotoPageUrl(imagePath)),
+            lastModifiedMs: galleryWatcher.getModificationTime(imagePath),
+            // Search engines only index images: RAW files and videos are listed by their preview
+            images: [{
+                loc: getSiteUrl(getMediaType(imagePath) === 'image'
+                    ? getImageUrl(imagePath)
+                    : getImageUrl(imagePath, getLargestCacheSize())),
+                title: section && (trimSectionTitle(section.title) || undefined),
+            }],
+        })
+    }
+
+    return urls
+}
+
+/**
+ * Renders the sitemap of the website. A sitemap cannot list more than SITEMAP_MAX_URLS URLs, so
+ * larger sitemaps are split into several files, listed by a sitemap index.
+ *
+ * @param {SitemapUrl[]} [urls] - The pages of the website (default: all of them).
+ * @returns {string[]} The XML documents, named after getSitemapFileName: the sitemap (or the
+ * sitemap index) first, then the split sitemaps, if any.
+ */
+export function renderSitemaps(urls: SitemapUrl[] = collectSitemapUrls()): string[] {
+    if (urls.length <= SITEMAP_MAX_URLS) {
+        return [renderUrlset(urls)]
+    }
+
+    const chunks: SitemapUrl[][] = []
+    for (let i = 0; i < urls.length; i += SITEMAP_MAX_URLS) {
+        chunks.push(urls.slice(i, i + SITEMAP_MAX_URLS))
+    }
+
+    return [renderSitemapIndex(chunks), ...chunks.map(renderUrlset)]
+}
+
+/**
+ * Gets the file name of a sitemap document rendered by renderSitemaps.
+ *
+ * @param {number} index - The index of the document.
+ * @returns {string} The file name, e.g., "sitemap.xml" or "sitemap-1.xml".
+ */
+export function getSitemapFileName(index: number): string {
+    return index === 0 ? 'sitemap.xml' : `sitemap-${index}.xml`
+}
+
+/**
+ * Renders the robots.txt file, which points crawlers to the sitemap and keeps them away from the
+ * API, whose pages of images are already linked from the section pages.
+ *
+ * @returns {string} The content of robots.txt.
+ */
+export function renderRobotsTxt(): string {
+    return 'User-agent: *\n'
+        + `Disallow: ${new URL(getSiteUrl('api/')).pathname}\n`
+        + '\n'
+        + `Sitemap: ${getSiteUrl(getSitemapFileName(0))}\n`
+}
+
+function renderUrlset(urls: SitemapUrl[]): string {
+    let sitemapXml: string =
+        `<?xml version="1.0" encoding="UTF-8"?>\n` +
+        `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"\n` +
+        `        xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">\n`
+    for (const url of urls) {
+        sitemapXml += `<url>\n<loc>${escapeXml(url.loc)}</loc>\n`
+        if (url.lastModifiedMs !== undefined) {
+            sitemapXml += `<lastmod>${new Date(url.lastModifiedMs).toISOString()}</lastmod>\n`
+        }
+        for (const image of url.images) {
+            sitemapXml += `<image:image>\n<image:loc>${escapeXml(image.loc)}</image:loc>\n`
+            if (image.title !== undefined) {
+                sitemapXml += `<image:title>${escapeXml(image.title)}</image:title>\n`
+            }
+            sitemapXml += '</image:image>\n'
+        }
+        sitemapXml += '</url>\n'
+    }
+
+    return sitemapXml + '</urlset>\n'
+}
+
+function renderSitemapIndex(chunks: SitemapUrl[][]): string {
+    let sitemapIndexXml: string =
+        `<?xml version="1.0" encoding="UTF-8"?>\n` +
+        `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n`
+    chunks.forEach((chunk, index) => {
+        const loc: string = getSiteUrl(getSitemapFileName(index + 1))
+        const lastModifiedMs: number
+            = chunk.reduce((latest, url) => Math.max(latest, url.lastModifiedMs ?? 0), 0)
+        sitemapIndexXml += `<sitemap>\n<loc>${escapeXml(loc)}</loc>\n`
+        if (lastModifiedMs > 0) {
+            sitemapIndexXml += `<lastmod>${new Date(lastModifiedMs).toISOString()}</lastmod>\n`
+        }
+        sitemapIndexXml += '</sitemap>\n'
+    })
+
+    return sitemapIndexXml + '</sitemapindex>\n'
+}
+
+/**
+ * Gets the modification time of the most recently modified image.
+ */
+function getLastModificationTime(imagePaths: string[]): number | undefined {
+    const lastModifiedMs: number = imagePaths.reduce((latest, imagePath) =>
+        Math.max(latest, galleryWatcher.getModificationTime(imagePath) ?? 0), 0)
+    return lastModifiedMs > 0 ? lastModifiedMs : undefined
+}
+
+/**
+ * Escapes the characters that are special in XML text and attribute values.
+ *
+ * @param {string} text - The text to escape.
+ * @returns {string} The escaped text.
+ */
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+}
+
+/**
+ * Reverts escapeXml.
+ *
+ * @param {string} text - The escaped text.
+ * @returns {string} The original text.
+ */
+export function unescapeXml(text: string): string {
+    return text
+        .replace(/&apos;/g, '\'')
+        .replace(/&quot;/g, '"')
+        .replace(/&gt;/g, '>')
+        .replace(/&lt;/g, '<')
+        .replace(/&amp;/g, '&')
+}
@@ -0,0 +1,65 @@
+// Loads the next pages of the sections while scrolling. The first page of each section is rendered
+// by the server; the images container of a section tells which page is loaded, and how many pages
+// there are (see the `data-page` and `data-page-count` attributes in `partials/section.ejs`).
+(() => {
+    // Start loading the next page before the end of the section is visible
+    const ROOT_MARGIN = '1000px'
+
+    const loadNextPage = async ($sectionImages) => {
+        const sectionName = $sectionImages.dataset.section
+        const page = Number($sectionImages.dataset.page) + 1
+        const response = await fetch($sectionImages.dataset.pageUrl.replace('{page}', `${page}`))
+        if (!response.ok) {
+            throw new Error(`${response.status} while loading page ${page} of ${sectionName}`)
+        }
+
+        const { html, pageCount } = await response.json()
+        $sectionImages.insertAdjacentHTML('beforeend', html)
+        $sectionImages.dataset.page = `${page}`
+        $sectionImages.dataset.pageCount = `${pageCount}`
+
+        // Lazy load the new images
+        lozad($sectionImages.querySelectorAll('.lozad:not([data-loaded])')).observe()
+    }
+
+    const hasNextPage = ($sectionImages) =>
+        Number($sectionImages.dataset.page) < Number($sectionImages.dataset.pageCount)
+
+    const observer = new IntersectionObserver((entries) => {
+        for (const entry of entries) {
+            const $sentinel = entry.target
+            const $sectionImages = $sentinel.previousElementSibling
+            if (!entry.isIntersecting || $sentinel.dataset.loading) {
+                continue
+            }
+
+            $sentinel.dataset.loading = 'true'
+            loadNextPage($sectionImages)
+                .then(() => {
+                    delete $sentinel.dataset.loading
+                    if (!hasNextPage($sectionImages)) {
+                        observer.unobserve($sentinel)
+                        $sentinel.remove()
+                    } else {
+                        // The sentinel may still be visible; observe it again to load one more page
+                        observer.unobserve($sentinel)
+                        observer.observe($sentinel)
+                    }
+                })
+                .catch((error) => {
+                    // Keep the sentinel marked as loading, so a failing page is not requested again
+                    console.error(error)
+                })
+        }
+    }, { rootMargin: ROOT_MARGIN })
+
+    // A sentinel after each images container triggers the loading of its next page
+    for (const $sectionImages of document.querySelectorAll('.section-images[data-page-url]')) {
+        if (hasNextPage($sectionImages)) {
+            const $sentinel = document.createElement('div')
+            $sentinel.className = 'section-sentinel'
+            $sectionImages.after($sentinel)
+            observer.observe($sentinel)
+        }
+    }
+})()
@@ -0,0 +1,191 @@
+import * as assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { after, afterEach, before, describe, mock, test } from 'node:test'
+import {
+    AccessGrant,
+    createAccessToken,
+    getPasswordRetryDelay,
+    grantSectionAccess,
+    readAccessToken,
+    recordFailedPasswordAttempt,
+    unlockSection,
+} from '../access.js'
+import {
+    PASSWORD_ATTEMPT_WINDOW,
+    PASSWORD_MAX_FAILED_ATTEMPTS_PER_CLIENT,
+    PASSWORD_MAX_FAILED_ATTEMPTS_PER_SECTION,
+} from '../constants.js'
+import { settingsWatcher } from '../resource_monitor.js'
+import { openGallery } from '../service.js'
+import { createTestGallery, TestGallery } from './harness.js'
+
+const gallery: TestGallery = createTestGallery({
+    images: {
+        'family/DSC05000.JPG': 'photo.jpg',
+        'friends/DSC06000.JPG': 'photo.jpg',
+    },
+    settings: {
+        sections: {
+            family: {
+                title: 'Family:',
+                description: '',
+                includes: ['family/DSC05000.JPG'],
+                visibility: 'protected',
+                password: 'secret',
+            },
+            friends: {
+                title: 'Friends:',
+                description: '',
+                includes: ['friends/DSC06000.JPG'],
+                visibility: 'protected',
+                password: 'secret',
+            },
+            cats: {
+                title: 'Cats:',
+                description: '',
+                includes: ['family/DSC05000.JPG'],
+            },
+        },
+    },
+})
+before(() => openGallery(gallery))
+after(() => gallery.remove())
+
+// The clock of the current test, which starts at a new time so that the attempts of the previous
+// tests are out of the window
+let now: number = 0
+afterEach(() => mock.timers.reset())
+
+/**
+ * Mocks the clock for the current test, starting after the window of the previous attempts.
+ */
+function mockClock(): void {
+    now += 2 * PASSWORD_ATTEMPT_WINDOW
+    mock.timers.enable({ apis: ['Date'], now })
+}
+
+/**
+ * Records wrong passwords of a section, from a client.
+ */
+function recordFailedPasswordAttempts(
+    sectionName: string,
+    clientAddress: string,
+    count: number,
+): void {
+    for (let i = 0; i < count; i++) {
+        recordFailedPasswordAttempt(sectionName, clientAddress)
+    }
+}
+
+describe('unlockSection', () => {
+    test('grants access to the protected sections with their password only', () => {
+        assert.equal(unlockSection('family', 'secret')?.section, 'family')
+        assert.equal(unlockSection('family', 'Secret'), undefined)
+        assert.equal(unlockSection('cats', ''), undefined)
+        assert.equal(unlockSection('dogs', 'secret'), undefined)
+    })
+})
+
+describe('readAccessToken', () => {
+    test('reads the grants of the tokens it signed', () => {
+        const grants: AccessGrant[] = ['family', 'friends']
+            .map(sectionName => grantSectionAccess(sectionName, 60 * 1000) as AccessGrant)
+        assert.deepEqual(readAccessToken(createAccessToken(grants)), grants)
+    })
+
+    test('reads no grant from the missing or malformed tokens', () => {
+        for (const token of [undefined, '', 'family', '.', 'e30.']) {
+            assert.deepEqual(readAccessToken(token), [], token)
+        }
+    })
+
+    test('reads no grant from the tokens whose signature or payload was tampered with', () => {
+        const grant: AccessGrant = grantSectionAccess('family', 60 * 1000) as AccessGrant
+        const [payload, signature] = createAccessToken([grant]).split('.')
+        const forgedSignature: string = (signature.startsWith('A') ? 'B' : 'A') + signature.slice(1)
+        assert.deepEqual(readAccessToken(`${payload}.${forgedSignature}`), [])
+
+        // Extending the access, or moving it to another section, breaks the signature
+        for (const forgedGrant of [
+            { ...grant, expires: grant.expires + 365 * 24 * 60 * 60 * 1000 },
+            { ...grant, section: 'friends' },
+        ]) {
+            const [forgedPayload] = createAccessToken([forgedGrant]).split('.')
+            assert.deepEqual(readAccessToken(`${forgedPayload}.${signature}`), [])
+        }
+    })
+
+    test('drops the expired grants', () => {
+        mockClock()
+        const token: string = createAccessToken([
+            grantSectionAccess('family', 1000) as AccessGrant,
+            grantSectionAccess('friends', 2000) as AccessGrant,
+        ])
+        mock.timers.tick(1000)
+        assert.deepEqual(readAccessToken(token).map(grant => grant.section), ['friends'])
+    })
+
+    test('drops the grants revoked by a change of the password', async () => {
+        const token: string = createAccessToken([
+            unlockSection('family', 'secret') as AccessGrant,
+            unlockSection('friends', 'secret') as AccessGrant,
+        ])
+
+        const settings = JSON.parse(fs.readFileSync(gallery.settingsFile, 'utf-8'))
+        settings.sections.friends.password = 'another secret'
+        fs.writeFileSync(gallery.settingsFile, JSON.stringify(settings))
+        await settingsWatcher.rescan([path.basename(gallery.settingsFile)])
+        assert.deepEqual(readAccessToken(token).map(grant => grant.section), ['family'])
+        assert.equal(unlockSection('friends', 'another secret')?.section, 'friends')
+    })
+})
+
+describe('getPasswordRetryDelay', () => {
+    test('lets the clients try until they reach the limit of wrong passwords', () => {
+        mockClock()
+        recordFailedPasswordAttempts('family', '192.0.2.1',
+            PASSWORD_MAX_FAILED_ATTEMPTS_PER_CLIENT - 1)
+        assert.equal(getPasswordRetryDelay('family', '192.0.2.1'), 0)
+
+        recordFailedPasswordAttempt('family', '192.0.2.1')
+        assert.equal(getPasswordRetryDelay('family', '192.0.2.1'), PASSWORD_ATTEMPT_WINDOW)
+        // The other clients and the other sections are not limited
+        assert.equal(getPasswordRetryDelay('family', '192.0.2.2'), 0)
+        assert.equal(getPasswordRetryDelay('friends', '192.0.2.1'), 0)
+    })
+
+    test('lets a client try again once its wrong passwords are out of the window', () => {
+        mockClock()
+        recordFailedPasswordAttempt('family', '192.0.2.1')
+        mock.timers.tick(1000)
+        recordFailedPasswordAttempts('family', '192.0.2.1',
+            PASSWORD_MAX_FAILED_ATTEMPTS_PER_CLIENT - 1)
+        assert.equal(getPasswordRetryDelay('family', '192.0.2.1'), PASSWORD_ATTEMPT_WINDOW - 1000)
+
+        mock.timers.tick(PASSWORD_ATTEMPT_WINDOW - 1000)
+        assert.equal(getPasswordRetryDelay('family', '192.0.2.1'), 0)
+    })
+
+    test('stops all the clients once the section reaches the limit of wrong passwords', () => {
+        mockClock()
+        // Clients staying under their own limit
+        const attemptsPerClient: number = PASSWORD_MAX_FAILED_ATTEMPTS_PER_CLIENT - 1
+        const clientCount: number
+            = Math.ceil(PASSWORD_MAX_FAILED_ATTEMPTS_PER_SECTION / attemptsPerClient)
+        for (let i = 0; i < clientCount; i++) {
+            recordFailedPasswordAttempts('family', `192.0.2.${i + 10}`, attemptsPerClient)
+        }
+
+        assert.equal(getPasswordRetryDelay('family', '192.0.2.1'), PASSWORD_ATTEMPT_WINDOW)
+        assert.equal(getPasswordRetryDelay('friends', '192.0.2.1'), 0)
+    })
+
+    test('does not limit the sections that are not protected', () => {
+        mockClock()
+        recordFailedPasswordAttempts('cats', '192.0.2.1', PASSWORD_MAX_FAILED_ATTEMPTS_PER_CLIENT)
+        recordFailedPasswordAttempts('dogs', '192.0.2.1', PASSWORD_MAX_FAILED_ATTEMPTS_PER_CLIENT)
+        assert.equal(getPasswordRetryDelay('cats', '192.0.2.1'), 0)
+        assert.equal(getPasswordRetryDelay('dogs', '192.0.2.1'), 0)
+    })
+})
@@ -0,0 +1,146 @@
+import * as assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { after, afterEach, describe, mock, test } from 'node:test'
+import { FileWatcher, FileWatcherOptions } from '../file_watcher.js'
+import { createTestGallery, TestGallery } from './harness.js'
+
+const gallery: TestGallery = createTestGallery({
+    images: {
+        'cover.jpg': 'photo.jpg',
+        '2021/04/07/DSC04018.JPG': 'photo.jpg',
+        '2021/04/07/.DS_Store': 'photo.jpg',
+        'macro/DSC_0001.JPG': 'photo.jpg',
+    },
+})
+after(() => gallery.remove())
+
+// The watchers of the current test, stopped after it
+const watchers: FileWatcher[] = []
+afterEach(() => {
+    watchers.splice(0).forEach(watcher => watcher.stop())
+})
+
+/**
+ * Creates a watcher of a directory, stopped after the current test.
+ */
+function watch(rootDir: string, options?: FileWatcherOptions): FileWatcher {
+    const watcher: FileWatcher = new FileWatcher(rootDir, options)
+    watchers.push(watcher)
+    return watcher
+}
+
+/**
+ * Waits for the next time the listeners of a watcher are notified. Unlike the watcher, the timer
+ * of the wait keeps the process alive.
+ */
+function waitForChange(watcher: FileWatcher): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const timer: NodeJS.Timeout = setTimeout(() =>
+            reject(new Error('The listeners were not notified')), 2000)
+        watcher.onChange(() => {
+            clearTimeout(timer)
+            resolve()
+        })
+    })
+}
+
+describe('FileWatcher', () => {
+    test('indexes the files of the nested directories, in directory order', () => {
+        const watcher: FileWatcher = watch(gallery.galleryDir, {
+            filter: relativePath => !path.basename(relativePath).startsWith('.'),
+        })
+        assert.deepEqual(watcher.getFilePaths(),
+            ['2021/04/07/DSC04018.JPG', 'cover.jpg', 'macro/DSC_0001.JPG'])
+        assert.equal(watcher.version, 0)
+    })
+
+    test('only indexes the files of the directory itself unless recursive', () => {
+        const watcher: FileWatcher = watch(gallery.galleryDir, { recursive: false })
+        assert.deepEqual(watcher.getFilePaths(), ['cover.jpg'])
+    })
+
+    test('indexes the created files and notifies the listeners', async () => {
+        const watcher: FileWatcher = watch(gallery.galleryDir)
+        watcher.start()
+
+        const change: Promise<void> = waitForChange(watcher)
+        fs.copyFileSync(path.join(gallery.galleryDir, 'cover.jpg'),
+            path.join(gallery.galleryDir, 'macro/DSC_0002.JPG'))
+        await change
+        assert.ok(watcher.getFilePaths().includes('macro/DSC_0002.JPG'))
+        assert.ok(watcher.getModificationTime('macro/DSC_0002.JPG') !== undefined)
+        assert.equal(watcher.version, 1)
+    })
+
+    test('forgets the deleted files and notifies the listeners', async () => {
+        const watcher: FileWatcher = watch(gallery.galleryDir)
+        assert.ok(watcher.getFilePaths().includes('macro/DSC_0002.JPG'))
+
+        const change: Promise<void> = waitForChange(watcher)
+        fs.rmSync(path.join(gallery.galleryDir, 'macro/DSC_0002.JPG'))
+        await change
+        assert.equal(watcher.getFilePaths().includes('macro/DSC_0002.JPG'), false)
+        assert.equal(watcher.getModificationTime('macro/DSC_0002.JPG'), undefined)
+    })
+
+    test('stops notifying the unregistered listeners', async () => {
+        const watcher: FileWatcher = watch(gallery.galleryDir)
+        watcher.start()
+        let changeCount: number = 0
+        const unregister: () => void = watcher.onChange(() => changeCount++)
+        unregister()
+
+        fs.writeFileSync(path.join(gallery.galleryDir, 'f.jpg'), '')
+        await watcher.rescan(['f.jpg'])
+        assert.ok(watcher.getFilePaths().includes('f.jpg'))
+        assert.equal(changeCount, 0)
+    })
+
+    test('applies the changes reported within the debounce delay at once', async () => {
+        const watcher: FileWatcher = watch(gallery.galleryDir)
+        watcher.start()
+        let changeCount: number = 0
+        watcher.onChange(() => changeCount++)
+
+        const change: Promise<void> = waitForChange(watcher)
+        for (const fileName of ['a.jpg', 'b.jpg', 'c.jpg']) {
+            fs.writeFileSync(path.join(gallery.galleryDir, fileName), '')
+        }
+        await change
+        // Leave time for another update, if the changes were applied separately
+        await new Promise(resolve => setTimeout(resolve, 300))
+        assert.equal(changeCount, 1)
+        assert.ok(['a.jpg', 'b.jpg', 'c.jpg']
+            .every(fileName => watcher.getFilePaths().includes(fileName)))
+    })
+
+    test('indexes the rescanned files right away', async () => {
+        const watcher: FileWatcher = watch(gallery.galleryDir)
+        watcher.start()
+
+        fs.writeFileSync(path.join(gallery.galleryDir, 'd.jpg'), '')
+        await watcher.rescan(['d.jpg'])
+        assert.ok(watcher.getFilePaths().includes('d.jpg'))
+    })
+
+    test('rescans the directory periodically when it cannot be watched', async () => {
+        mock.timers.enable({ apis: ['setInterval'] })
+        try {
+            // A missing directory cannot be watched
+            const rootDir: string = path.join(gallery.rootDir, 'later')
+            const watcher: FileWatcher = watch(rootDir)
+            assert.deepEqual(watcher.getFilePaths(), [])
+
+            fs.mkdirSync(rootDir)
+            fs.writeFileSync(path.join(rootDir, 'e.jpg'), '')
+            const change: Promise<void> = waitForChange(watcher)
+            mock.timers.tick(5000)
+            await change
+            assert.deepEqual(watcher.getFilePaths(), ['e.jpg'])
+            watcher.stop()
+        } finally {
+            mock.timers.reset()
+        }
+    })
+})
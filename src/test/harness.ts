@@ -0,0 +1,155 @@
+import * as fs from 'node:fs'
+import * as http from 'node:http'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { AddressInfo } from 'node:net'
+import { fileURLToPath } from 'node:url'
+import Koa from 'koa'
+import { Settings } from '../settings.js'
+import { GalleryPaths } from '../service.js'
+import { createApp } from '../app.js'
+
+// The fixtures are not compiled: they are read from the sources, next to the tests
+const FIXTURES_DIR: string
+    = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../src/test/fixtures')
+
+/**
+ * Options of a test gallery.
+ */
+export interface TestGalleryOptions {
+    // The images of the gallery: the name of a file of `src/test/fixtures`, by relative path to the
+    // image within the gallery directory
+    images?: { [imagePath: string]: string }
+
+    // The settings, merged into the defaults of the tests (see DEFAULT_TEST_SETTINGS)
+    settings?: Partial<Settings>
+}
+
+/**
+ * Gallery, cache and settings file in a temporary directory, removed after the tests.
+ */
+export interface TestGallery extends GalleryPaths {
+    // The temporary directory
+    rootDir: string
+
+    // Removes the temporary directory
+    remove(): void
+}
+
+/**
+ * Server listening on a random port of the loopback interface.
+ */
+export interface TestServer {
+    // The URL of the website, without a trailing slash (e.g., "http://127.0.0.1:50123")
+    url: string
+
+    // Stops the server
+    close(): Promise<void>
+}
+
+/**
+ * Response of a test server.
+ */
+export interface TestResponse {
+    status: number
+    headers: http.IncomingHttpHeaders
+    body: Buffer
+}
+
+// Settings of the test galleries: the port is unused (the tests listen on a random port), the cache
+// is not warmed up, so that the tests decide when cached images are generated, and the in-process
+// image processor needs no tool installed on the machine
+const DEFAULT_TEST_SETTINGS: Settings = {
+    'site-name': 'gallery.test',
+    'port': 8080,
+    'exclude': ['^\\.'],
+    'featured': [],
+    'sections': {},
+    'cache-sz': ['500k', 'w200'],
+    'image-processor': 'wasm',
+    'cache-warm-up': false,
+    'logging': { level: 'error' },
+}
+
+/**
+ * Creates a gallery in a temporary directory. The tests open it with openGallery, or serve it with
+ * startTestServer.
+ *
+ * @param {TestGalleryOptions} [options] - The images and the settings of the gallery (default: no
+ * image and the default settings).
+ * @returns {TestGallery} The gallery.
+ */
+export function createTestGallery(options: TestGalleryOptions = {}): TestGallery {
+    const rootDir: string = fs.mkdtempSync(path.join(os.tmpdir(), 'gallery-test-'))
+    const galleryDir: string = path.join(rootDir, 'gallery')
+    const cacheDir: string = path.join(rootDir, 'cache')
+    const settingsFile: string = path.join(rootDir, 'gallery-settings.json')
+
+    fs.mkdirSync(galleryDir)
+    fs.mkdirSync(cacheDir)
+    for (const [imagePath, fixture] of Object.entries(options.images ?? {})) {
+        const imageFile: string = path.join(galleryDir, imagePath)
+        fs.mkdirSync(path.dirname(imageFile), { recursive: true })
+        fs.copyFileSync(path.join(FIXTURES_DIR, fixture), imageFile)
+    }
+    fs.writeFileSync(settingsFile,
+        JSON.stringify({ ...DEFAULT_TEST_SETTINGS, ...options.settings }, null, 4))
+
+    return {
+        rootDir,
+        galleryDir,
+        cacheDir,
+        settingsFile,
+        remove: () => fs.rmSync(rootDir, { recursive: true, force: true }),
+    }
+}
+
+/**
+ * Serves the application of a gallery on a random port of the loopback interface.
+ *
+ * @param {GalleryPaths} gallery - The gallery.
+ * @returns {Promise<TestServer>} The server, once it listens.
+ * @see createApp
+ */
+export async function startTestServer(gallery: GalleryPaths): Promise<TestServer> {
+    const app: Koa = createApp(gallery)
+    const server: http.Server = http.createServer(app.callback())
+    server.once('close', () => app.emit('close'))
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+
+    const { port } = server.address() as AddressInfo
+    return {
+        url: `http://127.0.0.1:${port}`,
+        close: () => new Promise<void>((resolve, reject) => {
+            server.closeAllConnections()
+            server.close(error => error === undefined ? resolve() : reject(error))
+        }),
+    }
+}
+
+/**
+ * Requests a path of a test server as it is written: unlike fetch, dot segments and percent
+ * encodings are not normalized.
+ *
+ * @param {TestServer} server - The server.
+ * @param {string} requestPath - The path and the query of the request.
+ * @param {http.OutgoingHttpHeaders} [headers] - The headers of the request (default: none).
+ * @returns {Promise<TestResponse>} The response, once fully received.
+ */
+export function request(
+    server: TestServer,
+    requestPath: string,
+    headers: http.OutgoingHttpHeaders = {},
+): Promise<TestResponse> {
+    return new Promise((resolve, reject) => {
+        http.get(server.url, { path: requestPath, headers }, response => {
+            const chunks: Buffer[] = []
+            response.on('data', chunk => chunks.push(chunk))
+            response.on('end', () => resolve({
+                status: response.statusCode as number,
+                headers: response.headers,
+                body: Buffer.concat(chunks),
+            }))
+        }).on('error', reject)
+    })
+}
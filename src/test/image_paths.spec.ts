@@ -0,0 +1,107 @@
+import * as assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+import { isValidImagePath, resolveImagePath } from '../service.js'
+import { createTestGallery, request, startTestServer, TestGallery, TestServer } from './harness.js'
+
+const gallery: TestGallery = createTestGallery({
+    images: {
+        '2021/04/07/DSC04018.JPG': 'photo.jpg',
+        '.DSC04019.JPG': 'photo.jpg',
+    },
+})
+
+// Links to an image of the gallery, to a file outside of the gallery and to a directory outside of
+// the gallery
+fs.mkdirSync(path.join(gallery.rootDir, 'outside'))
+fs.copyFileSync(path.join(gallery.galleryDir, '2021/04/07/DSC04018.JPG'),
+    path.join(gallery.rootDir, 'outside/DSC04020.JPG'))
+fs.symlinkSync(path.join(gallery.galleryDir, '2021/04/07/DSC04018.JPG'),
+    path.join(gallery.galleryDir, 'alias.jpg'))
+fs.symlinkSync(path.join(gallery.rootDir, 'outside/DSC04020.JPG'),
+    path.join(gallery.galleryDir, 'link.jpg'))
+fs.symlinkSync(path.join(gallery.rootDir, 'outside'), path.join(gallery.galleryDir, 'linked'))
+
+// Paths that cannot be the one of an image, whether or not the file exists
+const MALFORMED_PATHS: string[] = [
+    '',
+    '2021/../gallery-settings.json',
+    '../gallery-settings.json',
+    './2021/04/07/DSC04018.JPG',
+    '/etc/passwd',
+    '2021//04/07/DSC04018.JPG',
+    '2021/04/07/',
+    'DSC04018.JPG\u0000',
+    '2021\\04\\07\\DSC04018.JPG',
+]
+
+// Paths that are well-formed but not the ones of images of the gallery
+const UNKNOWN_PATHS: string[] = [
+    '2021/04/07/DSC04020.JPG',
+    '.DSC04019.JPG',
+    'link.jpg',
+    'linked/DSC04020.JPG',
+]
+
+let server: TestServer
+before(async () => {
+    server = await startTestServer(gallery)
+})
+after(async () => {
+    await server.close()
+    gallery.remove()
+})
+
+describe('isValidImagePath', () => {
+    test('accepts the relative paths', () => {
+        assert.ok(isValidImagePath('2021/04/07/DSC04018.JPG'))
+        assert.ok(isValidImagePath('DSC04018.JPG'))
+        assert.ok(isValidImagePath('.DSC04019.JPG'))
+    })
+
+    test('rejects the empty, absolute and dot segments, and the control characters', () => {
+        for (const imagePath of MALFORMED_PATHS) {
+            assert.equal(isValidImagePath(imagePath), false, imagePath)
+        }
+    })
+})
+
+describe('resolveImagePath', () => {
+    test('resolves the images of the gallery', () => {
+        assert.equal(resolveImagePath('2021/04/07/DSC04018.JPG'), '2021/04/07/DSC04018.JPG')
+        assert.equal(resolveImagePath('alias.jpg'), 'alias.jpg')
+    })
+
+    test('does not resolve the other files, nor the links escaping the gallery', () => {
+        for (const imagePath of [...MALFORMED_PATHS, ...UNKNOWN_PATHS]) {
+            assert.equal(resolveImagePath(imagePath), undefined, imagePath)
+        }
+    })
+})
+
+describe('/image', () => {
+    test('serves the links to images of the gallery', async () => {
+        assert.equal((await request(server, '/image/alias.jpg')).status, 200)
+    })
+
+    test('rejects the malformed paths with 400', async () => {
+        for (const requestPath of [
+            '/image/2021/../gallery-settings.json',
+            '/image/2021/%2e%2e/%2e%2e/gallery-settings.json',
+            '/image/..%2fgallery-settings.json',
+            '/image/%2Fetc%2Fpasswd',
+            '/image/2021//04/07/DSC04018.JPG',
+            '/image/DSC04018.JPG%00',
+            '/image/2021%5C04%5C07%5CDSC04018.JPG',
+        ]) {
+            assert.equal((await request(server, requestPath)).status, 400, requestPath)
+        }
+    })
+
+    test('answers 404 for the files that are not images of the gallery', async () => {
+        for (const imagePath of UNKNOWN_PATHS) {
+            assert.equal((await request(server, `/image/${imagePath}`)).status, 404, imagePath)
+        }
+    })
+})
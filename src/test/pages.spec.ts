@@ -0,0 +1,119 @@
+import * as assert from 'node:assert/strict'
+import { after, before, describe, test } from 'node:test'
+import { JSDOM } from 'jsdom'
+import { openGallery } from '../service.js'
+import { renderPhotoPage, renderSectionImagesPage, renderSectionPage } from '../pages.js'
+import { createTestGallery, TestGallery } from './harness.js'
+
+const gallery: TestGallery = createTestGallery({
+    images: {
+        '2021/04/07/DSC04018.JPG': 'photo.jpg',
+        '2021/04/07/DSC04019.JPG': 'photo.jpg',
+        'graphic.png': 'graphic.png',
+    },
+    settings: {
+        'base-path': '/photos/',
+        'sections': {
+            cats: {
+                title: 'Cats & <dogs>:',
+                description: 'My beautiful cats',
+                includes: ['2021/04/07/DSC04018.JPG', '2021/04/07/DSC04019.JPG'],
+            },
+            drafts: {
+                title: 'Drafts:',
+                description: '',
+                includes: ['graphic.png'],
+                visibility: 'unlisted',
+            },
+            family: {
+                title: 'Family:',
+                description: '',
+                includes: ['graphic.png'],
+                visibility: 'protected',
+                password: 'secret',
+            },
+        },
+        'page-size': 1,
+    },
+})
+before(() => openGallery(gallery))
+after(() => gallery.remove())
+
+/**
+ * Parses a rendered page, served at a URL of the website.
+ */
+function parse(html: string | undefined, url: string = 'https://gallery.test/photos/'): Document {
+    assert.ok(html !== undefined)
+    return new JSDOM(html, { url }).window.document
+}
+
+describe('top bar', () => {
+    test('links to the webpage under the base path', () => {
+        for (const [html, url] of [
+            [renderSectionPage('cats'), 'https://gallery.test/photos/section/cats'],
+            [renderPhotoPage('2021/04/07/DSC04018.JPG'),
+                'https://gallery.test/photos/photo/2021/04/07/DSC04018.JPG'],
+        ]) {
+            const link = parse(html, url).querySelector('#top-bar a') as HTMLAnchorElement
+            assert.equal(link.href, 'https://gallery.test/photos/', url)
+        }
+    })
+})
+
+describe('renderSectionPage', () => {
+    test('renders the header of the section, with its title escaped', () => {
+        const document: Document = parse(renderSectionPage('cats'))
+        assert.equal(document.title.startsWith('Cats & <dogs>'), true)
+        assert.equal(document.querySelector('.section-title a')?.textContent, 'Cats & <dogs>:')
+        assert.equal(document.querySelector('.section-title a')?.getAttribute('href'),
+            'section/cats')
+        assert.equal(document.querySelector('.section-description')?.textContent,
+            'My beautiful cats')
+        assert.equal(document.querySelector('meta[name="robots"]'), null)
+    })
+
+    test('renders the first page of the images, linking to their pages and variants', () => {
+        const document: Document = parse(renderSectionPage('cats'))
+        const container = document.querySelector('.section-images') as HTMLElement
+        assert.equal(container.dataset.section, 'cats')
+        assert.equal(container.dataset.pageCount, '2')
+
+        const links: HTMLAnchorElement[] = [...container.querySelectorAll('a.section-image')]
+            .map(link => link as HTMLAnchorElement)
+        assert.deepEqual(links.map(link => link.getAttribute('href')),
+            ['photo/2021/04/07/DSC04018.JPG?section=cats'])
+        // The photo is rotated by its EXIF orientation
+        assert.equal(links[0].dataset.pswpWidth, '300')
+        assert.equal(links[0].dataset.pswpHeight, '400')
+        assert.match(links[0].dataset.pswpSrc as string, /^image\/2021\/04\/07\/DSC04018\.JPG\?v=/)
+        assert.match(links[0].querySelector('img')?.getAttribute('src') as string,
+            /^image\/2021\/04\/07\/DSC04018\.JPG\?sz=500k&v=/)
+    })
+
+    test('asks search engines not to index the unlisted sections', () => {
+        const document: Document = parse(renderSectionPage('drafts'))
+        assert.equal(document.querySelector('meta[name="robots"]')?.getAttribute('content'),
+            'noindex')
+    })
+
+    test('renders nothing for the protected and the unknown sections', () => {
+        assert.equal(renderSectionPage('family'), undefined)
+        assert.equal(renderSectionPage('dogs'), undefined)
+    })
+})
+
+describe('renderSectionImagesPage', () => {
+    test('renders the next pages of the images', () => {
+        const page = renderSectionImagesPage('cats', 2)
+        assert.ok(page !== undefined)
+        assert.equal(page.section, 'cats')
+        assert.equal(page.pageCount, 2)
+        assert.deepEqual(page.images, ['2021/04/07/DSC04019.JPG'])
+        assert.match(page.html, /href="photo\/2021\/04\/07\/DSC04019\.JPG\?section=cats"/)
+    })
+
+    test('renders nothing out of the range of the pages', () => {
+        assert.equal(renderSectionImagesPage('cats', 0), undefined)
+        assert.equal(renderSectionImagesPage('cats', 3), undefined)
+    })
+})
@@ -0,0 +1,234 @@
+import * as assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as http from 'node:http'
+import * as path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+import {
+    AccessGrant,
+    createAccessToken,
+    grantSectionAccess,
+    recordFailedPasswordAttempt,
+} from '../access.js'
+import { ACCESS_COOKIE_NAME, PASSWORD_MAX_FAILED_ATTEMPTS_PER_CLIENT } from '../constants.js'
+import { settingsWatcher } from '../resource_monitor.js'
+import {
+    createTestGallery,
+    request,
+    startTestServer,
+    TestGallery,
+    TestResponse,
+    TestServer,
+} from './harness.js'
+
+const gallery: TestGallery = createTestGallery({
+    images: {
+        '2021/04/07/DSC04018.JPG': 'photo.jpg',
+        'macro/DSC_0001.JPG': 'photo.jpg',
+        '100%.png': 'graphic.png',
+        '50%/DSC%2F.JPG': 'photo.jpg',
+        'family/DSC05000.JPG': 'photo.jpg',
+    },
+    settings: {
+        admin: { token: 'secret-token' },
+        uploads: { 'max-size': '4k' },
+        sections: {
+            family: {
+                title: 'Family:',
+                description: '',
+                includes: ['family/DSC05000.JPG'],
+                visibility: 'protected',
+                password: 'secret',
+            },
+        },
+    },
+})
+
+let server: TestServer
+before(async () => {
+    server = await startTestServer(gallery)
+})
+after(async () => {
+    await server.close()
+    gallery.remove()
+})
+
+// Headers of the uploads to the admin API
+const UPLOAD_HEADERS: http.OutgoingHttpHeaders = {
+    'Authorization': 'Bearer secret-token',
+    'Content-Type': 'multipart/form-data; boundary=test-boundary',
+}
+
+/**
+ * Posts a body to a path of the test server, and answers the response as soon as its headers are
+ * received, whether or not the server has read the whole body.
+ */
+function post(
+    requestPath: string,
+    headers: http.OutgoingHttpHeaders,
+    body?: Buffer,
+): Promise<http.IncomingMessage> {
+    return new Promise((resolve, reject) => {
+        const clientRequest: http.ClientRequest = http.request(server.url,
+            { method: 'POST', path: requestPath, headers }, response => {
+                resolve(response)
+                clientRequest.destroy()
+            })
+        // The server may answer and close the connection before the body is written
+        clientRequest.on('error', error => reject(error))
+        if (body === undefined) {
+            clientRequest.flushHeaders()
+        } else {
+            clientRequest.end(body)
+        }
+    })
+}
+
+/**
+ * Creates the multipart body of an upload of a single file.
+ */
+function createUploadBody(fileName: string, data: Buffer): Buffer {
+    return Buffer.concat([
+        Buffer.from('--test-boundary\r\n'
+            + `Content-Disposition: form-data; name="file"; filename="${fileName}"\r\n`
+            + 'Content-Type: application/octet-stream\r\n\r\n'),
+        data,
+        Buffer.from('\r\n--test-boundary--\r\n'),
+    ])
+}
+
+describe('/image', () => {
+    test('serves the original images', async () => {
+        const response: TestResponse = await request(server, '/image/2021/04/07/DSC04018.JPG')
+        assert.equal(response.status, 200)
+        assert.equal(response.headers['content-type'], 'image/jpeg')
+        assert.equal(response.headers['cache-control'], 'no-cache')
+        assert.deepEqual(response.body,
+            fs.readFileSync(path.join(gallery.galleryDir, '2021/04/07/DSC04018.JPG')))
+    })
+
+    test('serves the images whose names contain percent signs', async () => {
+        for (const [requestPath, contentType] of [
+            ['/image/100%25.png', 'image/png'],
+            ['/image/50%25/DSC%252F.JPG', 'image/jpeg'],
+            ['/image/50%25/DSC%252F.JPG?sz=w200', 'image/jpeg'],
+        ]) {
+            const response: TestResponse = await request(server, requestPath)
+            assert.equal(response.status, 200, requestPath)
+            assert.equal(response.headers['content-type'], contentType)
+        }
+    })
+
+    test('serves the cached images of a cache size', async () => {
+        for (const [imagePath, cacheFile] of [
+            ['2021/04/07/DSC04018.JPG', '2021_04_07_w200_DSC04018.JPG'],
+            ['macro/DSC_0001.JPG', 'macro_w200_DSC!u0001.JPG'],
+        ]) {
+            const response: TestResponse = await request(server, `/image/${imagePath}?sz=w200`)
+            assert.equal(response.status, 200)
+            assert.equal(response.headers['content-type'], 'image/jpeg')
+            assert.deepEqual(response.body, fs.readFileSync(path.join(gallery.cacheDir, cacheFile)))
+        }
+    })
+
+    test('answers the conditional requests of up-to-date clients with 304', async () => {
+        for (const query of ['', '?sz=w200']) {
+            const response: TestResponse = await request(server,
+                `/image/2021/04/07/DSC04018.JPG${query}`)
+            const etag: string | undefined = response.headers.etag
+            assert.ok(etag !== undefined)
+
+            const conditionalResponse: TestResponse = await request(server,
+                `/image/2021/04/07/DSC04018.JPG${query}`, { 'If-None-Match': etag })
+            assert.equal(conditionalResponse.status, 304)
+            assert.equal(conditionalResponse.body.length, 0)
+        }
+    })
+
+    test('serves the images of the protected sections only with a valid access cookie',
+        async () => {
+            const token: string = createAccessToken(
+                [grantSectionAccess('family', 60 * 1000) as AccessGrant])
+            const forgedToken: string = token.slice(0, -1) + (token.endsWith('A') ? 'B' : 'A')
+            for (const [headers, status] of [
+                [{}, 404],
+                [{ Cookie: `${ACCESS_COOKIE_NAME}=${token}` }, 200],
+                [{ Cookie: `${ACCESS_COOKIE_NAME}=${forgedToken}` }, 404],
+            ] as [http.OutgoingHttpHeaders, number][]) {
+                const response: TestResponse
+                    = await request(server, '/image/family/DSC05000.JPG', headers)
+                assert.equal(response.status, status, JSON.stringify(headers))
+            }
+        })
+
+    test('serves the images of the protected sections after a share link', async () => {
+        const token: string = createAccessToken(
+            [grantSectionAccess('family', 60 * 1000) as AccessGrant])
+        const response: TestResponse = await request(server, `/section/family?access=${token}`)
+        assert.equal(response.status, 302)
+        const cookie: string = (response.headers['set-cookie'] ?? [])[0].split(';')[0]
+        assert.equal((await request(server, '/image/family/DSC05000.JPG',
+            { Cookie: cookie })).status, 200)
+    })
+})
+
+describe('/api/admin/uploads', () => {
+    test('stores the images no larger than the maximum upload size', async () => {
+        const data: Buffer = fs.readFileSync(path.join(gallery.galleryDir, '100%.png'))
+        assert.equal((await post('/api/admin/uploads', UPLOAD_HEADERS,
+            createUploadBody('graphic.png', data))).statusCode, 201)
+    })
+
+    test('rejects the bodies announced larger than the maximum upload size before reading them',
+        async () => {
+            // The body is never sent: the server answers from the headers alone
+            assert.equal((await post('/api/admin/uploads',
+                { ...UPLOAD_HEADERS, 'Content-Length': 1024 * 1024 })).statusCode, 413)
+        })
+
+    test('rejects the bodies exceeding the maximum upload size as they are read', async () => {
+        const body: Buffer = createUploadBody('large.png', Buffer.alloc(256 * 1024))
+        assert.equal((await post('/api/admin/uploads',
+            { ...UPLOAD_HEADERS, 'Transfer-Encoding': 'chunked' }, body)).statusCode, 413)
+    })
+})
+
+describe('trust-proxy', () => {
+    /**
+     * Unlocks the protected section through an HTTPS reverse proxy, and tells whether the access
+     * cookie is marked as secure.
+     */
+    async function isAccessCookieSecure(): Promise<boolean> {
+        const response: http.IncomingMessage = await post('/section/family', {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'X-Forwarded-Proto': 'https',
+        }, Buffer.from('password=secret'))
+        const cookies: string[] = response.headers['set-cookie'] ?? []
+        assert.equal(cookies.length, 1)
+        return /;\s*secure/i.test(cookies[0])
+    }
+
+    test('trusts the forwarded headers once the settings file enables it', async () => {
+        assert.equal(await isAccessCookieSecure(), false)
+
+        const settings = JSON.parse(fs.readFileSync(gallery.settingsFile, 'utf-8'))
+        fs.writeFileSync(gallery.settingsFile, JSON.stringify({ ...settings, 'trust-proxy': true }))
+        // Report the change right away, rather than waiting for the watcher
+        await settingsWatcher.rescan([path.basename(gallery.settingsFile)])
+        assert.equal(await isAccessCookieSecure(), true)
+    })
+})
+
+describe('/section/:name', () => {
+    test('stops checking the passwords of a client after too many wrong ones', async () => {
+        for (let i = 0; i < PASSWORD_MAX_FAILED_ATTEMPTS_PER_CLIENT; i++) {
+            recordFailedPasswordAttempt('family', '127.0.0.1')
+        }
+
+        // Even the right password is refused
+        const response: http.IncomingMessage = await post('/section/family',
+            { 'Content-Type': 'application/x-www-form-urlencoded' }, Buffer.from('password=secret'))
+        assert.equal(response.statusCode, 429)
+        assert.ok(Number(response.headers['retry-after']) > 0)
+        assert.equal(response.headers['set-cookie'], undefined)
+    })
+})
@@ -0,0 +1,114 @@
+import * as assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+import {
+    collectCacheGarbage,
+    collectImagePaths,
+    getImageCachePath,
+    openGallery,
+    shouldIncludeImage,
+} from '../service.js'
+import { createTestGallery, TestGallery } from './harness.js'
+
+const gallery: TestGallery = createTestGallery({
+    images: {
+        'cover.jpg': 'photo.jpg',
+        '2021/04/07/DSC04018.JPG': 'photo.jpg',
+        '2021/04/07/.DS_Store': 'photo.jpg',
+        'macro/DSC_0001.JPG': 'photo.jpg',
+        'macro/graphic.png': 'graphic.png',
+    },
+    settings: { exclude: ['^\\.', '\\.png$'] },
+})
+before(() => openGallery(gallery))
+after(() => gallery.remove())
+
+describe('collectImagePaths', () => {
+    test('lists the images of the nested directories, relative to the root', () => {
+        assert.deepEqual(collectImagePaths(),
+            ['2021/04/07/DSC04018.JPG', 'cover.jpg', 'macro/DSC_0001.JPG'])
+    })
+
+    test('leaves out the files matching an exclusion pattern', () => {
+        const imagePaths: string[] = collectImagePaths()
+        assert.equal(imagePaths.includes('2021/04/07/.DS_Store'), false)
+        assert.equal(imagePaths.includes('macro/graphic.png'), false)
+    })
+
+    test('lists no image if the gallery directory does not exist', () => {
+        openGallery({ ...gallery, galleryDir: path.join(gallery.rootDir, 'missing') })
+        try {
+            assert.deepEqual(collectImagePaths(), [])
+        } finally {
+            openGallery(gallery)
+        }
+    })
+})
+
+describe('shouldIncludeImage', () => {
+    test('includes the images matching no exclusion pattern', () => {
+        assert.equal(shouldIncludeImage('2021/04/07/DSC04018.JPG'), true)
+        assert.equal(shouldIncludeImage('cover.jpg'), true)
+    })
+
+    test('excludes the images whose file name matches an exclusion pattern', () => {
+        assert.equal(shouldIncludeImage('2021/04/07/.DS_Store'), false)
+        assert.equal(shouldIncludeImage('macro/graphic.png'), false)
+    })
+
+    test('only matches the exclusion patterns against the file name', () => {
+        assert.equal(shouldIncludeImage('.albums/cover.jpg'), true)
+    })
+})
+
+describe('getImageCachePath', () => {
+    test('joins the directories, the size and the file name', () => {
+        assert.equal(getImageCachePath('2021/04/07/DSC04018.JPG', '500k'),
+            path.join(gallery.cacheDir, '2021_04_07_500k_DSC04018.JPG'))
+        assert.equal(getImageCachePath('cover.jpg', '500k'),
+            path.join(gallery.cacheDir, '_500k_cover.jpg'))
+        assert.equal(getImageCachePath('cover.jpg', 'w200', 'webp'),
+            path.join(gallery.cacheDir, '_w200_cover.jpg.webp'))
+    })
+
+    test('never gives two images the same cache path', () => {
+        const imagePaths: string[] = [
+            '2021/04/x.jpg',
+            '2021_04/x.jpg',
+            '2021/04_x.jpg',
+            '2021!u04/x.jpg',
+            '.2021/04/x.jpg',
+            '2021/04/.x.jpg',
+            'a/500k/b.jpg',
+            'a_500k_b.jpg',
+            'a/500k_b.jpg',
+            'x.jpg',
+            '_x.jpg',
+        ]
+
+        const cachePaths: Set<string> = new Set(imagePaths.flatMap(imagePath =>
+            ['500k', 'w200'].map(size => getImageCachePath(imagePath, size))))
+        assert.equal(cachePaths.size, imagePaths.length * 2)
+    })
+
+    test('never names a cached image as a hidden file', () => {
+        for (const imagePath of ['.2021/x.jpg', '.x.jpg', 'a/.x.jpg']) {
+            assert.ok(!path.basename(getImageCachePath(imagePath, '500k')).startsWith('.'))
+        }
+    })
+})
+
+describe('collectCacheGarbage', () => {
+    test('removes the cached images named as by the versions without escaping', async () => {
+        const source: string = path.join(gallery.galleryDir, 'macro/DSC_0001.JPG')
+        const cachePath: string = getImageCachePath('macro/DSC_0001.JPG', '500k')
+        const unescapedCachePath: string = path.join(gallery.cacheDir, 'macro_500k_DSC_0001.JPG')
+        fs.copyFileSync(source, cachePath)
+        fs.copyFileSync(source, unescapedCachePath)
+
+        await collectCacheGarbage()
+        assert.equal(fs.existsSync(cachePath), true)
+        assert.equal(fs.existsSync(unescapedCachePath), false)
+    })
+})
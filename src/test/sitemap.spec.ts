@@ -0,0 +1,116 @@
+import * as assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+import { JSDOM } from 'jsdom'
+import { SITEMAP_MAX_URLS } from '../constants.js'
+import { openGallery } from '../service.js'
+import { getSitemapFileName, renderRobotsTxt, renderSitemaps } from '../sitemap.js'
+import { createTestGallery, TestGallery } from './harness.js'
+
+const gallery: TestGallery = createTestGallery({
+    images: {
+        '2021/04/07/DSC04018.JPG': 'photo.jpg',
+        'family/DSC05000.JPG': 'photo.jpg',
+        'we ird&name.png': 'graphic.png',
+    },
+    settings: {
+        'base-url': 'https://example.com/photos/',
+        'sections': {
+            cats: {
+                title: 'Cats & dogs:',
+                description: '',
+                includes: ['2021/04/07/DSC04018.JPG', 'we ird&name.png'],
+            },
+            family: {
+                title: 'Family:',
+                description: '',
+                includes: ['family/DSC05000.JPG'],
+                visibility: 'protected',
+                password: 'secret',
+            },
+        },
+    },
+})
+before(() => openGallery(gallery))
+after(() => gallery.remove())
+
+// The pages are as recent as their most recently modified image
+const FIRST_MODIFICATION_TIME = new Date('2021-04-07T10:00:00Z')
+const LAST_MODIFICATION_TIME = new Date('2021-04-08T10:00:00Z')
+fs.utimesSync(path.join(gallery.galleryDir, '2021/04/07/DSC04018.JPG'),
+    FIRST_MODIFICATION_TIME, FIRST_MODIFICATION_TIME)
+fs.utimesSync(path.join(gallery.galleryDir, 'we ird&name.png'),
+    LAST_MODIFICATION_TIME, LAST_MODIFICATION_TIME)
+
+/**
+ * Parses a sitemap document.
+ */
+function parse(xml: string): Document {
+    return new JSDOM(xml, { contentType: 'text/xml' }).window.document
+}
+
+/**
+ * Lists the text of the elements of a sitemap document matching a tag name.
+ */
+function collectText(document: Document, tagName: string): string[] {
+    return [...document.getElementsByTagName(tagName)].map(element => element.textContent ?? '')
+}
+
+describe('renderSitemaps', () => {
+    test('lists the webpage, the public sections and the pages of their images', () => {
+        const sitemaps: string[] = renderSitemaps()
+        assert.equal(sitemaps.length, 1)
+        assert.deepEqual(collectText(parse(sitemaps[0]), 'loc'), [
+            'https://example.com/photos/',
+            'https://example.com/photos/section/featured',
+            'https://example.com/photos/section/cats',
+            'https://example.com/photos/section/global',
+            'https://example.com/photos/photo/2021/04/07/DSC04018.JPG',
+            'https://example.com/photos/photo/we%20ird%26name.png',
+        ])
+    })
+
+    test('lists the images of the pages, titled after their section', () => {
+        const document: Document = parse(renderSitemaps()[0])
+        assert.deepEqual(collectText(document, 'image:loc').map(url => url.replace(/\?.*/, '')), [
+            'https://example.com/photos/image/2021/04/07/DSC04018.JPG',
+            'https://example.com/photos/image/we%20ird%26name.png',
+        ])
+        assert.deepEqual(collectText(document, 'image:title'), ['Cats & dogs', 'Cats & dogs'])
+    })
+
+    test('dates the pages with the modification time of their images', () => {
+        // The featured and the global sections have no image
+        assert.deepEqual(collectText(parse(renderSitemaps()[0]), 'lastmod'), [
+            LAST_MODIFICATION_TIME.toISOString(),
+            LAST_MODIFICATION_TIME.toISOString(),
+            FIRST_MODIFICATION_TIME.toISOString(),
+            LAST_MODIFICATION_TIME.toISOString(),
+        ])
+    })
+
+    test('splits the large sitemaps, listed by a sitemap index', () => {
+        const urls = Array.from({ length: SITEMAP_MAX_URLS + 1 }, (_, index) =>
+            ({ loc: `https://example.com/photos/photo/${index}.jpg`, images: [] }))
+        const sitemaps: string[] = renderSitemaps(urls)
+        assert.equal(sitemaps.length, 3)
+
+        const index: Document = parse(sitemaps[0])
+        assert.equal(index.documentElement.tagName, 'sitemapindex')
+        assert.deepEqual(collectText(index, 'loc'), [
+            `https://example.com/photos/${getSitemapFileName(1)}`,
+            `https://example.com/photos/${getSitemapFileName(2)}`,
+        ])
+        assert.equal(sitemaps[2].match(/<url>/g)?.length, 1)
+    })
+})
+
+describe('renderRobotsTxt', () => {
+    test('points to the sitemap and keeps the crawlers away from the API', () => {
+        assert.equal(renderRobotsTxt(), 'User-agent: *\n'
+            + 'Disallow: /photos/api/\n'
+            + '\n'
+            + 'Sitemap: https://example.com/photos/sitemap.xml\n')
+    })
+})
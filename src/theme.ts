@@ -0,0 +1,157 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import ejs from 'ejs'
+import { Settings } from './settings.js'
+import { TEMPLATE_DIR, THEMES_DIR } from './constants.js'
+import { getBasePath, getSettings, getSiteUrl } from './service.js'
+import { templateWatcher, themeWatcher } from './resource_monitor.js'
+import { templateRenderDuration } from './metrics.js'
+
+/**
+ * The website, passed to every template as `site`.
+ */
+export interface SiteView {
+    // The title of the website, shown in the top bar and the titles of the pages
+    title: string
+
+    // The description of the website and the text of the bottom bar, if set
+    description?: string
+    footer?: string
+
+    // The absolute URL of the website
+    url: string
+
+    // The path the website is served under, e.g., "/photos/", which relative URLs are resolved from
+    basePath: string
+}
+
+/**
+ * The page being rendered, passed to every page template as `page`, for `partials/head.ejs`.
+ */
+export interface PageView {
+    // The title of the page, without the title of the website
+    title?: string
+
+    // Whether search engines must not index the page, e.g., the page of an unlisted section
+    noIndex?: boolean
+
+    // The meta tags of the page, e.g., the social cards
+    meta?: MetaTag[]
+}
+
+/**
+ * Meta tag of a page, e.g., `<meta property="og:title" content="Cats">`.
+ */
+export interface MetaTag {
+    attribute: 'name' | 'property'
+    key: string
+    content: string
+}
+
+/**
+ * Compiled page templates, keyed by file name. The included templates are cached by EJS. Both
+ * caches are cleared when a template changes.
+ */
+const compiledTemplates: Map<string, ejs.TemplateFunction> = new Map()
+
+/**
+ * The versions of the built-in templates and of the themes the compiled templates were read from,
+ * and the theme selected then.
+ */
+let compiledTemplatesVersion: string | undefined
+
+/**
+ * Gets the directory of the theme selected by the settings.
+ *
+ * @returns {string | undefined} The absolute path to the directory, or undefined if no theme is
+ * selected.
+ * @see Settings.theme
+ */
+export function getThemeDir(): string | undefined {
+    const theme: string | undefined = getSettings().theme
+    return theme === undefined ? undefined : path.join(THEMES_DIR, theme)
+}
+
+/**
+ * Gets the directory a file of the theme is taken from: the directory of the theme if it overrides
+ * the file, the built-in templates otherwise.
+ *
+ * @param {string} relativePath - The path to the file within the theme, e.g., `css/main.css`.
+ * @returns {string} The absolute path to the directory.
+ */
+export function getThemeFileRoot(relativePath: string): string {
+    const themeDir: string | undefined = getThemeDir()
+    return themeDir !== undefined && fs.existsSync(path.join(themeDir, relativePath))
+        ? themeDir
+        : TEMPLATE_DIR
+}
+
+/**
+ * Lists the files of a directory of the theme, including the built-in files that the theme does
+ * not override, e.g., for the static export.
+ *
+ * @param {string} relativeDir - The path to the directory within the theme, e.g., `css`.
+ * @returns {string[]} The names of the files, sorted.
+ */
+export function listThemeFiles(relativeDir: string): string[] {
+    const themeDir: string | undefined = getThemeDir()
+    const fileNames: Set<string> = new Set()
+    for (const dir of themeDir === undefined ? [TEMPLATE_DIR] : [themeDir, TEMPLATE_DIR]) {
+        const dirPath: string = path.join(dir, relativeDir)
+        if (fs.existsSync(dirPath)) {
+            fs.readdirSync(dirPath)
+                .filter(fileName => fs.statSync(path.join(dirPath, fileName)).isFile())
+                .forEach(fileName => fileNames.add(fileName))
+        }
+    }
+
+    return [...fileNames].sort()
+}
+
+/**
+ * Renders an EJS template of the theme. Besides the given data, the template gets the website as
+ * `site`. Templates include the other templates by absolute paths (e.g.,
+ * `include('/partials/image', { image })`), which are looked up in the theme first, then in the
+ * built-in templates.
+ *
+ * @param {string} name - The name of the template, without the `.ejs` extension, e.g., `index` or
+ * `partials/image`.
+ * @param {object} data - The data of the template.
+ * @returns {string} The rendered HTML.
+ */
+export function renderTemplate(name: string, data: object): string {
+    // The includes of a template are looked up in the theme selected when it was compiled
+    const version: string
+        = `${templateWatcher.version}.${themeWatcher.version}.${getSettings().theme ?? ''}`
+    if (compiledTemplatesVersion !== version) {
+        compiledTemplates.clear()
+        ejs.clearCache()
+        compiledTemplatesVersion = version
+    }
+
+    const file: string = path.join(getThemeFileRoot(`${name}.ejs`), `${name}.ejs`)
+    let template: ejs.TemplateFunction | undefined = compiledTemplates.get(file)
+    if (template === undefined) {
+        const themeDir: string | undefined = getThemeDir()
+        template = ejs.compile(fs.readFileSync(file).toString('utf-8'), {
+            filename: file,
+            root: themeDir === undefined ? [TEMPLATE_DIR] : [themeDir, TEMPLATE_DIR],
+            cache: true,
+        })
+        compiledTemplates.set(file, template)
+    }
+
+    const compiledTemplate: ejs.TemplateFunction = template
+    return templateRenderDuration.time({ template: name },
+        () => compiledTemplate({ site: getSiteView(getSettings()), ...data }))
+}
+
+function getSiteView(settings: Settings): SiteView {
+    return {
+        title: settings.branding?.title ?? settings['site-name'],
+        description: settings.branding?.description,
+        footer: settings.branding?.footer,
+        url: getSiteUrl(''),
+        basePath: getBasePath(),
+    }
+}
@@ -0,0 +1,19 @@
+// EJS does not ship its type declarations; these cover the part of its API used by theme.ts
+declare module 'ejs' {
+    export interface Options {
+        // The path to the template file, from which relative includes are resolved
+        filename?: string
+
+        // The directories absolute includes (e.g., "/partials/head") are resolved from, in order
+        root?: string | string[]
+
+        // Whether the compiled templates are cached by file name, including the included ones
+        cache?: boolean
+    }
+
+    export type TemplateFunction = (data?: object) => string
+
+    export function compile(template: string, options?: Options): TemplateFunction
+
+    export function clearCache(): void
+}
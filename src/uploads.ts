@@ -0,0 +1,279 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as crypto from 'node:crypto'
+import { UploadSettings } from './settings.js'
+import {
+    DEFAULT_UPLOAD_FOLDER,
+    DEFAULT_UPLOAD_MAX_SIZE,
+    FEATURED_SECTION_NAME,
+    UPLOAD_MAX_FILES,
+} from './constants.js'
+import { collectImagePaths, getGalleryPaths, getSettings, parseByteSize } from './service.js'
+import {
+    detectImageDataFormat,
+    ImageFormat,
+    ImageMetadata,
+    parseImageMetadata,
+    stripGpsMetadata,
+} from './image_metadata.js'
+import { addUploadedImages, getAdminGallery } from './admin.js'
+import { galleryWatcher } from './resource_monitor.js'
+import { logger } from './logger.js'
+
+/**
+ * Error thrown when an upload is rejected. Nothing is stored in the gallery.
+ */
+export class UploadError extends Error {
+    /**
+     * @param {string} message - The reason of the rejection.
+     * @param {number} [status=400] - The HTTP status of the response.
+     */
+    public constructor(message: string, public readonly status: number = 400) {
+        super(message)
+        this.name = 'UploadError'
+    }
+}
+
+/**
+ * File uploaded to the gallery.
+ */
+export interface UploadedFile {
+    // The name of the file on the computer of the client
+    fileName: string
+
+    data: Buffer
+}
+
+/**
+ * Outcome of the upload of a file.
+ */
+export interface UploadResult {
+    // The name of the file on the computer of the client
+    fileName: string
+
+    // The relative path to the image within the gallery directory
+    path: string
+
+    // Whether the same image was already in the gallery, in which case it was not stored again
+    duplicate: boolean
+}
+
+/**
+ * An uploaded file that passed the checks, ready to be stored.
+ */
+interface IngestedFile {
+    fileName: string
+    data: Buffer
+    hash: string
+    metadata?: ImageMetadata
+}
+
+// File extensions of the stored images, by format
+const FILE_EXTENSIONS: { [format in ImageFormat]: string[] } = {
+    jpeg: ['.jpg', '.jpeg'],
+    png: ['.png'],
+    webp: ['.webp'],
+}
+
+/**
+ * Hashes of the content of the images of the gallery, keyed by relative path, for the detection
+ * of duplicates. A hash is computed again when the size or the modification time of the image
+ * changes.
+ */
+const imageHashes: Map<string, { size: number, mtimeMs: number, hash: string }> = new Map()
+
+/**
+ * Gets the maximum size of an uploaded image.
+ *
+ * @returns {number} The size in bytes.
+ * @see UploadSettings['max-size']
+ */
+export function getUploadMaxSize(): number {
+    const maxSize: string = getSettings().uploads?.['max-size'] ?? DEFAULT_UPLOAD_MAX_SIZE
+    return parseByteSize(maxSize) as number
+}
+
+/**
+ * Stores uploaded images in the gallery: the files are checked, their location is removed from
+ * their metadata unless disabled, and they are stored in the upload folder of their capture date.
+ * An image whose content is already in the gallery is not stored again. The images can then be
+ * added to a section, or featured.
+ *
+ * All the files are checked before any of them is stored, so a rejected upload stores nothing.
+ *
+ * @param {UploadedFile[]} files - The uploaded files.
+ * @param {string} [sectionName] - The name of the section to add the images to, or "featured".
+ * @returns {Promise<UploadResult[]>} A promise resolving to the outcome of the upload of each
+ * file, in the same order.
+ * @throws {UploadError} If a file is not a supported image or is too large, or if the section does
+ * not exist.
+ */
+export async function ingestUploads(
+    files: UploadedFile[],
+    sectionName?: string,
+): Promise<UploadResult[]> {
+    if (files.length === 0) {
+        throw new UploadError('No file uploaded')
+    }
+    if (files.length > UPLOAD_MAX_FILES) {
+        throw new UploadError(`No more than ${UPLOAD_MAX_FILES} files can be uploaded at once`)
+    }
+    if (sectionName !== undefined && sectionName !== FEATURED_SECTION_NAME
+        && !Object.prototype.hasOwnProperty.call(getAdminGallery().sections, sectionName)) {
+        throw new UploadError(`Section "${sectionName}" not found`, 404)
+    }
+
+    const uploadSettings: UploadSettings = getSettings().uploads ?? {}
+    const ingestedFiles: IngestedFile[] = files.map(file => ingestFile(file, uploadSettings))
+
+    // Files uploaded twice in the same request are stored once
+    const storedImagePaths: Map<string, string> = new Map()
+    const results: UploadResult[] = ingestedFiles.map(file => {
+        const existingImagePath: string | undefined
+            = storedImagePaths.get(file.hash) ?? findImageByContent(file.data, file.hash)
+        if (existingImagePath !== undefined) {
+            return { fileName: file.fileName, path: existingImagePath, duplicate: true }
+        }
+
+        const imagePath: string = storeImage(file, uploadSettings)
+        storedImagePaths.set(file.hash, imagePath)
+        return { fileName: file.fileName, path: imagePath, duplicate: false }
+    })
+
+    // Index the new images now, so they can be added to the section and detected as duplicates
+    await galleryWatcher.rescan([...storedImagePaths.values()])
+    if (sectionName !== undefined) {
+        addUploadedImages(sectionName, results.map(result => result.path))
+    }
+
+    return results
+}
+
+/**
+ * Checks an uploaded file, and removes the location from its metadata if enabled.
+ */
+function ingestFile(file: UploadedFile, uploadSettings: UploadSettings): IngestedFile {
+    const maxSize: number = getUploadMaxSize()
+    if (file.data.length > maxSize) {
+        throw new UploadError(`${file.fileName} exceeds the maximum size of ${maxSize} bytes`, 413)
+    }
+    if (detectImageDataFormat(file.data) === undefined) {
+        throw new UploadError(`${file.fileName} is not a JPEG, PNG or WebP image`, 415)
+    }
+
+    const data: Buffer = (uploadSettings['strip-gps'] ?? true)
+        ? stripGpsMetadata(file.data)
+        : file.data
+    return {
+        fileName: file.fileName,
+        data,
+        hash: computeHash(data),
+        metadata: parseImageMetadata(data),
+    }
+}
+
+/**
+ * Finds an image of the gallery with the given content. Only the images of the same size are
+ * hashed.
+ */
+function findImageByContent(data: Buffer, hash: string): string | undefined {
+    const galleryDir: string = getGalleryPaths().galleryDir
+    for (const imagePath of collectImagePaths()) {
+        const stats: fs.Stats | undefined
+            = fs.statSync(path.join(galleryDir, imagePath), { throwIfNoEntry: false })
+        if (stats?.size !== data.length) {
+            continue
+        }
+
+        let imageHash = imageHashes.get(imagePath)
+        if (imageHash?.size !== stats.size || imageHash.mtimeMs !== stats.mtimeMs) {
+            imageHash = {
+                size: stats.size,
+                mtimeMs: stats.mtimeMs,
+                hash: computeHash(fs.readFileSync(path.join(galleryDir, imagePath))),
+            }
+            imageHashes.set(imagePath, imageHash)
+        }
+        if (imageHash.hash === hash) {
+            return imagePath
+        }
+    }
+
+    return undefined
+}
+
+/**
+ * Stores an image in the upload folder of its capture date, under its original file name if it is
+ * free. The image is written to a temporary file first, which the gallery watcher ignores, so the
+ * image is never indexed before it is complete.
+ *
+ * @returns {string} The relative path to the image within the gallery directory.
+ */
+function storeImage(file: IngestedFile, uploadSettings: UploadSettings): string {
+    const folder: string = formatUploadFolder(
+        uploadSettings.folder ?? DEFAULT_UPLOAD_FOLDER, file.metadata?.dateTaken)
+    const directory: string = path.join(getGalleryPaths().galleryDir, folder)
+    fs.mkdirSync(directory, { recursive: true })
+
+    const format: ImageFormat = detectImageDataFormat(file.data) as ImageFormat
+    const { name, ext } = path.parse(sanitizeFileName(file.fileName))
+    const extension: string = FILE_EXTENSIONS[format].includes(ext.toLowerCase())
+        ? ext
+        : FILE_EXTENSIONS[format][0]
+
+    // Named after UPLOAD_TEMPORARY_FILE_PATTERN
+    const temporaryFile: string = path.join(directory, `.${crypto.randomUUID()}.tmp`)
+    fs.writeFileSync(temporaryFile, file.data)
+    try {
+        for (let suffix = 0; ; suffix++) {
+            const fileName: string = `${name}${suffix === 0 ? '' : `-${suffix}`}${extension}`
+            try {
+                // Linking fails instead of replacing an existing file, unlike renaming
+                fs.linkSync(temporaryFile, path.join(directory, fileName))
+                logger.info('Image uploaded', { image: path.join(folder, fileName) })
+                return path.join(folder, fileName)
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw error
+                }
+            }
+        }
+    } finally {
+        fs.rmSync(temporaryFile, { force: true })
+    }
+}
+
+/**
+ * Replaces the date placeholders of the upload folder, e.g., "{yyyy}/{mm}" becomes "2021/04". The
+ * upload date is used if the capture date is unknown.
+ */
+function formatUploadFolder(folder: string, dateTaken?: string): string {
+    const now: Date = new Date()
+    const [year, month, day] = dateTaken?.substring(0, 10).split('-') ?? [
+        `${now.getFullYear()}`,
+        `${now.getMonth() + 1}`.padStart(2, '0'),
+        `${now.getDate()}`.padStart(2, '0'),
+    ]
+
+    return path.normalize(folder
+        .replace(/\{yyyy\}/g, year)
+        .replace(/\{mm\}/g, month)
+        .replace(/\{dd\}/g, day)
+        .replace(/^\/+/, '') || '.')
+}
+
+/**
+ * Keeps the base name of a file name given by a client, without control characters and leading
+ * dots, so the image can neither be stored elsewhere nor hidden.
+ */
+function sanitizeFileName(fileName: string): string {
+    const sanitized: string = path.basename(fileName.replace(/\\/g, '/'))
+        .replace(/[\u0000-\u001F\u007F]/g, '')
+        .replace(/^[.\s]+/, '')
+        .trim()
+    return sanitized === '' ? 'upload' : sanitized
+}
+
+function computeHash(data: Buffer): string {
+    return crypto.createHash('sha256').update(data).digest('hex')
+}
@@ -0,0 +1,293 @@
+import { CacheSize, Section, Settings } from './settings.js'
+import { DEFAULT_IMAGE_SIZES, FALLBACK_IMAGE_DIMENSIONS } from './constants.js'
+import {
+    getImageMetadata,
+    getImageUrl,
+    getLargestCacheSize,
+    getMediaType,
+    getPageCount,
+    getPageImagePaths,
+    getPhotoPageUrl,
+    getScaledWidth,
+    getSectionImagesPageUrl,
+    getSectionPageUrl,
+    getSettings,
+    parseCacheSize,
+} from './service.js'
+import { formatExposure, ImageMetadata } from './image_metadata.js'
+import { getVideoContentType, MediaType } from './media.js'
+
+/**
+ * Section of the templates (`partials/section.ejs`): its header (title and description), the
+ * links to its nested albums, and the first page of its images. The next pages are loaded by the
+ * script of the webpage while scrolling, from `pageUrl` and `pageCount`.
+ */
+export interface SectionView {
+    // The id of the section element
+    id: string
+
+    // The name of the section, undefined for the results of a search
+    name?: string
+
+    title: string
+    description: string
+
+    // The relative URL of the page of the section, linked by the title
+    url: string
+
+    // The albums nested in the section
+    albums: AlbumView[]
+
+    // The images of the first page
+    images: ImageView[]
+
+    // The relative URL of the pages of images, with a `{page}` placeholder, and their number
+    pageUrl: string
+    pageCount: number
+}
+
+/**
+ * Link to an album nested in a section.
+ */
+export interface AlbumView {
+    title: string
+    url: string
+    imageCount: number
+}
+
+/**
+ * Image of the templates (`partials/image.ejs`). The image opens in PhotoSwipe, and links to its
+ * own page. The thumbnail of a RAW file is its preview, and the one of a video its poster frame.
+ */
+export interface ImageView {
+    // The media type of the image, and the content type of the original file of a video
+    type: MediaType
+    contentType?: string
+
+    // The relative URLs of the page of the image, of its thumbnail and of the image opened in
+    // PhotoSwipe: the original image or video, or the largest cached preview of a RAW file
+    pageUrl: string
+    src: string
+    originalUrl: string
+
+    // The `srcset` and `sizes` attributes of the thumbnail, if there are dimension-based cache
+    // sizes
+    srcset?: string
+    sizes?: string
+
+    // The dimensions of the original image
+    width: number
+    height: number
+
+    // The caption shown by PhotoSwipe, keyed by the suffix of its data attribute (e.g.,
+    // `data-caption-date`). Values that are not available are omitted.
+    caption: { [key: string]: string }
+}
+
+/**
+ * Image of its own page (`photo.ejs`): the image, the links to the previous and next images of its
+ * section, and its metadata.
+ */
+export interface PhotoView {
+    // The media type of the image, and the content type of the original file of a video
+    type: MediaType
+    contentType?: string
+
+    // The relative URLs of the displayed image (the poster frame of a video) and of the original
+    // file
+    src: string
+    originalUrl: string
+
+    // The `srcset` attribute of the image, if there are dimension-based cache sizes
+    srcset?: string
+
+    alt: string
+    width: number
+    height: number
+
+    // The relative URLs of the pages of the previous and next images of the section, if any
+    previousUrl?: string
+    nextUrl?: string
+
+    // The section the image is shown in
+    section: { title: string, url: string }
+
+    // The metadata of the image, as human-readable terms and values
+    metadata: [string, string][]
+}
+
+/**
+ * Field of the search form (`search.ejs`), named after the query string of the search.
+ */
+export interface SearchFieldView {
+    name: string
+    label: string
+    type: 'search' | 'text'
+    placeholder?: string
+
+    // The value of the current search, empty if none
+    value: string
+}
+
+/**
+ * Builds the section of the templates.
+ *
+ * @param {Section} section - The section. Its images must exist in the gallery.
+ * @param {string} sectionName - The name of the section.
+ * @param {Map<string, Section>} [albums] - The albums nested in the section, linked below its
+ * description.
+ * @returns {SectionView} The section of the templates.
+ */
+export function toSectionView(
+    section: Section,
+    sectionName: string,
+    albums: Map<string, Section> = new Map(),
+): SectionView {
+    const defaultSize: string = getSettings()['cache-sz'][0]
+    return {
+        id: `${sectionName}-section`,
+        name: sectionName,
+        title: section.title,
+        description: section.description,
+        url: getSectionPageUrl(sectionName),
+        albums: toAlbumViews(albums),
+        images: getPageImagePaths(section, 1)
+            .map(imagePath => toImageView(imagePath, defaultSize, sectionName)),
+        pageUrl: getSectionImagesPageUrl(sectionName),
+        pageCount: getPageCount(section),
+    }
+}
+
+/**
+ * Builds the results of a search as a section of the templates: a header, the links to the
+ * matching sections, and the first page of the matching images. The next pages are loaded while
+ * scrolling, as for the sections.
+ *
+ * @param {Section} results - The results, as a section: a title, a description, and the matching
+ * images.
+ * @param {Map<string, Section>} sections - The matching sections.
+ * @param {string} url - The relative URL of the search page, linked by the title.
+ * @param {string} pageUrl - The relative URL of the pages of images, with a `{page}` placeholder.
+ * @returns {SectionView} The section of the templates.
+ * @see toSectionView
+ */
+export function toSearchResultsView(
+    results: Section,
+    sections: Map<string, Section>,
+    url: string,
+    pageUrl: string,
+): SectionView {
+    const defaultSize: string = getSettings()['cache-sz'][0]
+    return {
+        id: 'search-results',
+        title: results.title,
+        description: results.description,
+        url,
+        albums: toAlbumViews(sections),
+        images: getPageImagePaths(results, 1).map(imagePath => toImageView(imagePath, defaultSize)),
+        pageUrl,
+        pageCount: getPageCount(results),
+    }
+}
+
+/**
+ * Builds the image of the templates.
+ *
+ * @param {string} imagePath - The relative path to the image within the gallery directory.
+ * @param {string} size - The cache size of the thumbnail.
+ * @param {string} [sectionName] - The name of the section the image is shown in, if any.
+ * @returns {ImageView} The image of the templates.
+ */
+export function toImageView(imagePath: string, size: string, sectionName?: string): ImageView {
+    const metadata: ImageMetadata | undefined = getImageMetadata(imagePath)
+    const width: number = metadata?.width ?? FALLBACK_IMAGE_DIMENSIONS.width
+    const height: number = metadata?.height ?? FALLBACK_IMAGE_DIMENSIONS.height
+    const srcset: string | undefined = getSrcset(imagePath, width, height)
+    const type: MediaType = getMediaType(imagePath)
+
+    return {
+        type,
+        contentType: getVideoContentType(imagePath),
+        pageUrl: getPhotoPageUrl(imagePath, sectionName),
+        src: getImageUrl(imagePath, size),
+        // Browsers cannot show RAW files
+        originalUrl: type === 'raw'
+            ? getImageUrl(imagePath, getLargestCacheSize())
+            : getImageUrl(imagePath),
+        srcset,
+        sizes: srcset && (getSettings()['image-sizes'] ?? DEFAULT_IMAGE_SIZES),
+        width,
+        height,
+        caption: metadata === undefined ? {} : getCaption(metadata),
+    }
+}
+
+/**
+ * Builds the `srcset` attribute of an image from the dimension-based cache sizes, so that the
+ * browser can pick the variant matching the viewport. Cache sizes resulting in the same width
+ * are only listed once.
+ *
+ * @param {string} imagePath - The relative path to the image within the gallery directory.
+ * @param {number} width - The width of the original image.
+ * @param {number} height - The height of the original image.
+ * @returns {string | undefined} The srcset, or undefined if there is no dimension-based cache
+ * size.
+ */
+export function getSrcset(imagePath: string, width: number, height: number): string | undefined {
+    const settings: Settings = getSettings()
+    const candidates: Map<number, string> = new Map()
+    for (const size of settings['cache-sz']) {
+        const cacheSize: CacheSize | undefined = parseCacheSize(size)
+        if (cacheSize === undefined || cacheSize.targetSize !== undefined) {
+            continue
+        }
+
+        const scaledWidth: number = getScaledWidth(cacheSize, width, height)
+        if (!candidates.has(scaledWidth)) {
+            candidates.set(scaledWidth, size)
+        }
+    }
+
+    if (candidates.size === 0) {
+        return undefined
+    }
+
+    return [...candidates.entries()]
+        .sort(([widthA], [widthB]) => widthA - widthB)
+        .map(([scaledWidth, size]) => `${getImageUrl(imagePath, size)} ${scaledWidth}w`)
+        .join(', ')
+}
+
+/**
+ * Drops the colon ending the title of a section on the webpage (e.g., "Cats:"), for the titles
+ * used out of the section header: pages, links and social cards.
+ *
+ * @param {string} title - The title of the section.
+ * @returns {string} The title without the trailing colon.
+ */
+export function trimSectionTitle(title: string): string {
+    return title.replace(/:\s*$/, '')
+}
+
+function toAlbumViews(albums: Map<string, Section>): AlbumView[] {
+    return [...albums].map(([albumName, album]) => ({
+        title: trimSectionTitle(album.title),
+        url: getSectionPageUrl(albumName),
+        imageCount: album.includes.length,
+    }))
+}
+
+/**
+ * Gets the caption of an image (capture date, camera, lens and exposure).
+ */
+function getCaption(metadata: ImageMetadata): { [key: string]: string } {
+    const caption: { [key: string]: string | undefined } = {
+        date: metadata.dateTaken?.split('T')[0],
+        camera: metadata.camera,
+        lens: metadata.lens,
+        exposure: formatExposure(metadata),
+    }
+
+    return Object.fromEntries(Object.entries(caption)
+        .filter((entry): entry is [string, string] => entry[1] !== undefined))
+}